@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { getOpmlFilename, serializeOpml } from "./opml";
+import type { SearchResult } from "./types";
+
+const result: SearchResult = {
+  success: true,
+  searchedUrl: "https://example.com/",
+  totalFound: 2,
+  feeds: [
+    {
+      url: "https://example.com/feed.xml",
+      title: "Example Blog",
+      type: "RSS",
+      discoveryMethod: "meta-tag",
+      verification: "verified",
+    },
+    {
+      url: "https://example.com/atom.xml",
+      type: "Atom",
+      discoveryMethod: "common-path",
+      metadata: {
+        siteUrl: "https://blog.example.com/",
+        itemCount: 0,
+        sampleItemTitles: [],
+      },
+    },
+  ],
+};
+
+describe("shared/opml", () => {
+  describe("serializeOpml", () => {
+    it("should serialize every feed as an OPML 2.0 outline", () => {
+      const opml = serializeOpml(result, new Date("2024-01-02T03:04:05Z"));
+
+      expect(opml).toBe(
+        [
+          '<?xml version="1.0" encoding="UTF-8"?>',
+          '<opml version="2.0">',
+          "  <head>",
+          "    <title>Feeds for https://example.com/</title>",
+          "    <dateCreated>Tue, 02 Jan 2024 03:04:05 GMT</dateCreated>",
+          "  </head>",
+          "  <body>",
+          '    <outline type="rss" text="Example Blog" title="Example Blog" xmlUrl="https://example.com/feed.xml" htmlUrl="https://example.com/"/>',
+          '    <outline type="rss" text="https://example.com/atom.xml" title="https://example.com/atom.xml" xmlUrl="https://example.com/atom.xml" htmlUrl="https://blog.example.com/"/>',
+          "  </body>",
+          "</opml>",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("should escape titles and URLs", () => {
+      const opml = serializeOpml({
+        ...result,
+        feeds: [
+          {
+            url: "https://example.com/feed?a=1&b=2",
+            title: `Tom & Jerry's <"Feed">`,
+            type: "RSS",
+            discoveryMethod: "meta-tag",
+          },
+        ],
+      });
+
+      expect(opml).toContain(
+        'text="Tom &amp; Jerry&apos;s &lt;&quot;Feed&quot;&gt;"',
+      );
+      expect(opml).toContain('xmlUrl="https://example.com/feed?a=1&amp;b=2"');
+    });
+
+    it("should leave out feeds that failed verification", () => {
+      const opml = serializeOpml({
+        ...result,
+        feeds: [{ ...result.feeds[0], verification: "invalid" }],
+      });
+
+      expect(opml).not.toContain("<outline");
+    });
+  });
+
+  describe("getOpmlFilename", () => {
+    it("should name the file after the searched host", () => {
+      expect(getOpmlFilename(result)).toBe("example.com-feeds.opml");
+    });
+
+    it("should fall back to a generic name", () => {
+      expect(getOpmlFilename({ ...result, searchedUrl: "not a url" })).toBe(
+        "feeds.opml",
+      );
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * OPML 2.0 export of search results, shared by the worker's
+ * `Accept: text/x-opml` response and the frontend's download button
+ */
+
+import { Result } from "neverthrow";
+import type { SearchResult } from "./types";
+
+export const OPML_MEDIA_TYPE = "text/x-opml";
+
+const XML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&apos;",
+};
+
+function escapeXml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => XML_ESCAPES[char] ?? char);
+}
+
+/**
+ * Serialize the feeds of a search result as an OPML 2.0 subscription list.
+ * Feeds that failed verification are left out; a reader could not subscribe
+ * to them anyway.
+ */
+export function serializeOpml(
+  result: SearchResult,
+  dateCreated: Date = new Date(),
+): string {
+  const outlines = result.feeds
+    .filter((feed) => feed.verification !== "invalid")
+    .map((feed) => {
+      const title = escapeXml(feed.title || feed.url);
+      const htmlUrl = escapeXml(feed.metadata?.siteUrl ?? result.searchedUrl);
+      // OPML 2.0 uses type="rss" for every feed subscription, Atom included
+      return `    <outline type="rss" text="${title}" title="${title}" xmlUrl="${escapeXml(feed.url)}" htmlUrl="${htmlUrl}"/>`;
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    "  <head>",
+    `    <title>Feeds for ${escapeXml(result.searchedUrl)}</title>`,
+    `    <dateCreated>${dateCreated.toUTCString()}</dateCreated>`,
+    "  </head>",
+    "  <body>",
+    ...outlines,
+    "  </body>",
+    "</opml>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Download file name for a search result's OPML, e.g. "example.com-feeds.opml"
+ */
+export function getOpmlFilename(result: SearchResult): string {
+  const host = Result.fromThrowable(
+    () => new URL(result.searchedUrl).hostname,
+    () => null,
+  )();
+  return host.isOk() && host.value ? `${host.value}-feeds.opml` : "feeds.opml";
+}
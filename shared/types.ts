@@ -2,6 +2,169 @@
  * Shared type definitions for frontend and backend
  */
 
+/**
+ * Feed formats FeedFinder can discover
+ * JSON refers to JSON Feed (https://jsonfeed.org)
+ */
+export type FeedType = "RSS" | "Atom" | "JSON";
+
+/**
+ * How a feed was discovered
+ * - meta-tag: <link rel="alternate"> in the page's HTML
+ * - common-path: probing well-known feed paths such as /feed
+ * - link-header: an RFC 8288 Link response header
+ * - anchor-link: a visible <a href> link that mentions RSS, Atom or feeds
+ * - site-rule: a platform-specific rule (e.g. YouTube channel feeds)
+ * - sitemap: a feed-like URL listed in the site's sitemap
+ */
+export type DiscoveryMethod =
+  | "meta-tag"
+  | "common-path"
+  | "link-header"
+  | "anchor-link"
+  | "site-rule"
+  | "sitemap";
+
+/**
+ * What part of a site a feed covers
+ * - main: the site's main feed of posts
+ * - comments: comments on the site or on a single post
+ * - category: posts in one category or section
+ * - tag: posts with one tag
+ * - author: posts by one author
+ * - podcast: podcast episodes
+ */
+export type FeedKind =
+  | "main"
+  | "comments"
+  | "category"
+  | "tag"
+  | "author"
+  | "podcast";
+
+/**
+ * Blogging platforms and site generators recognised from
+ * <meta name="generator">, each with its own feed paths
+ */
+export type CmsPlatform =
+  | "WordPress"
+  | "Ghost"
+  | "Blogger"
+  | "Hugo"
+  | "Jekyll"
+  | "Tumblr"
+  | "Drupal";
+
+/**
+ * Outcome of fetching a candidate feed and inspecting its body
+ * - verified: the body's root element is <rss>, <feed> or <rdf:RDF>,
+ *   or the body declares a JSON Feed version
+ * - unverified: the candidate could not be fetched (timeout, network error, 5xx)
+ * - invalid: the candidate responded but is not a feed (e.g. an HTML error
+ *   page), or points somewhere we refuse to fetch (private or non-HTTP URLs)
+ */
+export type FeedVerificationStatus = "verified" | "unverified" | "invalid";
+
+/**
+ * Podcast details parsed from an RSS feed's iTunes (itunes:) and
+ * Podcasting 2.0 (podcast:) tags and its enclosures
+ */
+export interface PodcastInfo {
+  /** Cover art (itunes:image, falling back to podcast:image and <image>) */
+  artworkUrl?: string;
+  /** Author named by the feed (itunes:author, falling back to the owner) */
+  author?: string;
+  /** Number of items with an audio or video enclosure */
+  episodeCount: number;
+  /** Whether itunes:explicit marks the podcast explicit (absent when unset) */
+  explicit?: boolean;
+}
+
+/**
+ * Summary of a feed's contents, parsed from the feed body
+ */
+export interface FeedMetadata {
+  /** Title declared by the feed itself (channel or feed title) */
+  title?: string;
+  /** Description or subtitle declared by the feed */
+  description?: string;
+  /** Link to the website the feed belongs to */
+  siteUrl?: string;
+  /** Language code declared by the feed (e.g. "en-us") */
+  language?: string;
+  /** Number of items found in the (size-limited) feed body */
+  itemCount: number;
+  /** ISO 8601 date of the newest item, when items carry dates */
+  lastUpdated?: string;
+  /** Titles of the first few items, in feed order */
+  sampleItemTitles: string[];
+  /** Podcast details (present for podcast feeds) */
+  podcast?: PodcastInfo;
+}
+
+/**
+ * Whether a feed's responses let readers poll it with conditional requests
+ */
+export interface HttpCachingSupport {
+  /** Response carries an ETag (for If-None-Match) */
+  etag: boolean;
+  /** Response carries a Last-Modified date (for If-Modified-Since) */
+  lastModified: boolean;
+}
+
+/**
+ * Signs of whether a feed is alive and well-formed, from one fetch of it
+ */
+export interface FeedHealth {
+  /** ISO 8601 date of the newest item, when items carry dates */
+  lastItemDate?: string;
+  /** Median time between consecutive items, in hours (needs two dated items) */
+  medianIntervalHours?: number;
+  httpCaching: HttpCachingSupport;
+  /** XML well-formedness problems, or why a JSON Feed does not parse */
+  wellFormednessIssues: string[];
+  /** Required elements the feed lacks, e.g. "channel/link" */
+  missingElements: string[];
+  /** Item GUIDs (Atom and JSON Feed ids) shared by more than one item */
+  duplicateGuids: string[];
+  /** Whether the body was cut at the size limit, so only its start was checked */
+  truncated: boolean;
+}
+
+/**
+ * Signals that make up a feed's confidence score
+ * - discovery-method: how the feed was found (advertised or guessed)
+ * - verification: whether fetching it returned a feed
+ * - content-type: whether it is served with its format's media type
+ * - freshness: how recent its newest item is
+ * - same-origin: whether it is hosted on the searched site
+ */
+export type ConfidenceFactor =
+  | "discovery-method"
+  | "verification"
+  | "content-type"
+  | "freshness"
+  | "same-origin";
+
+/**
+ * Points one factor contributed to a confidence score, and why
+ */
+export interface ConfidenceReason {
+  factor: ConfidenceFactor;
+  points: number;
+  /** Human-readable explanation (e.g. "Served as application/rss+xml") */
+  detail: string;
+}
+
+/**
+ * How likely a feed is the one to subscribe to
+ */
+export interface FeedConfidence {
+  /** Sum of the reasons' points, from 0 to 100 */
+  score: number;
+  reasons: ConfidenceReason[];
+}
+
 /**
  * Feed result interface
  * Represents a discovered feed from a website
@@ -11,12 +174,51 @@ export interface FeedResult {
   url: string;
   /** The title of the feed (optional - may not be available from meta tags) */
   title?: string;
-  /** The type of feed (RSS or Atom) */
-  type: "RSS" | "Atom";
+  /** The type of feed (RSS, Atom or JSON Feed) */
+  type: FeedType;
   /** Optional description of the feed */
   description?: string;
   /** How the feed was discovered */
-  discoveryMethod: "meta-tag" | "common-path";
+  discoveryMethod: DiscoveryMethod;
+  /** Name of the site rule that produced the feed (e.g. "YouTube") */
+  siteRule?: string;
+  /** What part of the site the feed covers (absent until classified) */
+  kind?: FeedKind;
+  /** Result of fetching and parsing the feed body (absent until verified) */
+  verification?: FeedVerificationStatus;
+  /** Summary of the feed's contents (present for verified feeds) */
+  metadata?: FeedMetadata;
+  /** WebSub hub that pushes the feed's updates (verified feeds only) */
+  hubUrl?: string;
+  /** Canonical URL the feed declares for itself with rel="self" */
+  selfUrl?: string;
+  /** Where the feed is served from after redirects (when it redirects) */
+  finalUrl?: string;
+  /** Equivalent URLs of this feed that deduplication merged into it */
+  alternateUrls?: string[];
+  /** Media type the feed was served with, without parameters (verified feeds only) */
+  contentType?: string;
+  /** Confidence score and its rationale (absent until verified) */
+  confidence?: FeedConfidence;
+  /** Freshness, cadence and validity of the feed (verified feeds only) */
+  health?: FeedHealth;
+}
+
+/**
+ * How robots.txt applies to guessed candidate URLs (well-known paths and
+ * page links); URLs the site itself advertises are always requested
+ * - enforce: candidates disallowed for FeedFinder are not requested
+ * - report: they are requested anyway, and listed in the result
+ */
+export type RobotsTxtMode = "enforce" | "report";
+
+/**
+ * Candidate URLs that the target site's robots.txt disallows
+ */
+export interface RobotsTxtReport {
+  mode: RobotsTxtMode;
+  /** Skipped candidates when enforced, requested ones when only reported */
+  disallowedUrls: string[];
 }
 
 /**
@@ -32,6 +234,121 @@ export interface SearchResult {
   searchedUrl: string;
   /** Total number of feeds found */
   totalFound: number;
+  /** Platform detected from the page's generator tag, if any */
+  platform?: CmsPlatform;
+  /** Candidates disallowed by robots.txt (absent when none were) */
+  robotsTxt?: RobotsTxtReport;
+  /** Whether the result was served from the search cache */
+  cached?: boolean;
+  /** ISO 8601 time the feeds were discovered */
+  fetchedAt?: string;
   /** Optional message (e.g., for additional context or errors) */
   message?: string;
 }
+
+/**
+ * Error body returned when a search fails
+ */
+export interface SearchError {
+  success: false;
+  /** Generic, user-facing description of the failure */
+  error: string;
+  /** Identifier of the server-side log entry, for support requests */
+  errorId: string;
+}
+
+/**
+ * Outcome of one URL in a batch search
+ */
+export interface BatchSearchEntry {
+  /** The URL as submitted */
+  url: string;
+  /** HTTP status the single-URL endpoint would have responded with */
+  status: number;
+  result: SearchResult | SearchError;
+}
+
+/**
+ * Result of a batch search, with entries in the order URLs were submitted
+ */
+export interface BatchSearchResult {
+  success: true;
+  results: BatchSearchEntry[];
+  /** Number of URLs whose search succeeded */
+  succeeded: number;
+  /** Number of URLs whose search failed */
+  failed: number;
+}
+
+/**
+ * A feed subscription read from an OPML <outline>
+ */
+export interface OpmlSubscription {
+  /** The outline's title (or text) attribute */
+  title?: string;
+  /** The subscribed feed URL */
+  xmlUrl: string;
+  /** The site the feed belongs to */
+  htmlUrl?: string;
+}
+
+/**
+ * Health of an OPML subscription
+ * - alive: the feed URL still serves a feed
+ * - redirected: it serves a feed, but only after following redirects
+ * - moved: it no longer serves a feed, but its site advertises others
+ * - dead: it no longer serves a feed and no replacement was found
+ */
+export type SubscriptionStatus = "alive" | "redirected" | "moved" | "dead";
+
+/**
+ * Outcome of checking one OPML subscription
+ */
+export interface SubscriptionCheck extends OpmlSubscription {
+  status: SubscriptionStatus;
+  /** Where a redirected feed is served from now */
+  finalUrl?: string;
+  /** Why the feed URL no longer serves a feed (moved and dead only) */
+  reason?: string;
+  /** Feeds advertised by htmlUrl that could replace a moved subscription */
+  suggestions: FeedResult[];
+}
+
+/**
+ * Report on an uploaded OPML subscription list, in document order
+ */
+export interface OpmlCheckResult {
+  success: true;
+  total: number;
+  /** Number of subscriptions per status */
+  counts: Record<SubscriptionStatus, number>;
+  subscriptions: SubscriptionCheck[];
+}
+
+/**
+ * Stages reported while a streamed search runs
+ * - page: fetching the page for meta tags, Link headers and page links
+ * - common-path: probing well-known feed paths
+ * - verification: fetching each candidate to check that it is a feed
+ */
+export type DiscoveryStage = "page" | "common-path" | "verification";
+
+/**
+ * Progress reported by discovery while it runs
+ * - stage: a discovery stage has started
+ * - probe: a well-known path was probed, and whether it looked like a feed
+ * - feed: a candidate finished verification and will be part of the result
+ */
+export type DiscoveryProgressEvent =
+  | { type: "stage"; stage: DiscoveryStage }
+  | { type: "probe"; url: string; found: boolean }
+  | { type: "feed"; feed: FeedResult };
+
+/**
+ * Events of a streamed search (text/event-stream); the stream ends with
+ * exactly one "complete" or "error" event
+ */
+export type SearchStreamEvent =
+  | DiscoveryProgressEvent
+  | { type: "complete"; result: SearchResult }
+  | { type: "error"; error: SearchError };
@@ -173,4 +173,93 @@ describe("Bundle Optimization Tests", () => {
       });
     });
   });
+
+  describe("Streamed Search", () => {
+    const feed = {
+      url: "https://example.com/feed.xml",
+      title: "Streamed Feed",
+      type: "RSS",
+      discoveryMethod: "meta-tag",
+      verification: "verified",
+    };
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    function eventStreamResponse(events: unknown[]) {
+      const body = events
+        .map((event) => `data: ${JSON.stringify(event)}\n\n`)
+        .join("");
+      return new Response(body, {
+        headers: { "Content-Type": "text/event-stream" },
+      });
+    }
+
+    async function search(url: string) {
+      render(<App />);
+      fireEvent.change(await screen.findByLabelText(/Website URL/), {
+        target: { value: url },
+      });
+      fireEvent.submit(screen.getByLabelText(/Website URL/).closest("form")!);
+    }
+
+    it("should ask for a stream and render the completed result", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        eventStreamResponse([
+          { type: "stage", stage: "page" },
+          { type: "feed", feed },
+          {
+            type: "complete",
+            result: {
+              success: true,
+              feeds: [feed],
+              searchedUrl: "https://example.com/",
+              totalFound: 1,
+            },
+          },
+        ]),
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      await search("example.com");
+
+      expect(await screen.findByText("Found 1 feed(s)")).toBeInTheDocument();
+      expect(screen.getByText("Streamed Feed")).toBeInTheDocument();
+      expect(fetchMock).toHaveBeenCalledWith(
+        "/api/search-feeds",
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Accept: "text/event-stream, application/json",
+          }),
+        }),
+      );
+    });
+
+    it("should show the error sent at the end of the stream", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockResolvedValue(
+          eventStreamResponse([
+            { type: "stage", stage: "page" },
+            {
+              type: "error",
+              error: {
+                success: false,
+                error: "Request timed out",
+                errorId: "abc123def",
+              },
+            },
+          ]),
+        ),
+      );
+
+      await search("example.com");
+
+      // Shown both under the search form and in the result area
+      expect(await screen.findAllByText(/Request timed out/)).not.toHaveLength(
+        0,
+      );
+    });
+  });
 });
@@ -1,8 +1,19 @@
 import { Moon, Rss, Sun } from "lucide-react";
 import { lazy, Suspense, useEffect, useState } from "react";
+import { OpmlCheckPanel } from "@/components/OpmlCheckPanel";
 import { SearchForm } from "@/components/SearchForm";
 import { Button } from "@/components/ui/button";
-import { parseApiError, parseSearchResult } from "@/lib/schemas";
+import {
+  parseApiError,
+  parseSearchResult,
+  parseSearchStreamEvent,
+} from "@/lib/schemas";
+import {
+  applySearchStreamEvent,
+  INITIAL_SEARCH_PROGRESS,
+  readServerSentEvents,
+  type SearchProgress,
+} from "@/lib/searchStream";
 import { applyTheme, getInitialTheme, type Theme } from "@/lib/theme";
 import type { SearchResult } from "../shared/types";
 
@@ -17,26 +28,59 @@ function App() {
   const [searchResult, setSearchResult] = useState<SearchResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<SearchProgress | null>(null);
   const [theme, setTheme] = useState<Theme>(getInitialTheme);
 
   useEffect(() => {
     applyTheme(theme);
   }, [theme]);
 
+  // Render feeds as the worker verifies them, then the final result
+  const readSearchStream = async (body: ReadableStream<Uint8Array>) => {
+    setProgress(INITIAL_SEARCH_PROGRESS);
+    for await (const data of readServerSentEvents(body)) {
+      const event = parseSearchStreamEvent(JSON.parse(data));
+      if (event.type === "complete") {
+        setSearchResult(event.result);
+        return;
+      }
+      if (event.type === "error") {
+        setError(event.error.error);
+        return;
+      }
+      setProgress((current) =>
+        applySearchStreamEvent(current ?? INITIAL_SEARCH_PROGRESS, event),
+      );
+    }
+    throw new Error("The search stream ended before it completed");
+  };
+
   const handleSearch = async (url: string) => {
     setIsLoading(true);
     setError(null);
     setSearchResult(null);
+    setProgress(null);
 
     try {
       const response = await fetch("/api/search-feeds", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          Accept: "text/event-stream, application/json",
         },
         body: JSON.stringify({ url }),
       });
 
+      const contentType = response.headers.get("Content-Type") ?? "";
+      if (
+        response.ok &&
+        response.body &&
+        contentType.includes("text/event-stream")
+      ) {
+        await readSearchStream(response.body);
+        return;
+      }
+
       const data: unknown = await response.json();
 
       if (!response.ok) {
@@ -52,6 +96,7 @@ function App() {
       );
     } finally {
       setIsLoading(false);
+      setProgress(null);
     }
   };
 
@@ -124,8 +169,16 @@ function App() {
                 </div>
               }
             >
-              <ResultDisplay result={searchResult} error={error} />
+              <ResultDisplay
+                result={searchResult}
+                error={error}
+                progress={progress}
+              />
             </Suspense>
+
+            <section>
+              <OpmlCheckPanel />
+            </section>
           </div>
         </main>
       </div>
@@ -11,15 +11,16 @@ async function renderAppAfterLazyBoundary() {
 }
 
 function mockSuccessfulSearchFetch() {
-  const fetchMock = vi.fn().mockResolvedValue({
-    ok: true,
-    json: vi.fn().mockResolvedValue({
-      success: true,
-      feeds: [],
-      searchedUrl: "https://example.com",
-      totalFound: 0,
-    }),
-  });
+  const fetchMock = vi.fn().mockImplementation(() =>
+    Promise.resolve(
+      Response.json({
+        success: true,
+        feeds: [],
+        searchedUrl: "https://example.com",
+        totalFound: 0,
+      }),
+    ),
+  );
 
   vi.stubGlobal("fetch", fetchMock);
 
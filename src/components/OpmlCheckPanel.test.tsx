@@ -0,0 +1,117 @@
+import {
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { OpmlCheckResult } from "../../shared/types";
+import { OpmlCheckPanel } from "./OpmlCheckPanel";
+
+const report: OpmlCheckResult = {
+  success: true,
+  total: 3,
+  counts: { alive: 1, redirected: 1, moved: 1, dead: 0 },
+  subscriptions: [
+    {
+      title: "Alive Blog",
+      xmlUrl: "https://alive.example/feed",
+      status: "alive",
+      suggestions: [],
+    },
+    {
+      xmlUrl: "https://old.example/rss",
+      status: "redirected",
+      finalUrl: "https://new.example/rss",
+      suggestions: [],
+    },
+    {
+      title: "Moved Blog",
+      xmlUrl: "https://moved.example/feed",
+      htmlUrl: "https://moved.example/",
+      status: "moved",
+      reason: "HTTP 404",
+      suggestions: [
+        {
+          url: "https://moved.example/rss/",
+          title: "Moved Blog RSS",
+          type: "RSS",
+          discoveryMethod: "meta-tag",
+        },
+      ],
+    },
+  ],
+};
+
+function uploadAndSubmit(contents = "<opml></opml>") {
+  const file = new File([contents], "subscriptions.opml", {
+    type: "text/x-opml",
+  });
+  fireEvent.change(screen.getByLabelText(/Upload an OPML file/), {
+    target: { files: [file] },
+  });
+  fireEvent.click(screen.getByRole("button", { name: "Check subscriptions" }));
+}
+
+describe("OpmlCheckPanel", () => {
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  it("should only enable the check once a file is chosen", () => {
+    render(<OpmlCheckPanel />);
+
+    expect(
+      screen.getByRole("button", { name: "Check subscriptions" }),
+    ).toBeDisabled();
+  });
+
+  it("should upload the file and render the report", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(Response.json(report));
+    vi.stubGlobal("fetch", fetchMock);
+    render(<OpmlCheckPanel />);
+
+    uploadAndSubmit("<opml>subscriptions</opml>");
+
+    expect(
+      await screen.findByText("Checked 3 subscription(s):"),
+    ).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith(
+      "/api/check-opml",
+      expect.objectContaining({
+        method: "POST",
+        body: "<opml>subscriptions</opml>",
+      }),
+    );
+    expect(
+      screen.getByText(/1 alive, 1 redirected, 1 moved, 0 dead/),
+    ).toBeInTheDocument();
+    expect(screen.getByLabelText("Status: Redirected")).toBeInTheDocument();
+    expect(screen.getByText("https://new.example/rss")).toBeInTheDocument();
+    expect(screen.getByText("(HTTP 404)")).toBeInTheDocument();
+    expect(screen.getByText("https://moved.example/rss/")).toBeInTheDocument();
+  });
+
+  it("should show the error returned by the API", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValue(
+          Response.json(
+            { success: false, error: "Invalid OPML file.", errorId: "abc" },
+            { status: 400 },
+          ),
+        ),
+    );
+    render(<OpmlCheckPanel />);
+
+    uploadAndSubmit();
+
+    await waitFor(() => {
+      expect(screen.getByRole("alert")).toHaveTextContent("Invalid OPML file.");
+    });
+  });
+});
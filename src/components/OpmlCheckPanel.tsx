@@ -0,0 +1,204 @@
+"use client";
+
+import { FileUp } from "lucide-react";
+import { type ChangeEvent, type FormEvent, useId, useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { parseApiError, parseOpmlCheckResult } from "@/lib/schemas";
+import type {
+  OpmlCheckResult,
+  SubscriptionCheck,
+  SubscriptionStatus,
+} from "../../shared/types";
+
+const STATUS_BADGES: Record<
+  SubscriptionStatus,
+  { label: string; className: string }
+> = {
+  alive: {
+    label: "Alive",
+    className:
+      "bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200",
+  },
+  redirected: {
+    label: "Redirected",
+    className: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  },
+  moved: {
+    label: "Moved",
+    className:
+      "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200",
+  },
+  dead: {
+    label: "Dead",
+    className: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  },
+};
+
+const STATUS_ORDER: SubscriptionStatus[] = [
+  "alive",
+  "redirected",
+  "moved",
+  "dead",
+];
+
+/**
+ * Upload an OPML subscription list and report which feeds still work
+ */
+export function OpmlCheckPanel() {
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<OpmlCheckResult | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputId = useId();
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] ?? null);
+  };
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setIsChecking(true);
+    setError(null);
+    setReport(null);
+
+    try {
+      const response = await fetch("/api/check-opml", {
+        method: "POST",
+        headers: { "Content-Type": "text/x-opml" },
+        body: await file.text(),
+      });
+
+      const data: unknown = await response.json();
+
+      if (!response.ok) {
+        setError(parseApiError(data));
+        return;
+      }
+
+      setReport(parseOpmlCheckResult(data));
+    } catch {
+      setError(
+        "An error occurred while checking the subscriptions. Please try again later.",
+      );
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <Card className="app-surface mx-auto w-full max-w-3xl border shadow-xl backdrop-blur">
+      <CardContent className="space-y-5 p-5 sm:p-7">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <fieldset className="space-y-2.5">
+            <legend className="text-sm font-semibold">
+              Check an OPML subscription list
+            </legend>
+            <label htmlFor={inputId} className="app-muted block text-sm">
+              Upload an OPML file to find dead, moved and redirected feeds
+            </label>
+            <input
+              id={inputId}
+              type="file"
+              accept=".opml,.xml,text/x-opml,text/xml,application/xml"
+              onChange={handleFileChange}
+              disabled={isChecking}
+              className="app-muted block w-full rounded text-sm focus:outline-none focus:ring-2 focus:ring-offset-2"
+            />
+          </fieldset>
+
+          <Button
+            type="submit"
+            variant="outline"
+            disabled={isChecking || !file}
+            className="app-control w-full border focus:outline-none focus:ring-2 focus:ring-offset-2"
+          >
+            <FileUp className="h-4 w-4 mr-2" aria-hidden="true" />
+            {isChecking ? "Checking subscriptions..." : "Check subscriptions"}
+          </Button>
+        </form>
+
+        {error && (
+          <Alert
+            variant="destructive"
+            className="border-red-200 bg-red-50 text-red-900 dark:border-red-500/30 dark:bg-red-950/40 dark:text-red-100"
+            role="alert"
+          >
+            <AlertDescription className="text-red-800 dark:text-red-100">
+              {error}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {report && <OpmlCheckReport report={report} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+function OpmlCheckReport({ report }: { report: OpmlCheckResult }) {
+  return (
+    <section className="space-y-3" aria-label="Subscription check report">
+      <p className="text-sm" role="status" aria-live="polite">
+        <strong>Checked {report.total} subscription(s):</strong>{" "}
+        {STATUS_ORDER.map(
+          (status) => `${report.counts[status]} ${status}`,
+        ).join(", ")}
+      </p>
+      <ul className="space-y-2" role="list">
+        {report.subscriptions.map((check) => (
+          <li key={check.xmlUrl} role="listitem">
+            <SubscriptionCheckRow check={check} />
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+function SubscriptionCheckRow({ check }: { check: SubscriptionCheck }) {
+  const badge = STATUS_BADGES[check.status];
+
+  return (
+    <article className="app-code-block rounded border p-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span
+          className={`rounded px-2 py-1 text-xs font-semibold ${badge.className}`}
+          aria-label={`Status: ${badge.label}`}
+        >
+          {badge.label}
+        </span>
+        <span className="app-text font-semibold">
+          {check.title || check.xmlUrl}
+        </span>
+        {check.reason && (
+          <span className="app-muted text-xs">({check.reason})</span>
+        )}
+      </div>
+      <code className="app-muted mt-1 block break-all text-xs">
+        {check.xmlUrl}
+      </code>
+      {check.finalUrl && (
+        <p className="mt-1 break-all text-xs">
+          Now served from <code>{check.finalUrl}</code>
+        </p>
+      )}
+      {check.suggestions.length > 0 && (
+        <div className="mt-1 text-xs">
+          Suggested replacement(s):
+          <ul className="list-disc pl-5">
+            {check.suggestions.map((feed) => (
+              <li key={feed.url}>
+                <code className="break-all">{feed.url}</code>
+                {feed.title && ` (${feed.title})`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </article>
+  );
+}
@@ -15,6 +15,66 @@ describe("ResultDisplay", () => {
     });
   });
 
+  describe("streaming progress", () => {
+    const feed: FeedResult = {
+      url: "https://example.com/feed.xml",
+      title: "Streamed Feed",
+      type: "RSS",
+      discoveryMethod: "meta-tag",
+      verification: "verified",
+    };
+
+    it("should show the current stage and counts while searching", () => {
+      render(
+        <ResultDisplay
+          result={null}
+          progress={{ stage: "common-path", probed: 3, feeds: [] }}
+        />,
+      );
+
+      const section = screen.getByLabelText("Search progress");
+      expect(section).toHaveAttribute("aria-busy", "true");
+      expect(
+        screen.getByText("Checking common feed paths"),
+      ).toBeInTheDocument();
+      expect(
+        screen.getByText(/3 candidate URL\(s\) checked, 0 feed\(s\) found/),
+      ).toBeInTheDocument();
+      expect(screen.queryByRole("list")).not.toBeInTheDocument();
+    });
+
+    it("should render feeds as they arrive", () => {
+      render(
+        <ResultDisplay
+          result={null}
+          progress={{ stage: "verification", probed: 0, feeds: [feed] }}
+        />,
+      );
+
+      expect(screen.getByText("Streamed Feed")).toBeInTheDocument();
+      expect(screen.getByText("Verified")).toBeInTheDocument();
+    });
+
+    it("should prefer the final result over progress", () => {
+      render(
+        <ResultDisplay
+          result={{
+            success: true,
+            feeds: [feed],
+            searchedUrl: "https://example.com",
+            totalFound: 1,
+          }}
+          progress={{ stage: "verification", probed: 0, feeds: [] }}
+        />,
+      );
+
+      expect(screen.getByTestId("result-display")).toBeInTheDocument();
+      expect(
+        screen.queryByLabelText("Search progress"),
+      ).not.toBeInTheDocument();
+    });
+  });
+
   describe("error state rendering", () => {
     it("should display error alert when error prop is provided", () => {
       render(<ResultDisplay result={null} error="Network error occurred" />);
@@ -182,6 +242,443 @@ describe("ResultDisplay", () => {
       ).toBeInTheDocument();
     });
 
+    it("should display a JSON Feed badge for JSON feeds", () => {
+      const jsonResult: SearchResult = {
+        ...successResult,
+        feeds: [
+          {
+            url: "https://example.com/feed.json",
+            title: "Example JSON Feed",
+            type: "JSON",
+            discoveryMethod: "meta-tag",
+          },
+        ],
+        totalFound: 1,
+      };
+      render(<ResultDisplay result={jsonResult} />);
+
+      const jsonBadge = screen.getByText("JSON Feed");
+      expect(jsonBadge.className).toContain("bg-violet-100");
+      expect(jsonBadge).toHaveAttribute("aria-label", "Feed type: JSON Feed");
+    });
+
+    it("should display verification badges when feeds were verified", () => {
+      const verifiedResult: SearchResult = {
+        ...successResult,
+        feeds: [
+          { ...mockFeeds[0], verification: "verified" },
+          { ...mockFeeds[1], verification: "invalid" },
+        ],
+      };
+      render(<ResultDisplay result={verifiedResult} />);
+
+      expect(screen.getByText("Verified").className).toContain(
+        "bg-emerald-100",
+      );
+      expect(screen.getByText("Not a valid feed").className).toContain(
+        "bg-red-100",
+      );
+      expect(screen.queryByText("Unverified")).not.toBeInTheDocument();
+    });
+
+    it("should display feed metadata when available", () => {
+      const metadataResult: SearchResult = {
+        ...successResult,
+        feeds: [
+          {
+            ...mockFeeds[0],
+            metadata: {
+              title: "Example RSS Feed",
+              siteUrl: "https://example.com/",
+              language: "en-us",
+              itemCount: 12,
+              lastUpdated: "2024-05-07T10:00:00.000Z",
+              sampleItemTitles: ["Hello world", "Second post"],
+            },
+          },
+        ],
+        totalFound: 1,
+      };
+      render(<ResultDisplay result={metadataResult} />);
+
+      const metadata = screen.getByTestId("feed-metadata");
+      expect(metadata).toHaveTextContent("Items:12");
+      expect(metadata).toHaveTextContent("Last updated:May 7, 2024");
+      expect(metadata).toHaveTextContent("Language:en-us");
+      expect(
+        screen.getByRole("link", { name: "https://example.com/" }),
+      ).toHaveAttribute("rel", "noopener noreferrer");
+      expect(screen.getByText("Hello world")).toBeInTheDocument();
+      expect(screen.getByText("Second post")).toBeInTheDocument();
+    });
+
+    it("should display podcast details for podcast feeds", () => {
+      render(
+        <ResultDisplay
+          result={{
+            ...successResult,
+            feeds: [
+              {
+                ...mockFeeds[0],
+                kind: "podcast",
+                metadata: {
+                  itemCount: 3,
+                  sampleItemTitles: [],
+                  podcast: {
+                    artworkUrl: "https://example.com/art.jpg",
+                    author: "Jane Host",
+                    episodeCount: 3,
+                    explicit: false,
+                  },
+                },
+              },
+            ],
+            totalFound: 1,
+          }}
+        />,
+      );
+
+      const podcast = screen.getByTestId("podcast-info");
+      expect(podcast).toHaveTextContent("Author:Jane Host");
+      expect(podcast).toHaveTextContent("Episodes:3");
+      expect(podcast).toHaveTextContent("Explicit:No");
+      expect(screen.getByAltText("Podcast artwork")).toHaveAttribute(
+        "src",
+        "https://example.com/art.jpg",
+      );
+    });
+
+    it("should mark feeds that support WebSub", () => {
+      render(
+        <ResultDisplay
+          result={{
+            ...successResult,
+            feeds: [
+              { ...mockFeeds[0], hubUrl: "https://hub.example.net/" },
+              mockFeeds[1],
+            ],
+          }}
+        />,
+      );
+
+      expect(
+        screen.getAllByLabelText(
+          "Supports WebSub push via https://hub.example.net/",
+        ),
+      ).toHaveLength(1);
+    });
+
+    it("should show confidence scores and highlight the recommended feed", () => {
+      render(
+        <ResultDisplay
+          result={{
+            ...successResult,
+            feeds: [
+              {
+                ...mockFeeds[0],
+                verification: "verified",
+                confidence: {
+                  score: 90,
+                  reasons: [
+                    {
+                      factor: "verification",
+                      points: 30,
+                      detail: "Fetched and parsed as a feed",
+                    },
+                  ],
+                },
+              },
+              {
+                ...mockFeeds[1],
+                verification: "verified",
+                confidence: { score: 40, reasons: [] },
+              },
+            ],
+          }}
+        />,
+      );
+
+      expect(
+        screen.getByLabelText("Confidence score: 90 out of 100"),
+      ).toHaveAttribute("title", "+30 Fetched and parsed as a feed");
+      expect(
+        screen.getByLabelText("Confidence score: 40 out of 100"),
+      ).toBeInTheDocument();
+      expect(screen.getAllByText("Recommended")).toHaveLength(1);
+      expect(
+        screen.getByRole("article", { name: "Example RSS Feed" }),
+      ).toHaveAttribute("data-recommended", "true");
+    });
+
+    it("should recommend the most confident feed that was verified", () => {
+      render(
+        <ResultDisplay
+          result={{
+            ...successResult,
+            feeds: [
+              {
+                ...mockFeeds[0],
+                verification: "unverified",
+                confidence: { score: 60, reasons: [] },
+              },
+              {
+                ...mockFeeds[1],
+                verification: "verified",
+                confidence: { score: 50, reasons: [] },
+              },
+            ],
+          }}
+        />,
+      );
+
+      expect(screen.getAllByText("Recommended")).toHaveLength(1);
+      expect(
+        screen.getByRole("article", { name: "Example Atom Feed" }),
+      ).toHaveAttribute("data-recommended", "true");
+    });
+
+    it("should not recommend feeds that were not verified", () => {
+      render(
+        <ResultDisplay
+          result={{
+            ...successResult,
+            feeds: [
+              {
+                ...mockFeeds[0],
+                verification: "unverified",
+                confidence: { score: 60, reasons: [] },
+              },
+            ],
+          }}
+        />,
+      );
+
+      expect(screen.queryByText("Recommended")).not.toBeInTheDocument();
+    });
+
+    it("should not recommend a feed when the feeds are not scored", () => {
+      render(<ResultDisplay result={successResult} />);
+
+      expect(screen.queryByText("Recommended")).not.toBeInTheDocument();
+    });
+
+    it("should expand a feed's health report", () => {
+      render(
+        <ResultDisplay
+          result={{
+            ...successResult,
+            feeds: [
+              {
+                ...mockFeeds[0],
+                health: {
+                  lastItemDate: "2026-06-10T12:00:00.000Z",
+                  medianIntervalHours: 72,
+                  httpCaching: { etag: true, lastModified: false },
+                  wellFormednessIssues: [],
+                  missingElements: ["channel/link"],
+                  duplicateGuids: ["urn:1"],
+                  truncated: false,
+                },
+              },
+            ],
+            totalFound: 1,
+          }}
+        />,
+      );
+
+      const toggle = screen.getByRole("button", {
+        name: "Feed health (2 problem(s))",
+      });
+      expect(toggle).toHaveAttribute("aria-expanded", "false");
+      expect(screen.queryByTestId("feed-health")).not.toBeInTheDocument();
+
+      fireEvent.click(toggle);
+
+      expect(toggle).toHaveAttribute("aria-expanded", "true");
+      const panel = screen.getByTestId("feed-health");
+      expect(panel).toHaveTextContent("Jun 10, 2026");
+      expect(panel).toHaveTextContent("Posts every:3 day(s)");
+      expect(panel).toHaveTextContent("ETag:Yes");
+      expect(panel).toHaveTextContent("Last-Modified:No");
+      expect(panel).toHaveTextContent("channel/link");
+      expect(panel).toHaveTextContent("urn:1");
+    });
+
+    it("should list the alternate URLs merged into a feed", () => {
+      render(
+        <ResultDisplay
+          result={{
+            ...successResult,
+            feeds: [
+              {
+                ...mockFeeds[0],
+                alternateUrls: ["http://www.example.com/feed"],
+              },
+              mockFeeds[1],
+            ],
+          }}
+        />,
+      );
+
+      expect(screen.getAllByTestId("alternate-urls")).toHaveLength(1);
+      expect(
+        screen.getByText("http://www.example.com/feed"),
+      ).toBeInTheDocument();
+    });
+
+    it("should not render metadata for feeds without it", () => {
+      render(<ResultDisplay result={successResult} />);
+
+      expect(screen.queryByTestId("feed-metadata")).not.toBeInTheDocument();
+    });
+
+    it("should describe feeds discovered via Link headers", () => {
+      render(
+        <ResultDisplay
+          result={{
+            ...successResult,
+            feeds: [{ ...mockFeeds[0], discoveryMethod: "link-header" }],
+            totalFound: 1,
+          }}
+        />,
+      );
+
+      expect(
+        screen.getByText("Discovered via HTTP Link header"),
+      ).toBeInTheDocument();
+    });
+
+    it("should show the detected platform", () => {
+      render(
+        <ResultDisplay result={{ ...successResult, platform: "WordPress" }} />,
+      );
+
+      expect(
+        screen.getByText(/Detected platform: WordPress/),
+      ).toBeInTheDocument();
+    });
+
+    it("should say how many candidates robots.txt made the search skip", () => {
+      render(
+        <ResultDisplay
+          result={{
+            ...successResult,
+            robotsTxt: {
+              mode: "enforce",
+              disallowedUrls: [
+                "https://example.com/feed",
+                "https://example.com/rss",
+              ],
+            },
+          }}
+        />,
+      );
+
+      expect(
+        screen.getByText(
+          /Skipped 2 candidate URL\(s\) disallowed by the site's robots.txt/,
+        ),
+      ).toBeInTheDocument();
+    });
+
+    it("should say when disallowed candidates were only reported", () => {
+      render(
+        <ResultDisplay
+          result={{
+            ...successResult,
+            robotsTxt: {
+              mode: "report",
+              disallowedUrls: ["https://example.com/feed"],
+            },
+          }}
+        />,
+      );
+
+      expect(
+        screen.getByText(
+          /Checked 1 candidate URL\(s\) that the site's robots.txt disallows/,
+        ),
+      ).toBeInTheDocument();
+    });
+
+    it("should say when a result came from the cache", () => {
+      render(
+        <ResultDisplay
+          result={{
+            ...successResult,
+            cached: true,
+            fetchedAt: "2024-03-05T14:30:00.000Z",
+          }}
+        />,
+      );
+
+      expect(
+        screen.getByText(/Cached result from Mar 5, 2024, 2:30\sPM UTC/),
+      ).toBeInTheDocument();
+    });
+
+    it("should not mention the cache for fresh results", () => {
+      render(
+        <ResultDisplay
+          result={{ ...successResult, fetchedAt: "2024-03-05T14:30:00.000Z" }}
+        />,
+      );
+
+      expect(screen.queryByText(/Cached result/)).not.toBeInTheDocument();
+    });
+
+    it("should name the site rule that discovered a feed", () => {
+      render(
+        <ResultDisplay
+          result={{
+            ...successResult,
+            feeds: [
+              {
+                ...mockFeeds[0],
+                discoveryMethod: "site-rule",
+                siteRule: "YouTube",
+              },
+            ],
+            totalFound: 1,
+          }}
+        />,
+      );
+
+      expect(
+        screen.getByText("Discovered via YouTube rule"),
+      ).toBeInTheDocument();
+    });
+
+    it("should describe feeds discovered via links on the page", () => {
+      render(
+        <ResultDisplay
+          result={{
+            ...successResult,
+            feeds: [{ ...mockFeeds[0], discoveryMethod: "anchor-link" }],
+            totalFound: 1,
+          }}
+        />,
+      );
+
+      expect(
+        screen.getByText("Discovered via link on page"),
+      ).toBeInTheDocument();
+    });
+
+    it("should describe feeds discovered via the sitemap", () => {
+      render(
+        <ResultDisplay
+          result={{
+            ...successResult,
+            feeds: [{ ...mockFeeds[0], discoveryMethod: "sitemap" }],
+            totalFound: 1,
+          }}
+        />,
+      );
+
+      expect(screen.getByText("Discovered via sitemap")).toBeInTheDocument();
+    });
+
     it("should display feed description when provided", () => {
       render(<ResultDisplay result={successResult} />);
 
@@ -221,6 +718,81 @@ describe("ResultDisplay", () => {
     });
   });
 
+  describe("feed kinds", () => {
+    const kindResult: SearchResult = {
+      success: true,
+      feeds: [
+        {
+          url: "https://example.com/feed/",
+          title: "Example",
+          type: "RSS",
+          discoveryMethod: "meta-tag",
+          kind: "main",
+        },
+        {
+          url: "https://example.com/comments/feed/",
+          title: "Example » Comments Feed",
+          type: "RSS",
+          discoveryMethod: "meta-tag",
+          kind: "comments",
+        },
+        {
+          url: "https://example.com/hello-world/feed/",
+          title: "Example » Hello World Comments Feed",
+          type: "RSS",
+          discoveryMethod: "meta-tag",
+          kind: "comments",
+        },
+      ],
+      searchedUrl: "https://example.com/hello-world/",
+      totalFound: 3,
+    };
+
+    it("should label each feed with its kind", () => {
+      render(<ResultDisplay result={kindResult} />);
+
+      expect(screen.getByLabelText("Feed kind: Main feed")).toBeInTheDocument();
+      expect(screen.getAllByLabelText("Feed kind: Comments")).toHaveLength(2);
+    });
+
+    it("should filter the feeds by kind", () => {
+      render(<ResultDisplay result={kindResult} />);
+
+      const filters = screen.getByRole("group", {
+        name: "Filter feeds by kind",
+      });
+      expect(filters).toHaveTextContent("All (3)Main feed (1)Comments (2)");
+
+      fireEvent.click(screen.getByRole("button", { name: "Comments (2)" }));
+
+      expect(
+        screen.getByRole("button", { name: "Comments (2)" }),
+      ).toHaveAttribute("aria-pressed", "true");
+      expect(screen.getAllByRole("listitem")).toHaveLength(2);
+      expect(screen.queryByText("Example")).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole("button", { name: "All (3)" }));
+
+      expect(screen.getAllByRole("listitem")).toHaveLength(3);
+    });
+
+    it("should not offer filters when every feed is of one kind", () => {
+      render(
+        <ResultDisplay
+          result={{
+            ...kindResult,
+            feeds: kindResult.feeds.slice(0, 1),
+            totalFound: 1,
+          }}
+        />,
+      );
+
+      expect(
+        screen.queryByRole("group", { name: "Filter feeds by kind" }),
+      ).not.toBeInTheDocument();
+    });
+  });
+
   describe("accessibility", () => {
     const successResult: SearchResult = {
       success: true,
@@ -416,6 +988,71 @@ describe("ResultDisplay", () => {
     });
   });
 
+  describe("OPML export", () => {
+    const successResult: SearchResult = {
+      success: true,
+      feeds: [
+        {
+          url: "https://example.com/feed.xml",
+          title: "Example Feed",
+          type: "RSS",
+          discoveryMethod: "meta-tag",
+        },
+      ],
+      searchedUrl: "https://example.com",
+      totalFound: 1,
+    };
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it("should download the feeds as an OPML file", async () => {
+      vi.useFakeTimers();
+      const createObjectURL = vi.fn().mockReturnValue("blob:opml");
+      const revokeObjectURL = vi.fn();
+      Object.assign(URL, { createObjectURL, revokeObjectURL });
+      const clickSpy = vi
+        .spyOn(HTMLAnchorElement.prototype, "click")
+        .mockImplementation(() => undefined);
+
+      render(<ResultDisplay result={successResult} />);
+      fireEvent.click(
+        screen.getByRole("button", { name: "Export 1 feed(s) as OPML" }),
+      );
+
+      expect(clickSpy).toHaveBeenCalledTimes(1);
+      const link = clickSpy.mock.contexts[0] as HTMLAnchorElement;
+      expect(link.download).toBe("example.com-feeds.opml");
+      expect(link.href).toBe("blob:opml");
+
+      // The URL outlives the click so the download can start
+      expect(revokeObjectURL).not.toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(revokeObjectURL).toHaveBeenCalledWith("blob:opml");
+      vi.useRealTimers();
+
+      const blob = createObjectURL.mock.calls[0][0] as Blob;
+      expect(blob.type).toBe("text/x-opml");
+      expect(await blob.text()).toContain(
+        'xmlUrl="https://example.com/feed.xml"',
+      );
+    });
+
+    it("should not offer an export when no feeds were found", () => {
+      render(
+        <ResultDisplay
+          result={{ ...successResult, feeds: [], totalFound: 0 }}
+        />,
+      );
+
+      expect(
+        screen.queryByRole("button", { name: /Export/ }),
+      ).not.toBeInTheDocument();
+    });
+  });
+
   describe("open feed functionality", () => {
     const mockOpen = vi.fn();
 
@@ -1,18 +1,114 @@
 "use client";
 
-import { CheckCircle, Copy, ExternalLink, Info, XCircle } from "lucide-react";
+import {
+  CheckCircle,
+  ChevronDown,
+  Copy,
+  Download,
+  ExternalLink,
+  Info,
+  Loader2,
+  XCircle,
+} from "lucide-react";
 import { useId, useState } from "react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
-import type { FeedResult, SearchResult } from "../../shared/types";
+import type { SearchProgress } from "@/lib/searchStream";
+import {
+  getOpmlFilename,
+  OPML_MEDIA_TYPE,
+  serializeOpml,
+} from "../../shared/opml";
+import type {
+  DiscoveryMethod,
+  DiscoveryStage,
+  FeedConfidence,
+  FeedHealth,
+  FeedKind,
+  FeedMetadata,
+  FeedResult,
+  FeedType,
+  FeedVerificationStatus,
+  PodcastInfo,
+  SearchResult,
+} from "../../shared/types";
+
+const FEED_TYPE_BADGES: Record<FeedType, { label: string; className: string }> =
+  {
+    RSS: {
+      label: "RSS",
+      className:
+        "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
+    },
+    Atom: {
+      label: "Atom",
+      className:
+        "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+    },
+    JSON: {
+      label: "JSON Feed",
+      className:
+        "bg-violet-100 text-violet-800 dark:bg-violet-900 dark:text-violet-200",
+    },
+  };
+
+const DISCOVERY_METHOD_TEXT: Record<DiscoveryMethod, string> = {
+  "meta-tag": "Discovered via HTML meta tag",
+  "common-path": "Discovered via common path",
+  "link-header": "Discovered via HTTP Link header",
+  "anchor-link": "Discovered via link on page",
+  "site-rule": "Discovered via site rule",
+  sitemap: "Discovered via sitemap",
+};
+
+/**
+ * Feed kinds in the order their filters are offered
+ */
+const FEED_KIND_LABELS: Record<FeedKind, string> = {
+  main: "Main feed",
+  podcast: "Podcast",
+  category: "Category",
+  tag: "Tag",
+  author: "Author",
+  comments: "Comments",
+};
+
+const DISCOVERY_STAGE_TEXT: Record<DiscoveryStage, string> = {
+  page: "Reading the page",
+  "common-path": "Checking common feed paths",
+  verification: "Verifying feeds",
+};
+
+const VERIFICATION_BADGES: Record<
+  FeedVerificationStatus,
+  { label: string; className: string }
+> = {
+  verified: {
+    label: "Verified",
+    className:
+      "bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200",
+  },
+  unverified: {
+    label: "Unverified",
+    className:
+      "bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-200",
+  },
+  invalid: {
+    label: "Not a valid feed",
+    className: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  },
+};
 
 interface ResultDisplayProps {
   result: SearchResult | null;
   error?: string | null;
+  /** Progress of a streamed search that has not completed yet */
+  progress?: SearchProgress | null;
 }
 
-export function ResultDisplay({ result, error }: ResultDisplayProps) {
+export function ResultDisplay({ result, error, progress }: ResultDisplayProps) {
   const [copiedUrl, setCopiedUrl] = useState<string | null>(null);
+  const [kindFilter, setKindFilter] = useState<FeedKind | null>(null);
   const resultId = useId();
 
   const handleCopyUrl = async (url: string) => {
@@ -29,6 +125,20 @@ export function ResultDisplay({ result, error }: ResultDisplayProps) {
     window.open(url, "_blank", "noopener,noreferrer");
   };
 
+  const handleExportOpml = (searchResult: SearchResult) => {
+    const blob = new Blob([serializeOpml(searchResult)], {
+      type: OPML_MEDIA_TYPE,
+    });
+    const objectUrl = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = objectUrl;
+    link.download = getOpmlFilename(searchResult);
+    link.click();
+    // The download starts after the click returns; revoking the URL right
+    // away can cancel it in some browsers
+    setTimeout(() => URL.revokeObjectURL(objectUrl), 1000);
+  };
+
   if (error) {
     return (
       <Alert
@@ -45,6 +155,52 @@ export function ResultDisplay({ result, error }: ResultDisplayProps) {
     );
   }
 
+  const renderFeedList = (feeds: FeedResult[], recommendedUrl?: string) => (
+    <ul className="space-y-3" role="list">
+      {feeds.map((feed, index) => (
+        <li key={`${feed.url}-${index}`} role="listitem">
+          <FeedCard
+            feed={feed}
+            titleId={`${resultId}-feed-${index}-title`}
+            onCopyUrl={handleCopyUrl}
+            onOpenFeed={handleOpenFeed}
+            copiedUrl={copiedUrl}
+            isRecommended={feed.url === recommendedUrl}
+          />
+        </li>
+      ))}
+    </ul>
+  );
+
+  if (!result && progress) {
+    return (
+      <section
+        className="mx-auto w-full max-w-3xl space-y-4"
+        data-testid="search-progress"
+        aria-label="Search progress"
+        aria-busy="true"
+      >
+        <Alert
+          className="app-surface app-muted border shadow-lg"
+          role="status"
+          aria-live="polite"
+        >
+          <Loader2
+            className="app-accent-text h-4 w-4 animate-spin"
+            aria-hidden="true"
+          />
+          <AlertDescription className="app-muted">
+            <strong>{DISCOVERY_STAGE_TEXT[progress.stage]}</strong>
+            <br />
+            {progress.probed} candidate URL(s) checked, {progress.feeds.length}{" "}
+            feed(s) found so far
+          </AlertDescription>
+        </Alert>
+        {progress.feeds.length > 0 && renderFeedList(progress.feeds)}
+      </section>
+    );
+  }
+
   if (!result) {
     return null;
   }
@@ -72,6 +228,22 @@ export function ResultDisplay({ result, error }: ResultDisplayProps) {
     );
   }
 
+  // Only offer filters when the feeds cover more than one kind
+  const kindCounts = countFeedKinds(result.feeds);
+  const presentKinds = (Object.keys(FEED_KIND_LABELS) as FeedKind[]).filter(
+    (kind) => kindCounts[kind] > 0,
+  );
+  const activeKind =
+    kindFilter && presentKinds.includes(kindFilter) ? kindFilter : null;
+  const visibleFeeds = activeKind
+    ? result.feeds.filter((feed) => feed.kind === activeKind)
+    : result.feeds;
+  // Feeds arrive sorted by confidence, so the first scored one that was
+  // fetched and parsed as a feed is the best one to subscribe to
+  const recommendedUrl = result.feeds.find(
+    (feed) => feed.confidence && feed.verification === "verified",
+  )?.url;
+
   return (
     <section
       className="mx-auto w-full max-w-3xl space-y-4"
@@ -92,24 +264,323 @@ export function ResultDisplay({ result, error }: ResultDisplayProps) {
             <strong>Found {result.totalFound} feed(s)</strong>
             <br />
             Searched: {result.searchedUrl}
+            {result.platform && (
+              <>
+                <br />
+                Detected platform: {result.platform} (its standard feed paths
+                were checked)
+              </>
+            )}
+            {result.robotsTxt && (
+              <>
+                <br />
+                {result.robotsTxt.mode === "enforce"
+                  ? `Skipped ${result.robotsTxt.disallowedUrls.length} candidate URL(s) disallowed by the site's robots.txt`
+                  : `Checked ${result.robotsTxt.disallowedUrls.length} candidate URL(s) that the site's robots.txt disallows`}
+              </>
+            )}
+            {result.cached && result.fetchedAt && (
+              <>
+                <br />
+                Cached result from{" "}
+                {cachedAtFormat.format(new Date(result.fetchedAt))} UTC
+              </>
+            )}
           </AlertDescription>
         </Alert>
+        <div className="mt-3 flex justify-end">
+          <Button
+            type="button"
+            onClick={() => handleExportOpml(result)}
+            variant="outline"
+            size="sm"
+            className="app-control border focus:outline-none focus:ring-2 focus:ring-offset-2"
+            aria-label={`Export ${result.totalFound} feed(s) as OPML`}
+          >
+            <Download className="h-4 w-4 mr-2" aria-hidden="true" />
+            Export OPML
+          </Button>
+        </div>
       </header>
 
-      <ul className="space-y-3" role="list">
-        {result.feeds.map((feed, index) => (
-          <li key={`${feed.url}-${index}`} role="listitem">
-            <FeedCard
-              feed={feed}
-              titleId={`${resultId}-feed-${index}-title`}
-              onCopyUrl={handleCopyUrl}
-              onOpenFeed={handleOpenFeed}
-              copiedUrl={copiedUrl}
-            />
+      {presentKinds.length > 1 && (
+        <div
+          className="flex flex-wrap gap-2"
+          role="group"
+          aria-label="Filter feeds by kind"
+        >
+          <Button
+            type="button"
+            onClick={() => setKindFilter(null)}
+            variant="outline"
+            size="sm"
+            className={kindFilterClassName(activeKind === null)}
+            aria-pressed={activeKind === null}
+          >
+            All ({result.feeds.length})
+          </Button>
+          {presentKinds.map((kind) => (
+            <Button
+              key={kind}
+              type="button"
+              onClick={() => setKindFilter(kind)}
+              variant="outline"
+              size="sm"
+              className={kindFilterClassName(activeKind === kind)}
+              aria-pressed={activeKind === kind}
+            >
+              {FEED_KIND_LABELS[kind]} ({kindCounts[kind]})
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {renderFeedList(visibleFeeds, recommendedUrl)}
+    </section>
+  );
+}
+
+/**
+ * One line per factor of a confidence score, e.g.
+ * "+30 Fetched and parsed as a feed"
+ */
+function describeConfidence(confidence: FeedConfidence): string {
+  return confidence.reasons
+    .map(({ points, detail }) => `+${points} ${detail}`)
+    .join("\n");
+}
+
+/**
+ * Number of feeds of each kind; unclassified feeds are not counted
+ */
+function countFeedKinds(feeds: FeedResult[]): Record<FeedKind, number> {
+  const counts: Record<FeedKind, number> = {
+    main: 0,
+    podcast: 0,
+    category: 0,
+    tag: 0,
+    author: 0,
+    comments: 0,
+  };
+  for (const feed of feeds) {
+    if (feed.kind) counts[feed.kind]++;
+  }
+  return counts;
+}
+
+function kindFilterClassName(isActive: boolean): string {
+  return `border focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+    isActive ? "app-accent-box" : "app-control"
+  }`;
+}
+
+const cachedAtFormat = new Intl.DateTimeFormat("en-US", {
+  dateStyle: "medium",
+  timeStyle: "short",
+  timeZone: "UTC",
+});
+
+const lastUpdatedFormat = new Intl.DateTimeFormat("en-US", {
+  year: "numeric",
+  month: "short",
+  day: "numeric",
+  timeZone: "UTC",
+});
+
+function PodcastSummary({ podcast }: { podcast: PodcastInfo }) {
+  return (
+    <div className="flex items-center gap-3" data-testid="podcast-info">
+      {podcast.artworkUrl && (
+        <img
+          src={podcast.artworkUrl}
+          alt="Podcast artwork"
+          className="size-12 shrink-0 rounded border object-cover"
+          loading="lazy"
+          referrerPolicy="no-referrer"
+        />
+      )}
+      <dl className="app-muted flex flex-wrap gap-x-4 gap-y-1">
+        {podcast.author && (
+          <div className="flex gap-1">
+            <dt className="font-semibold">Author:</dt>
+            <dd>{podcast.author}</dd>
+          </div>
+        )}
+        <div className="flex gap-1">
+          <dt className="font-semibold">Episodes:</dt>
+          <dd>{podcast.episodeCount}</dd>
+        </div>
+        {podcast.explicit !== undefined && (
+          <div className="flex gap-1">
+            <dt className="font-semibold">Explicit:</dt>
+            <dd>{podcast.explicit ? "Yes" : "No"}</dd>
+          </div>
+        )}
+      </dl>
+    </div>
+  );
+}
+
+function FeedMetadataSummary({ metadata }: { metadata: FeedMetadata }) {
+  return (
+    <div className="mb-3 space-y-2 text-xs" data-testid="feed-metadata">
+      {metadata.podcast && <PodcastSummary podcast={metadata.podcast} />}
+      <dl className="app-muted flex flex-wrap gap-x-4 gap-y-1">
+        <div className="flex gap-1">
+          <dt className="font-semibold">Items:</dt>
+          <dd>{metadata.itemCount}</dd>
+        </div>
+        {metadata.lastUpdated && (
+          <div className="flex gap-1">
+            <dt className="font-semibold">Last updated:</dt>
+            <dd>
+              <time dateTime={metadata.lastUpdated}>
+                {lastUpdatedFormat.format(new Date(metadata.lastUpdated))}
+              </time>
+            </dd>
+          </div>
+        )}
+        {metadata.language && (
+          <div className="flex gap-1">
+            <dt className="font-semibold">Language:</dt>
+            <dd>{metadata.language}</dd>
+          </div>
+        )}
+        {metadata.siteUrl && (
+          <div className="flex min-w-0 gap-1">
+            <dt className="font-semibold">Site:</dt>
+            <dd className="truncate">
+              <a
+                href={metadata.siteUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="app-accent-text underline-offset-2 hover:underline"
+              >
+                {metadata.siteUrl}
+              </a>
+            </dd>
+          </div>
+        )}
+      </dl>
+      {metadata.sampleItemTitles.length > 0 && (
+        <div>
+          <p className="app-muted font-semibold">Recent items</p>
+          <ul className="app-muted list-inside list-disc">
+            {metadata.sampleItemTitles.map((itemTitle, index) => (
+              <li key={`${itemTitle}-${index}`} className="truncate">
+                {itemTitle}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Describe a posting interval in hours, switching to days past two days
+ */
+function formatPostingInterval(hours: number): string {
+  if (hours < 1) return "under an hour";
+  if (hours < 48) return `${Math.round(hours)} hour(s)`;
+  return `${Math.round(hours / 24)} day(s)`;
+}
+
+function HealthFindings({ label, items }: { label: string; items: string[] }) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <p className="font-semibold">{label}</p>
+      <ul className="list-inside list-disc">
+        {items.map((item, index) => (
+          <li key={`${item}-${index}`} className="break-all">
+            {item}
           </li>
         ))}
       </ul>
-    </section>
+    </div>
+  );
+}
+
+function FeedHealthPanel({ health }: { health: FeedHealth }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const panelId = useId();
+  const problemCount =
+    health.wellFormednessIssues.length +
+    health.missingElements.length +
+    health.duplicateGuids.length;
+
+  return (
+    <div className="mb-3 text-xs">
+      <Button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        variant="outline"
+        size="sm"
+        className="app-control border focus:outline-none focus:ring-2 focus:ring-offset-2"
+        aria-expanded={isOpen}
+        aria-controls={panelId}
+      >
+        <ChevronDown
+          className={`h-4 w-4 mr-2 transition-transform ${isOpen ? "rotate-180" : ""}`}
+          aria-hidden="true"
+        />
+        Feed health{" "}
+        {problemCount > 0 ? `(${problemCount} problem(s))` : "(no problems)"}
+      </Button>
+      {isOpen && (
+        <div
+          id={panelId}
+          className="app-muted mt-2 space-y-2 rounded border p-3"
+          data-testid="feed-health"
+        >
+          <dl className="flex flex-wrap gap-x-4 gap-y-1">
+            <div className="flex gap-1">
+              <dt className="font-semibold">Last item:</dt>
+              <dd>
+                {health.lastItemDate ? (
+                  <time dateTime={health.lastItemDate}>
+                    {lastUpdatedFormat.format(new Date(health.lastItemDate))}
+                  </time>
+                ) : (
+                  "No dated items"
+                )}
+              </dd>
+            </div>
+            {health.medianIntervalHours !== undefined && (
+              <div className="flex gap-1">
+                <dt className="font-semibold">Posts every:</dt>
+                <dd>{formatPostingInterval(health.medianIntervalHours)}</dd>
+              </div>
+            )}
+            <div className="flex gap-1">
+              <dt className="font-semibold">ETag:</dt>
+              <dd>{health.httpCaching.etag ? "Yes" : "No"}</dd>
+            </div>
+            <div className="flex gap-1">
+              <dt className="font-semibold">Last-Modified:</dt>
+              <dd>{health.httpCaching.lastModified ? "Yes" : "No"}</dd>
+            </div>
+          </dl>
+          <HealthFindings
+            label="Well-formedness issues"
+            items={health.wellFormednessIssues}
+          />
+          <HealthFindings
+            label="Missing required elements"
+            items={health.missingElements}
+          />
+          <HealthFindings
+            label="Duplicate GUIDs"
+            items={health.duplicateGuids}
+          />
+          {health.truncated && (
+            <p>Only the start of this large feed was checked.</p>
+          )}
+        </div>
+      )}
+    </div>
   );
 }
 
@@ -119,6 +590,7 @@ interface FeedCardProps {
   onCopyUrl: (url: string) => void;
   onOpenFeed: (url: string) => void;
   copiedUrl: string | null;
+  isRecommended?: boolean;
 }
 
 function FeedCard({
@@ -127,17 +599,26 @@ function FeedCard({
   onCopyUrl,
   onOpenFeed,
   copiedUrl,
+  isRecommended = false,
 }: FeedCardProps) {
   const isUrlCopied = copiedUrl === feed.url;
-  const discoveryMethodText =
-    feed.discoveryMethod === "meta-tag"
-      ? "Discovered via HTML meta tag"
-      : "Discovered via common path";
+  const discoveryMethodText = feed.siteRule
+    ? `Discovered via ${feed.siteRule} rule`
+    : DISCOVERY_METHOD_TEXT[feed.discoveryMethod];
+  const typeBadge = FEED_TYPE_BADGES[feed.type];
+  const verificationBadge = feed.verification
+    ? VERIFICATION_BADGES[feed.verification]
+    : null;
 
   return (
     <article
-      className="app-surface rounded-lg border shadow-lg transition-colors duration-200 hover:border-[var(--app-accent-border)]"
+      className={`app-surface rounded-lg border shadow-lg transition-colors duration-200 hover:border-[var(--app-accent-border)] ${
+        isRecommended
+          ? "border-[var(--app-accent-border)] ring-2 ring-emerald-400/60"
+          : ""
+      }`}
       aria-labelledby={titleId}
+      data-recommended={isRecommended || undefined}
     >
       <header className="p-6 pb-3">
         <div className="flex items-start justify-between">
@@ -149,16 +630,51 @@ function FeedCard({
               {feed.title || feed.url}
             </h3>
             <div className="mt-2 flex flex-wrap items-center gap-2">
+              {isRecommended && (
+                <span className="rounded bg-emerald-600 px-2 py-1 text-xs font-semibold text-white dark:bg-emerald-500 dark:text-emerald-950">
+                  Recommended
+                </span>
+              )}
               <span
-                className={`rounded px-2 py-1 text-xs font-semibold ${
-                  feed.type === "RSS"
-                    ? "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200"
-                    : "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
-                }`}
-                aria-label={`Feed type: ${feed.type}`}
+                className={`rounded px-2 py-1 text-xs font-semibold ${typeBadge.className}`}
+                aria-label={`Feed type: ${typeBadge.label}`}
               >
-                {feed.type}
+                {typeBadge.label}
               </span>
+              {feed.kind && (
+                <span
+                  className="app-accent-box rounded border px-2 py-1 text-xs font-semibold"
+                  aria-label={`Feed kind: ${FEED_KIND_LABELS[feed.kind]}`}
+                >
+                  {FEED_KIND_LABELS[feed.kind]}
+                </span>
+              )}
+              {verificationBadge && (
+                <span
+                  className={`rounded px-2 py-1 text-xs font-semibold ${verificationBadge.className}`}
+                  aria-label={`Verification: ${verificationBadge.label}`}
+                >
+                  {verificationBadge.label}
+                </span>
+              )}
+              {feed.hubUrl && (
+                <span
+                  className="rounded bg-sky-100 px-2 py-1 text-xs font-semibold text-sky-800 dark:bg-sky-900 dark:text-sky-200"
+                  title={`Updates are pushed by ${feed.hubUrl}`}
+                  aria-label={`Supports WebSub push via ${feed.hubUrl}`}
+                >
+                  WebSub
+                </span>
+              )}
+              {feed.confidence && (
+                <span
+                  className="app-muted rounded border px-2 py-1 text-xs font-semibold"
+                  title={describeConfidence(feed.confidence)}
+                  aria-label={`Confidence score: ${feed.confidence.score} out of 100`}
+                >
+                  Confidence {feed.confidence.score}
+                </span>
+              )}
               <span
                 className="app-muted text-xs"
                 aria-label={`Discovery method: ${discoveryMethodText}`}
@@ -177,11 +693,28 @@ function FeedCard({
           </p>
         )}
 
+        {feed.metadata && <FeedMetadataSummary metadata={feed.metadata} />}
+
+        {feed.health && <FeedHealthPanel health={feed.health} />}
+
         <div className="space-y-2">
           <div className="app-code-block rounded border p-3">
             <code className="app-muted break-all text-xs">{feed.url}</code>
           </div>
 
+          {feed.alternateUrls && feed.alternateUrls.length > 0 && (
+            <div className="app-muted text-xs" data-testid="alternate-urls">
+              <span className="font-semibold">Also found at:</span>
+              <ul className="mt-1 space-y-1">
+                {feed.alternateUrls.map((alternateUrl) => (
+                  <li key={alternateUrl} className="break-all">
+                    <code>{alternateUrl}</code>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div
             className="grid gap-2 sm:grid-cols-2"
             role="group"
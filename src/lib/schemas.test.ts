@@ -4,6 +4,7 @@ import {
   FeedResultSchema,
   parseApiError,
   parseSearchResult,
+  parseSearchStreamEvent,
   SearchResultSchema,
 } from "./schemas";
 
@@ -46,7 +47,7 @@ describe("FeedResultSchema", () => {
   it("should reject invalid feed type", () => {
     const feedResult = {
       url: "https://example.com/feed.xml",
-      type: "JSON" as const,
+      type: "OPML" as const,
       discoveryMethod: "meta-tag",
     };
 
@@ -54,6 +55,212 @@ describe("FeedResultSchema", () => {
     expect(result.success).toBe(false);
   });
 
+  it("should validate link-header discovery method", () => {
+    const result = FeedResultSchema.safeParse({
+      url: "https://example.com/feed.xml",
+      type: "RSS",
+      discoveryMethod: "link-header",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("should validate anchor-link discovery method", () => {
+    const result = FeedResultSchema.safeParse({
+      url: "https://example.com/rss.xml",
+      type: "RSS",
+      discoveryMethod: "anchor-link",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("should validate sitemap discovery method", () => {
+    const result = FeedResultSchema.safeParse({
+      url: "https://example.com/news/rss",
+      type: "RSS",
+      discoveryMethod: "sitemap",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("should validate feed kinds", () => {
+    const result = FeedResultSchema.safeParse({
+      url: "https://example.com/comments/feed/",
+      type: "RSS",
+      discoveryMethod: "meta-tag",
+      kind: "comments",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject unknown feed kinds", () => {
+    const result = FeedResultSchema.safeParse({
+      url: "https://example.com/feed/",
+      type: "RSS",
+      discoveryMethod: "meta-tag",
+      kind: "newsletter",
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("should validate podcast details in feed metadata", () => {
+    const result = FeedResultSchema.safeParse({
+      url: "https://feeds.example.com/show",
+      type: "RSS",
+      discoveryMethod: "site-rule",
+      siteRule: "Apple Podcasts",
+      kind: "podcast",
+      metadata: {
+        itemCount: 2,
+        sampleItemTitles: [],
+        podcast: {
+          artworkUrl: "https://example.com/art.jpg",
+          episodeCount: 2,
+          explicit: true,
+        },
+      },
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("should validate WebSub hub and self links", () => {
+    const result = FeedResultSchema.safeParse({
+      url: "https://example.com/rss",
+      type: "RSS",
+      discoveryMethod: "common-path",
+      hubUrl: "https://hub.example.net/",
+      selfUrl: "https://example.com/feed/",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("should validate redirect targets and merged alternate URLs", () => {
+    const result = FeedResultSchema.safeParse({
+      url: "http://example.com/feed",
+      type: "RSS",
+      discoveryMethod: "meta-tag",
+      finalUrl: "https://example.com/feed/",
+      alternateUrls: ["https://www.example.com/feed/"],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("should validate confidence scores and their reasons", () => {
+    const feed = {
+      url: "https://example.com/feed/",
+      type: "RSS",
+      discoveryMethod: "meta-tag",
+      contentType: "application/rss+xml",
+      confidence: {
+        score: 60,
+        reasons: [
+          {
+            factor: "discovery-method",
+            points: 30,
+            detail: "Advertised in the page's <link> tags",
+          },
+          {
+            factor: "verification",
+            points: 30,
+            detail: "Fetched and parsed as a feed",
+          },
+        ],
+      },
+    };
+
+    expect(FeedResultSchema.safeParse(feed).success).toBe(true);
+    expect(
+      FeedResultSchema.safeParse({
+        ...feed,
+        confidence: { score: 120, reasons: [] },
+      }).success,
+    ).toBe(false);
+  });
+
+  it("should validate feed health reports", () => {
+    const result = FeedResultSchema.safeParse({
+      url: "https://example.com/feed/",
+      type: "RSS",
+      discoveryMethod: "meta-tag",
+      health: {
+        lastItemDate: "2026-06-10T12:00:00.000Z",
+        medianIntervalHours: 36,
+        httpCaching: { etag: true, lastModified: false },
+        wellFormednessIssues: [],
+        missingElements: ["channel/link"],
+        duplicateGuids: [],
+        truncated: false,
+      },
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("should validate site-rule feeds with their rule name", () => {
+    const result = FeedResultSchema.safeParse({
+      url: "https://www.youtube.com/feeds/videos.xml?channel_id=UC123",
+      type: "Atom",
+      discoveryMethod: "site-rule",
+      siteRule: "YouTube",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("should validate JSON Feed type", () => {
+    const result = FeedResultSchema.safeParse({
+      url: "https://example.com/feed.json",
+      type: "JSON",
+      discoveryMethod: "meta-tag",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("should validate verification statuses", () => {
+    for (const verification of ["verified", "unverified", "invalid"]) {
+      const result = FeedResultSchema.safeParse({
+        url: "https://example.com/feed.xml",
+        type: "RSS",
+        discoveryMethod: "meta-tag",
+        verification,
+      });
+      expect(result.success).toBe(true);
+    }
+  });
+
+  it("should validate feed metadata", () => {
+    const result = FeedResultSchema.safeParse({
+      url: "https://example.com/feed.xml",
+      type: "RSS",
+      discoveryMethod: "meta-tag",
+      metadata: {
+        title: "Example",
+        siteUrl: "https://example.com/",
+        itemCount: 10,
+        lastUpdated: "2024-05-07T10:00:00.000Z",
+        sampleItemTitles: ["Hello"],
+      },
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject metadata with a negative item count", () => {
+    const result = FeedResultSchema.safeParse({
+      url: "https://example.com/feed.xml",
+      type: "RSS",
+      discoveryMethod: "meta-tag",
+      metadata: { itemCount: -1, sampleItemTitles: [] },
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject unknown verification status", () => {
+    const result = FeedResultSchema.safeParse({
+      url: "https://example.com/feed.xml",
+      type: "RSS",
+      discoveryMethod: "meta-tag",
+      verification: "maybe",
+    });
+    expect(result.success).toBe(false);
+  });
+
   it("should reject invalid discovery method", () => {
     const feedResult = {
       url: "https://example.com/feed.xml",
@@ -99,6 +306,42 @@ describe("SearchResultSchema", () => {
     expect(result.success).toBe(true);
   });
 
+  it("should validate the detected platform", () => {
+    const result = SearchResultSchema.safeParse({
+      success: true,
+      feeds: [],
+      searchedUrl: "https://example.com",
+      totalFound: 0,
+      platform: "Ghost",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject unknown platforms", () => {
+    const result = SearchResultSchema.safeParse({
+      success: true,
+      feeds: [],
+      searchedUrl: "https://example.com",
+      totalFound: 0,
+      platform: "Geocities",
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("should validate the robots.txt report", () => {
+    const result = SearchResultSchema.safeParse({
+      success: true,
+      feeds: [],
+      searchedUrl: "https://example.com",
+      totalFound: 0,
+      robotsTxt: {
+        mode: "report",
+        disallowedUrls: ["https://example.com/feed"],
+      },
+    });
+    expect(result.success).toBe(true);
+  });
+
   it("should reject negative totalFound", () => {
     const searchResult = {
       success: true,
@@ -222,3 +465,37 @@ describe("parseApiError", () => {
     expect(result).toBe("An unexpected error occurred");
   });
 });
+
+describe("parseSearchStreamEvent", () => {
+  it("should parse progress events", () => {
+    expect(
+      parseSearchStreamEvent({ type: "stage", stage: "verification" }),
+    ).toEqual({ type: "stage", stage: "verification" });
+  });
+
+  it("should parse the final result", () => {
+    const result = {
+      success: true,
+      feeds: [],
+      searchedUrl: "https://example.com/",
+      totalFound: 0,
+    };
+
+    expect(parseSearchStreamEvent({ type: "complete", result })).toEqual({
+      type: "complete",
+      result,
+    });
+  });
+
+  it("should throw on unknown events", () => {
+    const consoleSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => undefined);
+
+    expect(() => parseSearchStreamEvent({ type: "unknown" })).toThrow(
+      "The server returned a response in an unexpected format",
+    );
+
+    consoleSpy.mockRestore();
+  });
+});
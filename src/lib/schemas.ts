@@ -1,5 +1,69 @@
 import { z } from "zod";
 
+/**
+ * Zod schema for PodcastInfo
+ * Matches the shared/types.ts PodcastInfo interface
+ */
+export const PodcastInfoSchema = z.object({
+  artworkUrl: z.string().url().optional(),
+  author: z.string().optional(),
+  episodeCount: z.number().int().nonnegative(),
+  explicit: z.boolean().optional(),
+});
+
+/**
+ * Zod schema for FeedMetadata
+ * Matches the shared/types.ts FeedMetadata interface
+ */
+export const FeedMetadataSchema = z.object({
+  title: z.string().optional(),
+  description: z.string().optional(),
+  siteUrl: z.string().url().optional(),
+  language: z.string().optional(),
+  itemCount: z.number().int().nonnegative(),
+  lastUpdated: z.string().datetime().optional(),
+  sampleItemTitles: z.array(z.string()),
+  podcast: PodcastInfoSchema.optional(),
+});
+
+/**
+ * Zod schema for FeedConfidence
+ * Matches the shared/types.ts FeedConfidence interface
+ */
+export const FeedConfidenceSchema = z.object({
+  score: z.number().min(0).max(100),
+  reasons: z.array(
+    z.object({
+      factor: z.enum([
+        "discovery-method",
+        "verification",
+        "content-type",
+        "freshness",
+        "same-origin",
+      ]),
+      points: z.number(),
+      detail: z.string(),
+    }),
+  ),
+});
+
+/**
+ * Zod schema for FeedHealth
+ * Matches the shared/types.ts FeedHealth interface
+ */
+export const FeedHealthSchema = z.object({
+  lastItemDate: z.string().datetime().optional(),
+  medianIntervalHours: z.number().nonnegative().optional(),
+  httpCaching: z.object({
+    etag: z.boolean(),
+    lastModified: z.boolean(),
+  }),
+  wellFormednessIssues: z.array(z.string()),
+  missingElements: z.array(z.string()),
+  duplicateGuids: z.array(z.string()),
+  truncated: z.boolean(),
+});
+
 /**
  * Zod schema for FeedResult
  * Matches the shared/types.ts FeedResult interface
@@ -7,9 +71,29 @@ import { z } from "zod";
 export const FeedResultSchema = z.object({
   url: z.string().url(),
   title: z.string().optional(),
-  type: z.enum(["RSS", "Atom"]),
+  type: z.enum(["RSS", "Atom", "JSON"]),
   description: z.string().optional(),
-  discoveryMethod: z.enum(["meta-tag", "common-path"]),
+  discoveryMethod: z.enum([
+    "meta-tag",
+    "common-path",
+    "link-header",
+    "anchor-link",
+    "site-rule",
+    "sitemap",
+  ]),
+  siteRule: z.string().optional(),
+  kind: z
+    .enum(["main", "comments", "category", "tag", "author", "podcast"])
+    .optional(),
+  verification: z.enum(["verified", "unverified", "invalid"]).optional(),
+  metadata: FeedMetadataSchema.optional(),
+  hubUrl: z.string().url().optional(),
+  selfUrl: z.string().url().optional(),
+  finalUrl: z.string().url().optional(),
+  alternateUrls: z.array(z.string()).optional(),
+  contentType: z.string().optional(),
+  confidence: FeedConfidenceSchema.optional(),
+  health: FeedHealthSchema.optional(),
 });
 
 /**
@@ -21,9 +105,54 @@ export const SearchResultSchema = z.object({
   feeds: z.array(FeedResultSchema),
   searchedUrl: z.string(),
   totalFound: z.number().int().nonnegative(),
+  platform: z
+    .enum([
+      "WordPress",
+      "Ghost",
+      "Blogger",
+      "Hugo",
+      "Jekyll",
+      "Tumblr",
+      "Drupal",
+    ])
+    .optional(),
+  robotsTxt: z
+    .object({
+      mode: z.enum(["enforce", "report"]),
+      disallowedUrls: z.array(z.string()),
+    })
+    .optional(),
+  cached: z.boolean().optional(),
+  fetchedAt: z.string().datetime().optional(),
   message: z.string().optional(),
 });
 
+/**
+ * Zod schema for OpmlCheckResult
+ * Matches the shared/types.ts OpmlCheckResult interface
+ */
+export const OpmlCheckResultSchema = z.object({
+  success: z.literal(true),
+  total: z.number().int().nonnegative(),
+  counts: z.object({
+    alive: z.number().int().nonnegative(),
+    redirected: z.number().int().nonnegative(),
+    moved: z.number().int().nonnegative(),
+    dead: z.number().int().nonnegative(),
+  }),
+  subscriptions: z.array(
+    z.object({
+      title: z.string().optional(),
+      xmlUrl: z.string(),
+      htmlUrl: z.string().optional(),
+      status: z.enum(["alive", "redirected", "moved", "dead"]),
+      finalUrl: z.string().optional(),
+      reason: z.string().optional(),
+      suggestions: z.array(FeedResultSchema),
+    }),
+  ),
+});
+
 /**
  * Zod schema for API error response
  */
@@ -31,6 +160,34 @@ export const ApiErrorSchema = z.object({
   error: z.string(),
 });
 
+/**
+ * Zod schema for SearchStreamEvent
+ * Matches the shared/types.ts SearchStreamEvent union
+ */
+export const SearchStreamEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("stage"),
+    stage: z.enum(["page", "common-path", "verification"]),
+  }),
+  z.object({
+    type: z.literal("probe"),
+    url: z.string(),
+    found: z.boolean(),
+  }),
+  z.object({
+    type: z.literal("feed"),
+    feed: FeedResultSchema,
+  }),
+  z.object({
+    type: z.literal("complete"),
+    result: SearchResultSchema,
+  }),
+  z.object({
+    type: z.literal("error"),
+    error: ApiErrorSchema,
+  }),
+]);
+
 /**
  * Type-safe parse function for SearchResult
  * Returns the parsed result or throws with a user-friendly message
@@ -44,6 +201,19 @@ export function parseSearchResult(data: unknown) {
   return result.data;
 }
 
+/**
+ * Type-safe parse function for OpmlCheckResult
+ * Throws with a user-friendly message, like parseSearchResult
+ */
+export function parseOpmlCheckResult(data: unknown) {
+  const result = OpmlCheckResultSchema.safeParse(data);
+  if (!result.success) {
+    console.error("Invalid API response:", result.error.flatten());
+    throw new Error("The server returned a response in an unexpected format");
+  }
+  return result.data;
+}
+
 /**
  * Type-safe parse function for API error
  */
@@ -54,3 +224,16 @@ export function parseApiError(data: unknown): string {
   }
   return "An unexpected error occurred";
 }
+
+/**
+ * Type-safe parse function for a streamed search event
+ * Throws with a user-friendly message, like parseSearchResult
+ */
+export function parseSearchStreamEvent(data: unknown) {
+  const result = SearchStreamEventSchema.safeParse(data);
+  if (!result.success) {
+    console.error("Invalid stream event:", result.error.flatten());
+    throw new Error("The server returned a response in an unexpected format");
+  }
+  return result.data;
+}
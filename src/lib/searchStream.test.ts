@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  applySearchStreamEvent,
+  INITIAL_SEARCH_PROGRESS,
+  readServerSentEvents,
+} from "./searchStream";
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+async function collect(body: ReadableStream<Uint8Array>): Promise<string[]> {
+  const events: string[] = [];
+  for await (const data of readServerSentEvents(body)) events.push(data);
+  return events;
+}
+
+describe("searchStream", () => {
+  describe("readServerSentEvents", () => {
+    it("should yield the data of each event", async () => {
+      const body = streamOf(
+        'event: stage\ndata: {"a":1}\n\n',
+        'event: feed\ndata: {"b":2}\n\n',
+      );
+
+      expect(await collect(body)).toEqual(['{"a":1}', '{"b":2}']);
+    });
+
+    it("should reassemble events split across chunks", async () => {
+      const body = streamOf("event: stage\nda", 'ta: {"a":1}\r', "\n\r\n");
+
+      expect(await collect(body)).toEqual(['{"a":1}']);
+    });
+
+    it("should flush a final event without a trailing blank line", async () => {
+      expect(await collect(streamOf("data: last"))).toEqual(["last"]);
+    });
+
+    it("should skip comments and events without data", async () => {
+      expect(
+        await collect(streamOf(": keep-alive\n\nevent: ping\n\n")),
+      ).toEqual([]);
+    });
+  });
+
+  describe("applySearchStreamEvent", () => {
+    const feed = {
+      url: "https://example.com/feed.xml",
+      type: "RSS" as const,
+      discoveryMethod: "meta-tag" as const,
+    };
+
+    it("should track the stage, probe count and feeds found", () => {
+      const progress = [
+        { type: "stage", stage: "common-path" },
+        { type: "probe", url: "https://example.com/rss", found: false },
+        { type: "probe", url: "https://example.com/feed", found: true },
+        { type: "feed", feed },
+      ] as const;
+
+      expect(
+        progress.reduce(applySearchStreamEvent, INITIAL_SEARCH_PROGRESS),
+      ).toEqual({ stage: "common-path", probed: 2, feeds: [feed] });
+    });
+
+    it("should leave progress unchanged on final events", () => {
+      expect(
+        applySearchStreamEvent(INITIAL_SEARCH_PROGRESS, {
+          type: "error",
+          error: { success: false, error: "Failed", errorId: "abc" },
+        }),
+      ).toBe(INITIAL_SEARCH_PROGRESS);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import type {
+  DiscoveryStage,
+  FeedResult,
+  SearchStreamEvent,
+} from "../../shared/types";
+
+/**
+ * What a streamed search has reported so far
+ */
+export interface SearchProgress {
+  stage: DiscoveryStage;
+  /** Number of candidate URLs probed */
+  probed: number;
+  /** Feeds verified so far, in the order they were reported */
+  feeds: FeedResult[];
+}
+
+export const INITIAL_SEARCH_PROGRESS: SearchProgress = {
+  stage: "page",
+  probed: 0,
+  feeds: [],
+};
+
+/**
+ * Fold a progress event into the progress so far.
+ * Final "complete" and "error" events leave it unchanged.
+ */
+export function applySearchStreamEvent(
+  progress: SearchProgress,
+  event: SearchStreamEvent,
+): SearchProgress {
+  switch (event.type) {
+    case "stage":
+      return { ...progress, stage: event.stage };
+    case "probe":
+      return { ...progress, probed: progress.probed + 1 };
+    case "feed":
+      return { ...progress, feeds: [...progress.feeds, event.feed] };
+    default:
+      return progress;
+  }
+}
+
+/**
+ * Yield the data of each Server-Sent Event in a response body
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+    buffer = buffer.replace(/\r\n/g, "\n");
+
+    // Events are separated by a blank line; keep any partial event buffered
+    const blocks = buffer.split("\n\n");
+    buffer = done ? "" : (blocks.pop() ?? "");
+
+    for (const block of blocks) {
+      const data = block
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).replace(/^ /, ""))
+        .join("\n");
+      if (data) yield data;
+    }
+
+    if (done) return;
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { mapWithConcurrency } from "./concurrency";
+
+describe("concurrency", () => {
+  describe("mapWithConcurrency", () => {
+    it("should keep results in input order", async () => {
+      const delays = [30, 5, 15, 0];
+
+      const results = await mapWithConcurrency(delays, 2, async (delay) => {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        return delay * 2;
+      });
+
+      expect(results).toEqual([60, 10, 30, 0]);
+    });
+
+    it("should never run more than the limit at once", async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      await mapWithConcurrency(Array.from({ length: 10 }), 3, async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        inFlight--;
+      });
+
+      expect(maxInFlight).toBe(3);
+    });
+
+    it("should pass each item's index to the mapper", async () => {
+      const results = await mapWithConcurrency(
+        ["a", "b"],
+        4,
+        async (item, index) => `${index}:${item}`,
+      );
+
+      expect(results).toEqual(["0:a", "1:b"]);
+    });
+
+    it("should resolve to an empty array for no items", async () => {
+      await expect(
+        mapWithConcurrency([], 3, async () => "never"),
+      ).resolves.toEqual([]);
+    });
+  });
+});
@@ -25,6 +25,7 @@ describe("config", () => {
         "application/rdf+xml",
         "text/xml",
         "application/xml",
+        "application/feed+json",
       ];
 
       expect(SUPPORTED_FEED_TYPES).toEqual(expectedTypes);
@@ -39,7 +40,7 @@ describe("config", () => {
 
     it("should be read-only array", () => {
       expect(Array.isArray(SUPPORTED_FEED_TYPES)).toBe(true);
-      expect(SUPPORTED_FEED_TYPES.length).toBe(5);
+      expect(SUPPORTED_FEED_TYPES.length).toBe(6);
     });
   });
 
@@ -1,3 +1,5 @@
+import type { RobotsTxtMode } from "./types";
+
 /**
  * Default title for feeds when no title is found in meta tags
  */
@@ -6,6 +8,8 @@ export const DEFAULT_FEED_TITLE = "RSS/Atom feed";
 /**
  * Supported feed MIME types for detection
  * Note: Generic XML types (text/xml, application/xml) fall back to RSS.
+ * Plain application/json is not one: WordPress advertises its REST API
+ * with <link rel="alternate" type="application/json">.
  */
 export const SUPPORTED_FEED_TYPES = [
   "application/rss+xml",
@@ -13,6 +17,7 @@ export const SUPPORTED_FEED_TYPES = [
   "application/rdf+xml", // RSS 1.0 (RDF)
   "text/xml",
   "application/xml",
+  "application/feed+json", // JSON Feed
 ];
 
 /**
@@ -31,8 +36,141 @@ export const ALLOWED_ORIGINS = [
  */
 export const MAX_LINK_TAG_LENGTH = 1000;
 
+/**
+ * Batch search limits
+ * Each URL fans out into many outbound requests, so only a few run at once.
+ * A batch runs in one Worker invocation, which may make at most 1000
+ * subrequests; past that, fetches fail and the searches that made them
+ * come back degraded. Without redirects a search makes at most 46
+ * requests: the page, 16 common-path probes, MAX_SITEMAP_FETCHES sitemaps,
+ * MAX_ANCESTOR_PATHS ancestor pages, the podcast lookup and
+ * MAX_VERIFIED_CANDIDATES verifications. On top come robots.txt for each
+ * origin checked: the site's, plus up to 24 others that page links and
+ * sitemaps point at. That is at most 71 requests, so ten searches fit;
+ * every redirect hop (up to MAX_REDIRECTS per request) counts as another
+ * subrequest, so a batch of sites that all redirect can still run out.
+ * Ten URLs is far short of auditing hundreds of sites in one call: larger
+ * audits have to be split across batch requests.
+ */
+export const MAX_BATCH_URLS = 10;
+export const BATCH_CONCURRENCY = 3;
+
+/**
+ * How long search results are cached, in seconds.
+ * Shorter upstream Cache-Control lifetimes take precedence. Results that
+ * may be missing feeds because the page or a candidate could not be
+ * fetched are only kept briefly.
+ */
+export const SEARCH_CACHE_TTL_SECONDS = 60 * 60;
+export const DEGRADED_SEARCH_CACHE_TTL_SECONDS = 60;
+
+/**
+ * Per-client rate limiting of the API (token bucket keyed by client IP)
+ * A client may burst up to the capacity, then gets a token back every
+ * 60 / RATE_LIMIT_PER_MINUTE seconds.
+ * A search costs one token and a batch one per URL; checking a
+ * subscription is mostly a single fetch, so an OPML check costs one token
+ * per OPML_SUBSCRIPTIONS_PER_TOKEN subscriptions.
+ */
+export const RATE_LIMIT_CAPACITY = 20;
+export const RATE_LIMIT_PER_MINUTE = 10;
+export const OPML_SUBSCRIPTIONS_PER_TOKEN = 10;
+export const RATE_LIMIT_MAX_TRACKED_CLIENTS = 10_000;
+
+/**
+ * OPML subscription check limits
+ * Every subscription costs a fetch; a broken one also costs a fetch of its
+ * site's page and of up to MAX_OPML_REPLACEMENT_CANDIDATES feeds the page
+ * advertises. The whole check runs in one Worker invocation, which may
+ * make at most 1000 subrequests (each redirect hop counts).
+ */
+export const MAX_OPML_BYTES = 1024 * 1024;
+export const MAX_OPML_SUBSCRIPTIONS = 100;
+export const MAX_OPML_REPLACEMENT_CANDIDATES = 3;
+export const OPML_CHECK_CONCURRENCY = 5;
+
 /**
  * Network configuration
  */
 export const USER_AGENT = "FeedFinder/1.0";
 export const FETCH_TIMEOUT_MS = 5000;
+// Reading a body has its own deadline, so a server that sends headers and
+// then trickles bytes cannot hold a search open
+export const BODY_READ_TIMEOUT_MS = 5000;
+export const MAX_REDIRECTS = 5;
+
+/**
+ * Politeness towards each target host: a search's probes are spread out
+ * instead of arriving as one burst, which WAFs tend to block.
+ * The fetch timeout starts once a request gets its slot; waiting for the
+ * slot is capped separately.
+ */
+export const MAX_CONCURRENT_REQUESTS_PER_HOST = 4;
+export const MIN_REQUEST_SPACING_MS = 25;
+export const MAX_THROTTLE_WAIT_MS = 10000;
+
+/**
+ * robots.txt handling for guessed candidate URLs: "enforce" skips the ones
+ * disallowed for USER_AGENT, "report" only lists them in the result.
+ * Each origin's rules are kept in memory for up to the TTL, or for the
+ * failure TTL when the file could not be read (which disallows every
+ * candidate until it is asked for again); crawlers commonly read no more
+ * than 500 KiB of the file, and longer Allow and Disallow patterns are
+ * ignored.
+ */
+export const ROBOTS_TXT_MODE: RobotsTxtMode = "enforce";
+export const ROBOTS_TXT_CACHE_TTL_MS = 60 * 60 * 1000;
+export const ROBOTS_TXT_FAILURE_CACHE_TTL_MS = 60 * 1000;
+export const ROBOTS_TXT_MAX_CACHED_HOSTS = 1000;
+export const MAX_ROBOTS_TXT_BYTES = 500 * 1024;
+export const MAX_ROBOTS_PATTERN_LENGTH = 512;
+
+/**
+ * Maximum number of bytes read from the target page before giving up.
+ * Reading stops at the end of <head> when it already advertises feeds;
+ * otherwise the body is scanned for visible feed links.
+ */
+export const MAX_HTML_BODY_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Upper bound on <a href> feed candidates, each of which costs a fetch
+ */
+export const MAX_ANCHOR_CANDIDATES = 10;
+
+/**
+ * Upper bound on parent directories (including the homepage) read by the
+ * optional ancestor walk, each of which costs a fetch
+ */
+export const MAX_ANCESTOR_PATHS = 4;
+
+/**
+ * iTunes Search API endpoint that maps an Apple Podcasts show ID to the
+ * show's RSS feed, and the most of its JSON response that is read
+ */
+export const APPLE_PODCASTS_LOOKUP_URL = "https://itunes.apple.com/lookup";
+export const MAX_PODCAST_LOOKUP_BYTES = 64 * 1024;
+
+/**
+ * Sitemap discovery limits
+ * Sitemaps listed in robots.txt (or /sitemap.xml) are read up to the byte
+ * limit each, following sitemap indexes at most MAX_SITEMAP_DEPTH levels
+ * down and fetching at most MAX_SITEMAP_FETCHES files per search.
+ */
+export const MAX_SITEMAP_BYTES = 1024 * 1024;
+export const MAX_SITEMAP_DEPTH = 1;
+export const MAX_SITEMAP_FETCHES = 4;
+export const MAX_SITEMAP_CANDIDATES = 10;
+
+/**
+ * Feed verification configuration
+ * Only a prefix of each candidate is read; the root element appears early in
+ * any well-formed feed, so the cap bounds memory without hurting detection.
+ * A search verifies at most MAX_VERIFIED_CANDIDATES candidates, taking
+ * advertised feeds ahead of guessed ones.
+ */
+export const MAX_VERIFIED_CANDIDATES = 20;
+export const MAX_FEED_BODY_BYTES = 512 * 1024;
+export const MAX_SAMPLE_ITEMS = 3;
+export const MAX_HEALTH_FINDINGS = 10; // Per list in a feed health report
+export const FEED_ACCEPT_HEADER =
+  "application/rss+xml, application/atom+xml, application/feed+json, application/rdf+xml;q=0.9, application/xml;q=0.8, text/xml;q=0.8, application/json;q=0.8, */*;q=0.1";
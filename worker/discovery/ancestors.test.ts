@@ -0,0 +1,169 @@
+import { errAsync, okAsync } from "neverthrow";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { findAncestorFeeds, getAncestorUrls } from "./ancestors";
+
+vi.mock("../net/fetch", () => ({
+  fetchWithRedirects: vi.fn(),
+}));
+
+vi.mock("../robots/policy", () => ({
+  robotsPolicy: { mode: "enforce", check: vi.fn() },
+}));
+
+import { fetchWithRedirects } from "../net/fetch";
+import { robotsPolicy } from "../robots/policy";
+
+const mockFetchWithRedirects = vi.mocked(fetchWithRedirects);
+const mockRobotsCheck = vi.mocked(robotsPolicy.check);
+
+function pageWithFeed(href: string, title: string): string {
+  return `<html><head>
+    <link rel="alternate" type="application/rss+xml" href="${href}" title="${title}">
+  </head><body></body></html>`;
+}
+
+/**
+ * Serve pages by URL; anything else is a 404
+ */
+function servePages(pages: Record<string, string>) {
+  mockFetchWithRedirects.mockImplementation((url) =>
+    url in pages
+      ? okAsync({
+          response: new Response(pages[url], {
+            headers: { "content-type": "text/html" },
+          }),
+          url,
+        })
+      : errAsync({ type: "FETCH_FAILED", message: "HTTP 404", status: 404 }),
+  );
+}
+
+describe("discovery/ancestors", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRobotsCheck.mockImplementation((urls) =>
+      okAsync({ permittedUrls: urls, disallowedUrls: [] }),
+    );
+  });
+
+  describe("getAncestorUrls", () => {
+    it("should list each parent directory down to the homepage", () => {
+      expect(
+        getAncestorUrls("https://example.com/2024/05/some-post/?ref=home"),
+      ).toEqual([
+        "https://example.com/2024/05/",
+        "https://example.com/2024/",
+        "https://example.com/",
+      ]);
+    });
+
+    it("should treat a path without a trailing slash the same way", () => {
+      expect(getAncestorUrls("https://example.com/blog/post.html")).toEqual([
+        "https://example.com/blog/",
+        "https://example.com/",
+      ]);
+    });
+
+    it("should have no ancestors for the homepage", () => {
+      expect(getAncestorUrls("https://example.com/")).toEqual([]);
+    });
+
+    it("should keep the nearest parents and the homepage of deep paths", () => {
+      expect(getAncestorUrls("https://example.com/a/b/c/d/e/post")).toEqual([
+        "https://example.com/a/b/c/d/e/",
+        "https://example.com/a/b/c/d/",
+        "https://example.com/a/b/c/",
+        "https://example.com/",
+      ]);
+    });
+  });
+
+  describe("findAncestorFeeds", () => {
+    it("should collect the section and main feeds advertised up the path", async () => {
+      servePages({
+        "https://example.com/news/": pageWithFeed("/news/feed/", "News"),
+        "https://example.com/": pageWithFeed("/feed/", "Everything"),
+      });
+      const onProgress = vi.fn();
+
+      const result = await findAncestorFeeds(
+        "https://example.com/news/2024/some-story/",
+        onProgress,
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toEqual({
+          feeds: [
+            {
+              url: "https://example.com/news/feed/",
+              title: "News",
+              type: "RSS",
+              discoveryMethod: "meta-tag",
+            },
+            {
+              url: "https://example.com/feed/",
+              title: "Everything",
+              type: "RSS",
+              discoveryMethod: "meta-tag",
+            },
+          ],
+          disallowedUrls: [],
+        });
+      }
+      expect(onProgress.mock.calls.map(([event]) => event)).toEqual([
+        { type: "probe", url: "https://example.com/news/2024/", found: false },
+        { type: "probe", url: "https://example.com/news/", found: true },
+        { type: "probe", url: "https://example.com/", found: true },
+      ]);
+    });
+
+    it("should keep the nearest copy of a feed several pages advertise", async () => {
+      servePages({
+        "https://example.com/blog/": pageWithFeed("/feed/", "Blog"),
+        "https://example.com/": pageWithFeed("/feed/", "Site"),
+      });
+
+      const result = await findAncestorFeeds("https://example.com/blog/post/");
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.feeds.map((feed) => feed.title)).toEqual(["Blog"]);
+      }
+    });
+
+    it("should not read parents that robots.txt disallows", async () => {
+      mockRobotsCheck.mockReturnValue(
+        okAsync({
+          permittedUrls: ["https://example.com/"],
+          disallowedUrls: ["https://example.com/members/"],
+        }),
+      );
+      servePages({ "https://example.com/": pageWithFeed("/feed/", "Site") });
+
+      const result = await findAncestorFeeds(
+        "https://example.com/members/profile",
+      );
+
+      expect(mockFetchWithRedirects.mock.calls.map(([url]) => url)).toEqual([
+        "https://example.com/",
+      ]);
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.disallowedUrls).toEqual([
+          "https://example.com/members/",
+        ]);
+      }
+    });
+
+    it("should find nothing from the homepage itself", async () => {
+      const result = await findAncestorFeeds("https://example.com/");
+
+      expect(mockFetchWithRedirects).not.toHaveBeenCalled();
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toEqual({ feeds: [], disallowedUrls: [] });
+      }
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { okAsync, ResultAsync } from "neverthrow";
+import { MAX_ANCESTOR_PATHS, MAX_HTML_BODY_BYTES } from "../config";
+import { readHtmlPage } from "../net/body";
+import { fetchWithRedirects } from "../net/fetch";
+import { robotsPolicy } from "../robots/policy";
+import type { CrawlResult, FeedResult, ProgressReporter } from "../types";
+import { findMetaFeeds } from "./html";
+import { findLinkHeaderFeeds } from "./linkHeader";
+
+/**
+ * Parent directories of a page, nearest first and ending at the homepage
+ * (e.g. /2024/05/, /2024/ and / for /2024/05/some-post/). Deep paths keep
+ * their nearest parents and the homepage, up to MAX_ANCESTOR_PATHS.
+ */
+export function getAncestorUrls(pageUrl: string): string[] {
+  const { origin, pathname } = new URL(pageUrl);
+  const segments = pathname.split("/").filter(Boolean);
+  if (segments.length === 0) return [];
+
+  const parents: string[] = [];
+  for (let depth = segments.length - 1; depth > 0; depth--) {
+    parents.push(`${origin}/${segments.slice(0, depth).join("/")}/`);
+  }
+  return [...parents.slice(0, MAX_ANCESTOR_PATHS - 1), `${origin}/`];
+}
+
+/**
+ * Feeds a page advertises in its <link> tags and Link headers.
+ * Pages that cannot be fetched advertise nothing.
+ */
+function findAdvertisedFeeds(
+  pageUrl: string,
+): ResultAsync<FeedResult[], never> {
+  return fetchWithRedirects(pageUrl)
+    .andThen(({ response, url: resolvedUrl }) =>
+      // Advertised feeds are all in the head
+      readHtmlPage(response, MAX_HTML_BODY_BYTES, () => true).map((html) => [
+        ...findMetaFeeds(html, resolvedUrl),
+        ...findLinkHeaderFeeds(response.headers, resolvedUrl),
+      ]),
+    )
+    .orElse(() => okAsync([]));
+}
+
+/**
+ * Walk up the URL path from a deep page, collecting the feeds each parent
+ * directory and the homepage advertise (section feeds and the main feed).
+ * Parents that robots.txt disallows are not requested when it is enforced.
+ * Each page read is reported to `onProgress` as a probe.
+ */
+export function findAncestorFeeds(
+  pageUrl: string,
+  onProgress?: ProgressReporter,
+): ResultAsync<CrawlResult, never> {
+  return robotsPolicy
+    .check(getAncestorUrls(pageUrl))
+    .andThen(({ permittedUrls, disallowedUrls }) =>
+      ResultAsync.combine(
+        permittedUrls.map((ancestorUrl) =>
+          findAdvertisedFeeds(ancestorUrl).map((feeds) => {
+            onProgress?.({
+              type: "probe",
+              url: ancestorUrl,
+              found: feeds.length > 0,
+            });
+            return feeds;
+          }),
+        ),
+      ).map((results) => {
+        // Sections often repeat the main feed, so keep the nearest of each URL
+        const foundUrls = new Set<string>();
+        const feeds = results.flat().filter((feed) => {
+          if (foundUrls.has(feed.url)) return false;
+          foundUrls.add(feed.url);
+          return true;
+        });
+        return { feeds, disallowedUrls };
+      }),
+    );
+}
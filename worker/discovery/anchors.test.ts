@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FEED_TITLE } from "../config";
+import { findAnchorFeeds } from "./anchors";
+
+const baseUrl = "https://example.com/blog/";
+
+describe("discovery/anchors", () => {
+  describe("findAnchorFeeds", () => {
+    it("should find a footer RSS link and resolve it against the base URL", () => {
+      const html = `
+        <html><head><title>Blog</title></head>
+        <body>
+          <main><a href="/about">About</a></main>
+          <footer><a href="../rss.xml">RSS</a></footer>
+        </body></html>
+      `;
+
+      expect(findAnchorFeeds(html, baseUrl)).toEqual([
+        {
+          url: "https://example.com/rss.xml",
+          title: DEFAULT_FEED_TITLE,
+          type: "RSS",
+          discoveryMethod: "anchor-link",
+        },
+      ]);
+    });
+
+    it("should match on link text, class and title attributes", () => {
+      const html = `
+        <a href="/subscribe-1">Subscribe via Atom</a>
+        <a href="/subscribe-2" class="icon icon-rss"><img alt=""></a>
+        <a href="/subscribe-3" title="News feed">Subscribe</a>
+        <a href="/subscribe-4">Subscribe</a>
+      `;
+
+      expect(findAnchorFeeds(html, baseUrl).map((feed) => feed.url)).toEqual([
+        "https://example.com/subscribe-1",
+        "https://example.com/subscribe-2",
+        "https://example.com/subscribe-3",
+      ]);
+    });
+
+    it("should compare whole words so similar words do not match", () => {
+      const html = `
+        <a href="/feedback">Send feedback</a>
+        <a href="/categories/crossfeed-news">Read more</a>
+        <a href="/feeds/posts/default">Posts</a>
+      `;
+
+      expect(findAnchorFeeds(html, baseUrl).map((feed) => feed.url)).toEqual([
+        "https://example.com/feeds/posts/default",
+      ]);
+    });
+
+    it("should guess the feed type from the link", () => {
+      const html = `
+        <a href="/atom.xml">Atom</a>
+        <a href="/feed.json">JSON feed</a>
+        <a href="/index.xml">XML</a>
+      `;
+
+      expect(findAnchorFeeds(html, baseUrl).map((feed) => feed.type)).toEqual([
+        "Atom",
+        "JSON",
+        "RSS",
+      ]);
+    });
+
+    it("should skip fragments, non-HTTP schemes and the page itself", () => {
+      const html = `
+        <a href="#rss">RSS</a>
+        <a href="mailto:feed@example.com">Feed</a>
+        <a href="javascript:void(0)">RSS</a>
+        <a href="${baseUrl}#feed">Feed</a>
+      `;
+
+      expect(findAnchorFeeds(html, baseUrl)).toEqual([]);
+    });
+
+    it("should deduplicate links that differ only by fragment", () => {
+      const html = `
+        <a href="/rss">RSS</a>
+        <a href="/rss#top">RSS</a>
+      `;
+
+      expect(findAnchorFeeds(html, baseUrl)).toHaveLength(1);
+    });
+
+    it("should cap the number of candidates", () => {
+      const html = Array.from(
+        { length: 20 },
+        (_, index) => `<a href="/rss-${index}">RSS</a>`,
+      ).join("");
+
+      expect(findAnchorFeeds(html, baseUrl)).toHaveLength(10);
+    });
+  });
+});
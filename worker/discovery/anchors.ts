@@ -0,0 +1,93 @@
+import { Result } from "neverthrow";
+import { parse } from "node-html-parser";
+import { DEFAULT_FEED_TITLE, MAX_ANCHOR_CANDIDATES } from "../config";
+import type { FeedResult, FeedType } from "../types";
+
+/**
+ * Words that suggest a link points at a feed ("feedback" or "feedly" do not
+ * match because whole words are compared)
+ */
+const FEED_KEYWORDS = new Set(["rss", "rss2", "atom", "feed", "feeds", "xml"]);
+
+/**
+ * Split text into lower-cased alphanumeric words
+ */
+export function toWords(value: string | undefined): string[] {
+  if (!value) return [];
+  return value.toLowerCase().split(/[^a-z0-9]+/);
+}
+
+/**
+ * Whether a URL or text contains a feed keyword as a whole word
+ */
+export function mentionsFeed(value: string | undefined): boolean {
+  return toWords(value).some((word) => FEED_KEYWORDS.has(word));
+}
+
+/**
+ * Guess the feed format from the link; verification corrects it later
+ */
+export function guessFeedType(url: URL, text = ""): FeedType {
+  const words = [...toWords(url.pathname), ...toWords(text)];
+  if (words.includes("atom")) return "Atom";
+  if (words.includes("json")) return "JSON";
+  return "RSS";
+}
+
+/**
+ * Find candidate feeds among the page's <a href> elements, for sites that
+ * only show a visible "RSS" link instead of advertising a <link> tag.
+ * Candidates are heuristic and need verification before being trusted.
+ */
+export function findAnchorFeeds(html: string, baseUrl: string): FeedResult[] {
+  const feeds: FeedResult[] = [];
+  const foundUrls = new Set<string>();
+
+  const docResult = Result.fromThrowable(
+    () => parse(html),
+    () => null,
+  )();
+  if (docResult.isErr()) return feeds;
+
+  for (const anchor of docResult.value.querySelectorAll("a[href]")) {
+    const href = anchor.getAttribute("href")?.trim();
+    if (!href || href.startsWith("#")) continue;
+
+    const text = anchor.textContent.replace(/\s+/g, " ").trim();
+    const isCandidate =
+      mentionsFeed(href) ||
+      mentionsFeed(text) ||
+      mentionsFeed(anchor.getAttribute("class")) ||
+      mentionsFeed(anchor.getAttribute("title"));
+    if (!isCandidate) continue;
+
+    const urlResult = Result.fromThrowable(
+      () => new URL(href, baseUrl),
+      () => null,
+    )();
+    if (urlResult.isErr()) continue;
+
+    const url = urlResult.value;
+    url.hash = "";
+    if (
+      (url.protocol !== "http:" && url.protocol !== "https:") ||
+      url.href === baseUrl ||
+      foundUrls.has(url.href)
+    ) {
+      continue;
+    }
+
+    foundUrls.add(url.href);
+    feeds.push({
+      url: url.href,
+      // Anchor text is usually just "RSS"; the feed's own title replaces this
+      title: DEFAULT_FEED_TITLE,
+      type: guessFeedType(url, text),
+      discoveryMethod: "anchor-link",
+    });
+
+    if (feeds.length >= MAX_ANCHOR_CANDIDATES) break;
+  }
+
+  return feeds;
+}
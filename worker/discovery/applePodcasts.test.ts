@@ -0,0 +1,114 @@
+import { errAsync, okAsync } from "neverthrow";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { findApplePodcastFeeds, findApplePodcastId } from "./applePodcasts";
+
+vi.mock("../net/fetch", () => ({
+  fetchWithRedirects: vi.fn(),
+}));
+
+import { fetchWithRedirects } from "../net/fetch";
+
+const mockFetchWithRedirects = vi.mocked(fetchWithRedirects);
+
+const showUrl = "https://podcasts.apple.com/us/podcast/the-daily/id1200361736";
+
+function serveLookup(body: unknown) {
+  mockFetchWithRedirects.mockImplementation((url) =>
+    okAsync({ response: Response.json(body), url }),
+  );
+}
+
+describe("discovery/applePodcasts", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("findApplePodcastId", () => {
+    it("should read the show ID from show and episode pages", () => {
+      expect(findApplePodcastId(showUrl)).toBe("1200361736");
+      expect(
+        findApplePodcastId(
+          "https://podcasts.apple.com/gb/podcast/the-daily/id1200361736?i=1000650000000",
+        ),
+      ).toBe("1200361736");
+      expect(
+        findApplePodcastId("https://itunes.apple.com/podcast/id1200361736"),
+      ).toBe("1200361736");
+    });
+
+    it("should ignore other pages and hosts", () => {
+      expect(findApplePodcastId("https://podcasts.apple.com/us/browse")).toBe(
+        null,
+      );
+      expect(findApplePodcastId("https://example.com/podcast/id123")).toBe(
+        null,
+      );
+    });
+  });
+
+  describe("findApplePodcastFeeds", () => {
+    it("should look up the show's RSS feed", async () => {
+      serveLookup({
+        resultCount: 1,
+        results: [
+          {
+            wrapperType: "track",
+            kind: "podcast",
+            collectionName: "The Daily",
+            feedUrl: "https://feeds.simplecast.com/54nAGcIl",
+          },
+        ],
+      });
+
+      const result = await findApplePodcastFeeds(showUrl);
+
+      expect(mockFetchWithRedirects).toHaveBeenCalledWith(
+        "https://itunes.apple.com/lookup?id=1200361736&entity=podcast",
+        { headers: { Accept: "application/json" } },
+      );
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toEqual([
+          {
+            url: "https://feeds.simplecast.com/54nAGcIl",
+            title: "The Daily",
+            type: "RSS",
+            discoveryMethod: "site-rule",
+            siteRule: "Apple Podcasts",
+          },
+        ]);
+      }
+    });
+
+    it("should skip results without an HTTP(S) feed URL", async () => {
+      serveLookup({
+        results: [
+          { collectionName: "Apple Music show" },
+          { collectionName: "Odd", feedUrl: "javascript:alert(1)" },
+          { collectionName: "Broken", feedUrl: "http://" },
+        ],
+      });
+
+      const result = await findApplePodcastFeeds(showUrl);
+
+      expect(result.isOk() && result.value).toEqual([]);
+    });
+
+    it("should resolve to no feeds when the lookup fails", async () => {
+      mockFetchWithRedirects.mockReturnValue(
+        errAsync({ type: "TIMEOUT_ERROR", message: "Request timed out" }),
+      );
+
+      const result = await findApplePodcastFeeds(showUrl);
+
+      expect(result.isOk() && result.value).toEqual([]);
+    });
+
+    it("should not look anything up for other URLs", async () => {
+      const result = await findApplePodcastFeeds("https://example.com/");
+
+      expect(mockFetchWithRedirects).not.toHaveBeenCalled();
+      expect(result.isOk() && result.value).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { okAsync, Result, type ResultAsync } from "neverthrow";
+import {
+  APPLE_PODCASTS_LOOKUP_URL,
+  DEFAULT_FEED_TITLE,
+  MAX_PODCAST_LOOKUP_BYTES,
+} from "../config";
+import { readLimitedText } from "../net/body";
+import { fetchWithRedirects } from "../net/fetch";
+import type { FeedResult } from "../types";
+
+/**
+ * Hosts that serve Apple Podcasts show pages
+ */
+const APPLE_PODCASTS_HOSTS = new Set([
+  "podcasts.apple.com",
+  "itunes.apple.com",
+]);
+
+/**
+ * Show pages end in the show's ID, e.g.
+ * https://podcasts.apple.com/us/podcast/the-daily/id1200361736
+ */
+const APPLE_PODCAST_ID_SEGMENT = /^id(\d+)$/;
+
+/**
+ * The show ID of an Apple Podcasts page, or null for any other URL
+ */
+export function findApplePodcastId(pageUrl: string): string | null {
+  const urlResult = Result.fromThrowable(
+    () => new URL(pageUrl),
+    () => null,
+  )();
+  if (urlResult.isErr()) return null;
+
+  const url = urlResult.value;
+  if (!APPLE_PODCASTS_HOSTS.has(url.hostname)) return null;
+
+  for (const segment of url.pathname.split("/").reverse()) {
+    const match = APPLE_PODCAST_ID_SEGMENT.exec(segment);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+/**
+ * A lookup result's feed URL, if it is an HTTP(S) URL that parses:
+ * Apple's directory holds whatever podcasters submitted
+ */
+function parseHttpUrl(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  return Result.fromThrowable(
+    () => new URL(value),
+    () => null,
+  )()
+    .map((url) =>
+      url.protocol === "http:" || url.protocol === "https:" ? url.href : null,
+    )
+    .unwrapOr(null);
+}
+
+/**
+ * Read the feeds out of an iTunes Search API lookup response
+ */
+function parseLookupFeeds(json: string): FeedResult[] {
+  const parsed = Result.fromThrowable(
+    () => JSON.parse(json) as unknown,
+    () => null,
+  )();
+  if (parsed.isErr() || !parsed.value || typeof parsed.value !== "object") {
+    return [];
+  }
+
+  const { results } = parsed.value as { results?: unknown };
+  if (!Array.isArray(results)) return [];
+
+  return results.flatMap((entry): FeedResult[] => {
+    const { feedUrl, collectionName } = (entry ?? {}) as {
+      feedUrl?: unknown;
+      collectionName?: unknown;
+    };
+    const url = parseHttpUrl(feedUrl);
+    if (!url) return [];
+    return [
+      {
+        url,
+        title:
+          typeof collectionName === "string"
+            ? collectionName
+            : DEFAULT_FEED_TITLE,
+        type: "RSS",
+        discoveryMethod: "site-rule",
+        siteRule: "Apple Podcasts",
+      },
+    ];
+  });
+}
+
+/**
+ * Resolve an Apple Podcasts show page to the podcast's own RSS feed.
+ * Apple's pages do not link the feed, so the iTunes Search API is asked for
+ * it. Other URLs, and lookups that fail, resolve to no feeds.
+ */
+export function findApplePodcastFeeds(
+  pageUrl: string,
+): ResultAsync<FeedResult[], never> {
+  const podcastId = findApplePodcastId(pageUrl);
+  if (!podcastId) return okAsync([]);
+
+  return fetchWithRedirects(
+    `${APPLE_PODCASTS_LOOKUP_URL}?id=${podcastId}&entity=podcast`,
+    { headers: { Accept: "application/json" } },
+  )
+    .andThen(({ response }) =>
+      readLimitedText(response, MAX_PODCAST_LOOKUP_BYTES),
+    )
+    .map(({ text }) => parseLookupFeeds(text))
+    .orElse(() => okAsync([]));
+}
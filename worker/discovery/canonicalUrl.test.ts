@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { canonicalFeedKey } from "./canonicalUrl";
+
+describe("discovery/canonicalUrl", () => {
+  describe("canonicalFeedKey", () => {
+    it("should ignore the scheme, www. and the host's case", () => {
+      const key = canonicalFeedKey("https://example.com/feed");
+
+      expect(canonicalFeedKey("http://example.com/feed")).toBe(key);
+      expect(canonicalFeedKey("https://www.example.com/feed")).toBe(key);
+      expect(canonicalFeedKey("https://EXAMPLE.com/feed")).toBe(key);
+    });
+
+    it("should ignore trailing slashes, fragments and default ports", () => {
+      const key = canonicalFeedKey("https://example.com/feed");
+
+      expect(canonicalFeedKey("https://example.com/feed/")).toBe(key);
+      expect(canonicalFeedKey("https://example.com/feed#latest")).toBe(key);
+      expect(canonicalFeedKey("https://example.com:443/feed")).toBe(key);
+      expect(canonicalFeedKey("https://example.com")).toBe(
+        canonicalFeedKey("https://example.com/"),
+      );
+    });
+
+    it("should ignore tracking parameters and query order", () => {
+      expect(
+        canonicalFeedKey(
+          "https://example.com/index.php?utm_source=rss&page=2&feed=rss2",
+        ),
+      ).toBe(
+        canonicalFeedKey("https://example.com/index.php?feed=rss2&page=2"),
+      );
+    });
+
+    it("should compare format parameters case-insensitively", () => {
+      expect(canonicalFeedKey("https://example.com/blog?format=RSS")).toBe(
+        canonicalFeedKey("https://example.com/blog/?format=rss"),
+      );
+    });
+
+    it("should keep the path's case, other ports and other parameters", () => {
+      const key = canonicalFeedKey("https://example.com/feed?page=2");
+
+      expect(canonicalFeedKey("https://example.com/Feed?page=2")).not.toBe(key);
+      expect(canonicalFeedKey("https://example.com:8443/feed?page=2")).not.toBe(
+        key,
+      );
+      expect(canonicalFeedKey("https://example.com/feed?page=3")).not.toBe(key);
+    });
+
+    it("should return unparseable URLs unchanged", () => {
+      expect(canonicalFeedKey("not a url")).toBe("not a url");
+    });
+  });
+});
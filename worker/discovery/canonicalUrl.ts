@@ -0,0 +1,51 @@
+import { Result } from "neverthrow";
+
+/**
+ * Query parameters that only record where a visitor came from
+ */
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid)$/i;
+
+/**
+ * Query parameters that select a feed format, whose values are compared
+ * case-insensitively (?format=RSS and ?format=rss)
+ */
+const FORMAT_PARAMS = new Set(["feed", "format", "type"]);
+
+function compareParams(
+  [name, value]: [string, string],
+  [otherName, otherValue]: [string, string],
+): number {
+  if (name !== otherName) return name < otherName ? -1 : 1;
+  if (value !== otherValue) return value < otherValue ? -1 : 1;
+  return 0;
+}
+
+/**
+ * Key under which equivalent spellings of a feed URL compare equal.
+ * The scheme, a leading "www.", trailing slashes, the fragment, tracking
+ * parameters, the order of query parameters and the case of format
+ * parameters are ignored; URLs that cannot be parsed are their own key.
+ */
+export function canonicalFeedKey(feedUrl: string): string {
+  const urlResult = Result.fromThrowable(
+    () => new URL(feedUrl),
+    () => null,
+  )();
+  if (urlResult.isErr()) return feedUrl;
+
+  const url = urlResult.value;
+  // URL already lower-cases the host and drops the scheme's default port
+  const host = url.hostname.replace(/^www\./, "");
+  const port = url.port ? `:${url.port}` : "";
+  const path = url.pathname.replace(/\/+$/, "") || "/";
+  const params = [...url.searchParams]
+    .filter(([name]) => !TRACKING_PARAMS.test(name))
+    .map(([name, value]): [string, string] => [
+      name,
+      FORMAT_PARAMS.has(name.toLowerCase()) ? value.toLowerCase() : value,
+    ])
+    .sort(compareParams);
+  const query = new URLSearchParams(params).toString();
+
+  return `${host}${port}${path}${query ? `?${query}` : ""}`;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { detectCms, getCmsFeedPaths } from "./cms";
+
+function page(generator: string): string {
+  return `<html><head><meta name="generator" content="${generator}"></head></html>`;
+}
+
+describe("discovery/cms", () => {
+  describe("detectCms", () => {
+    it.each([
+      ["WordPress 6.4.2", "WordPress"],
+      ["Ghost 5.75", "Ghost"],
+      ["blogger", "Blogger"],
+      ["Hugo 0.121.1", "Hugo"],
+      ["Jekyll v4.3.2", "Jekyll"],
+      ["Tumblr", "Tumblr"],
+      ["Drupal 10 (https://www.drupal.org)", "Drupal"],
+    ])("should recognise the %s generator", (generator, platform) => {
+      expect(detectCms(page(generator))).toBe(platform);
+    });
+
+    it("should match the generator name case-insensitively", () => {
+      const html = '<meta NAME="Generator" content="WordPress 6.4">';
+
+      expect(detectCms(html)).toBe("WordPress");
+    });
+
+    it("should look past generator tags added by plugins", () => {
+      const html = `
+        <meta name="generator" content="Elementor 3.18.0">
+        <meta name="generator" content="WordPress 6.4.2">
+      `;
+
+      expect(detectCms(html)).toBe("WordPress");
+    });
+
+    it("should return null for unknown or missing generators", () => {
+      expect(detectCms(page("Eleventy v2.0.1"))).toBeNull();
+      expect(detectCms("<html><head></head></html>")).toBeNull();
+    });
+
+    it("should not match a platform name in the middle of the generator", () => {
+      expect(detectCms(page("Some theme for WordPress"))).toBeNull();
+    });
+  });
+
+  describe("getCmsFeedPaths", () => {
+    it("should list the WordPress feed paths", () => {
+      expect(getCmsFeedPaths("WordPress")).toEqual([
+        "/feed/",
+        "/comments/feed/",
+        "/?feed=rss2",
+      ]);
+    });
+
+    it("should list the Blogger feed paths", () => {
+      expect(getCmsFeedPaths("Blogger")).toEqual([
+        "/feeds/posts/default",
+        "/feeds/posts/default?alt=rss",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { Result } from "neverthrow";
+import { parse } from "node-html-parser";
+import type { CmsPlatform } from "../types";
+
+/**
+ * How to recognise a CMS and where it publishes its feeds
+ */
+interface CmsFingerprint {
+  platform: CmsPlatform;
+  /** Matched against the content of <meta name="generator"> */
+  generator: RegExp;
+  /** Feed paths the CMS serves, probed from the site root and the page */
+  feedPaths: string[];
+}
+
+const CMS_FINGERPRINTS: CmsFingerprint[] = [
+  {
+    platform: "WordPress",
+    generator: /^WordPress\b/i,
+    feedPaths: ["/feed/", "/comments/feed/", "/?feed=rss2"],
+  },
+  {
+    platform: "Ghost",
+    generator: /^Ghost\b/i,
+    feedPaths: ["/rss/"],
+  },
+  {
+    platform: "Blogger",
+    generator: /^Blogger\b/i,
+    feedPaths: ["/feeds/posts/default", "/feeds/posts/default?alt=rss"],
+  },
+  {
+    platform: "Hugo",
+    generator: /^Hugo\b/i,
+    feedPaths: ["/index.xml"],
+  },
+  {
+    platform: "Jekyll",
+    generator: /^Jekyll\b/i,
+    feedPaths: ["/feed.xml"],
+  },
+  {
+    platform: "Tumblr",
+    generator: /^Tumblr\b/i,
+    feedPaths: ["/rss"],
+  },
+  {
+    platform: "Drupal",
+    generator: /^Drupal\b/i,
+    feedPaths: ["/rss.xml"],
+  },
+];
+
+/**
+ * Identify the CMS behind a page from its <meta name="generator"> tags
+ */
+export function detectCms(html: string): CmsPlatform | null {
+  const docResult = Result.fromThrowable(
+    () => parse(html),
+    () => null,
+  )();
+  if (docResult.isErr()) return null;
+
+  // Plugins and themes may add generator tags of their own, so check them all
+  const generators = docResult.value
+    .querySelectorAll("meta")
+    .filter((meta) => meta.getAttribute("name")?.toLowerCase() === "generator")
+    .map((meta) => meta.getAttribute("content")?.trim() ?? "");
+
+  for (const generator of generators) {
+    const fingerprint = CMS_FINGERPRINTS.find((candidate) =>
+      candidate.generator.test(generator),
+    );
+    if (fingerprint) return fingerprint.platform;
+  }
+  return null;
+}
+
+/**
+ * Feed paths served by a CMS, as root-absolute paths
+ */
+export function getCmsFeedPaths(platform: CmsPlatform): string[] {
+  return (
+    CMS_FINGERPRINTS.find((fingerprint) => fingerprint.platform === platform)
+      ?.feedPaths ?? []
+  );
+}
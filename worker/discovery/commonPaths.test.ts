@@ -1,4 +1,4 @@
-import { err, ok, ResultAsync } from "neverthrow";
+import { err, ok, okAsync, ResultAsync } from "neverthrow";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { tryCommonPaths } from "./commonPaths";
 
@@ -11,15 +11,25 @@ vi.mock("../net/fetch", () => ({
   safeFetch: vi.fn(),
 }));
 
+vi.mock("../robots/policy", () => ({
+  robotsPolicy: { mode: "enforce", check: vi.fn() },
+}));
+
 import { safeFetch } from "../net/fetch";
+import { robotsPolicy } from "../robots/policy";
 import { validateTargetUrl } from "../validation/url";
 
 const mockValidateTargetUrl = vi.mocked(validateTargetUrl);
 const mockSafeFetch = vi.mocked(safeFetch);
+const mockRobotsCheck = vi.mocked(robotsPolicy.check);
 
 describe("discovery/commonPaths", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    // robots.txt permits every probe by default
+    mockRobotsCheck.mockImplementation((urls) =>
+      okAsync({ permittedUrls: urls, disallowedUrls: [] }),
+    );
   });
 
   describe("tryCommonPaths", () => {
@@ -50,8 +60,8 @@ describe("discovery/commonPaths", () => {
 
       expect(result.isOk()).toBe(true);
       if (result.isOk()) {
-        expect(result.value).toHaveLength(1);
-        expect(result.value[0]).toEqual({
+        expect(result.value.feeds).toHaveLength(1);
+        expect(result.value.feeds[0]).toEqual({
           url: "https://example.com/feed",
           title: "/feed feed",
           type: "RSS",
@@ -86,7 +96,72 @@ describe("discovery/commonPaths", () => {
 
       expect(result.isOk()).toBe(true);
       if (result.isOk()) {
-        expect(result.value[0].type).toBe("Atom");
+        expect(result.value.feeds[0].type).toBe("Atom");
+      }
+    });
+
+    it("should detect JSON Feeds from content-type", async () => {
+      const validUrl = new URL("https://example.com/feed.json");
+      mockValidateTargetUrl
+        .mockReturnValueOnce(ok(validUrl))
+        .mockReturnValue(
+          err({ type: "INVALID_URL_FORMAT", message: "Invalid" }),
+        );
+
+      const mockResponse = new Response(null, {
+        status: 200,
+        headers: {
+          "content-type": "application/feed+json; charset=utf-8",
+        },
+      });
+      mockSafeFetch.mockReturnValue(
+        ResultAsync.fromSafePromise(Promise.resolve(mockResponse)),
+      );
+
+      const result = await tryCommonPaths(baseUrl);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.feeds[0].type).toBe("JSON");
+      }
+    });
+
+    it("should collect feeds advertised in HEAD response Link headers", async () => {
+      const validUrl = new URL("https://example.com/feed");
+      mockValidateTargetUrl
+        .mockReturnValueOnce(ok(validUrl))
+        .mockReturnValueOnce(ok(new URL("https://example.com/feeds")))
+        .mockReturnValue(
+          err({ type: "INVALID_URL_FORMAT", message: "Invalid" }),
+        );
+
+      mockSafeFetch.mockImplementation(() =>
+        ResultAsync.fromSafePromise(
+          Promise.resolve(
+            new Response(null, {
+              status: 200,
+              headers: {
+                "content-type": "text/html",
+                link: '</atom.xml>; rel="alternate"; type="application/atom+xml"; title="Site Atom"',
+              },
+            }),
+          ),
+        ),
+      );
+
+      const result = await tryCommonPaths(baseUrl);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        // Both probes carry the same site-wide header; it is reported once
+        expect(result.value.feeds).toEqual([
+          {
+            url: "https://example.com/atom.xml",
+            title: "Site Atom",
+            type: "Atom",
+            discoveryMethod: "link-header",
+          },
+        ]);
       }
     });
 
@@ -99,6 +174,8 @@ describe("discovery/commonPaths", () => {
         "/feed.xml",
         "/atom.xml",
         "/index.xml",
+        "/feed.json",
+        "/index.json",
       ];
 
       // Mock validation success for all paths
@@ -122,7 +199,7 @@ describe("discovery/commonPaths", () => {
 
       expect(result.isOk()).toBe(true);
       if (result.isOk()) {
-        expect(result.value).toHaveLength(commonPaths.length);
+        expect(result.value.feeds).toHaveLength(commonPaths.length);
       }
 
       // Verify all paths were tested
@@ -157,7 +234,7 @@ describe("discovery/commonPaths", () => {
 
       expect(result.isOk()).toBe(true);
       if (result.isOk()) {
-        expect(result.value).toHaveLength(0); // No feeds found
+        expect(result.value.feeds).toHaveLength(0); // No feeds found
       }
     });
 
@@ -182,7 +259,7 @@ describe("discovery/commonPaths", () => {
 
       expect(result.isOk()).toBe(true);
       if (result.isOk()) {
-        expect(result.value).toHaveLength(0); // No feeds found due to fetch failure
+        expect(result.value.feeds).toHaveLength(0); // No feeds found due to fetch failure
       }
     });
 
@@ -199,7 +276,7 @@ describe("discovery/commonPaths", () => {
 
       expect(result.isOk()).toBe(true);
       if (result.isOk()) {
-        expect(result.value).toHaveLength(0); // No feeds found due to invalid URLs
+        expect(result.value.feeds).toHaveLength(0); // No feeds found due to invalid URLs
       }
 
       expect(mockSafeFetch).not.toHaveBeenCalled(); // Should not fetch invalid URLs
@@ -226,7 +303,7 @@ describe("discovery/commonPaths", () => {
 
       expect(result.isOk()).toBe(true);
       if (result.isOk()) {
-        expect(result.value).toHaveLength(0); // No feeds found without content-type
+        expect(result.value.feeds).toHaveLength(0); // No feeds found without content-type
       }
     });
 
@@ -253,8 +330,8 @@ describe("discovery/commonPaths", () => {
 
       expect(result.isOk()).toBe(true);
       if (result.isOk()) {
-        expect(result.value).toHaveLength(1);
-        expect(result.value[0].type).toBe("RSS"); // Default to RSS for XML
+        expect(result.value.feeds).toHaveLength(1);
+        expect(result.value.feeds[0].type).toBe("RSS"); // Default to RSS for XML
       }
     });
 
@@ -289,9 +366,9 @@ describe("discovery/commonPaths", () => {
 
       expect(result.isOk()).toBe(true);
       if (result.isOk()) {
-        expect(result.value).toHaveLength(commonPaths.length);
+        expect(result.value.feeds).toHaveLength(commonPaths.length);
         // Results might be in different order due to Promise.all
-        const titles = result.value.map((feed) => feed.title).sort();
+        const titles = result.value.feeds.map((feed) => feed.title).sort();
         const expectedTitles = commonPaths.map((path) => `${path} feed`).sort();
         expect(titles).toEqual(expectedTitles);
       }
@@ -332,12 +409,128 @@ describe("discovery/commonPaths", () => {
 
       expect(result.isOk()).toBe(true);
       if (result.isOk()) {
-        const feeds = result.value;
+        const feeds = result.value.feeds;
         expect(feeds).toHaveLength(1);
         expect(feeds[0].url).toBe(feedUrl);
         expect(feeds[0].type).toBe("RSS");
         expect(feeds[0].title).toBe("feed/ feed");
       }
     });
+
+    it("should only probe the detected CMS's feed paths", async () => {
+      mockValidateTargetUrl.mockImplementation((url: string) =>
+        ok(new URL(url)),
+      );
+      mockSafeFetch.mockImplementation((url: string) => {
+        if (url === "https://example.com/feed/") {
+          return ResultAsync.fromSafePromise(
+            Promise.resolve(
+              new Response(null, {
+                headers: { "content-type": "application/rss+xml" },
+              }),
+            ),
+          );
+        }
+        const error = { type: "FETCH_FAILED", message: "Not found" } as const;
+        return ResultAsync.fromPromise(Promise.reject(error), () => error);
+      });
+
+      const result = await tryCommonPaths("https://example.com/", "WordPress");
+
+      expect(mockSafeFetch.mock.calls.map(([url]) => url)).toEqual([
+        "https://example.com/feed/",
+        "https://example.com/comments/feed/",
+        "https://example.com/?feed=rss2",
+      ]);
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.feeds.map((feed) => feed.url)).toEqual([
+          "https://example.com/feed/",
+        ]);
+      }
+    });
+
+    it("should report every probe and whether it found a feed", async () => {
+      mockValidateTargetUrl.mockImplementation((url: string) =>
+        ok(new URL(url)),
+      );
+      mockSafeFetch.mockImplementation((url: string) =>
+        ResultAsync.fromSafePromise(
+          Promise.resolve(
+            new Response(null, {
+              headers: {
+                "content-type":
+                  url === "https://example.com/rss/"
+                    ? "application/rss+xml"
+                    : "text/html",
+              },
+            }),
+          ),
+        ),
+      );
+      const onProgress = vi.fn();
+
+      await tryCommonPaths("https://example.com/blog/", "Ghost", onProgress);
+
+      expect(onProgress.mock.calls.map(([event]) => event)).toEqual([
+        { type: "probe", url: "https://example.com/rss/", found: true },
+        { type: "probe", url: "https://example.com/blog/rss/", found: false },
+      ]);
+    });
+
+    it("should skip paths that robots.txt disallows and list them", async () => {
+      mockValidateTargetUrl.mockImplementation((url: string) =>
+        ok(new URL(url)),
+      );
+      mockRobotsCheck.mockImplementation((urls) =>
+        okAsync({
+          permittedUrls: urls.filter(
+            (url) => url !== "https://example.com/rss/",
+          ),
+          disallowedUrls: ["https://example.com/rss/"],
+        }),
+      );
+      mockSafeFetch.mockImplementation(() =>
+        ResultAsync.fromSafePromise(
+          Promise.resolve(
+            new Response(null, { headers: { "content-type": "text/html" } }),
+          ),
+        ),
+      );
+
+      const result = await tryCommonPaths("https://example.com/", "Ghost");
+
+      expect(mockRobotsCheck).toHaveBeenCalledWith([
+        "https://example.com/rss/",
+      ]);
+      expect(mockSafeFetch).not.toHaveBeenCalled();
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toEqual({
+          feeds: [],
+          disallowedUrls: ["https://example.com/rss/"],
+        });
+      }
+    });
+
+    it("should probe CMS feed paths relative to a subdirectory page", async () => {
+      mockValidateTargetUrl.mockImplementation((url: string) =>
+        ok(new URL(url)),
+      );
+      mockSafeFetch.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve(
+            new Response(null, { headers: { "content-type": "text/html" } }),
+          ),
+        ),
+      );
+
+      await tryCommonPaths("https://example.com/blog/", "Ghost");
+
+      expect(mockSafeFetch.mock.calls.map(([url]) => url)).toEqual([
+        "https://example.com/rss/",
+        "https://example.com/blog/rss/",
+      ]);
+    });
   });
 });
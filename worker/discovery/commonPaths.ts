@@ -1,14 +1,42 @@
 import { ok, Result, ResultAsync } from "neverthrow";
 import { safeFetch } from "../net/fetch";
-import type { FeedDiscoveryError, FeedResult } from "../types";
+import { robotsPolicy } from "../robots/policy";
+import type {
+  CmsPlatform,
+  CrawlResult,
+  FeedDiscoveryError,
+  FeedResult,
+  ProgressReporter,
+} from "../types";
 import { validateTargetUrl } from "../validation/url";
+import { getCmsFeedPaths } from "./cms";
+import { extractFeedTypeTitle } from "./html";
+import { findLinkHeaderFeeds } from "./linkHeader";
 
 /**
- * Try to discover feeds from common feed paths
+ * Paths to probe for a site whose CMS was identified: the CMS's own feed
+ * paths from the domain root, and relative to the page for sites installed
+ * in a subdirectory
+ */
+function cmsPaths(platform: CmsPlatform): string[] {
+  const rootPaths = getCmsFeedPaths(platform);
+  const relativePaths = rootPaths
+    .map((path) => path.slice(1))
+    .filter((path) => !path.startsWith("?"));
+  return [...rootPaths, ...relativePaths];
+}
+
+/**
+ * Try to discover feeds from common feed paths, or from the CMS's own feed
+ * paths when the site's platform is known. Paths the site's robots.txt
+ * disallows are skipped when it is enforced. Each finished probe is
+ * reported to `onProgress`.
  */
 export function tryCommonPaths(
   baseUrl: string,
-): ResultAsync<FeedResult[], FeedDiscoveryError> {
+  platform?: CmsPlatform,
+  onProgress?: ProgressReporter,
+): ResultAsync<CrawlResult, FeedDiscoveryError> {
   // Root level paths (absolute from domain root)
   const rootPaths = [
     "/feed",
@@ -18,6 +46,8 @@ export function tryCommonPaths(
     "/feed.xml",
     "/atom.xml",
     "/index.xml",
+    "/feed.json", // JSON Feed
+    "/index.json", // JSON Feed (Hugo, Micro.blog)
   ];
 
   // Relative paths from current URL path (Issue #35)
@@ -31,9 +61,13 @@ export function tryCommonPaths(
     "index.xml",
   ];
 
-  const commonPaths = [...rootPaths, ...relativePaths];
+  const commonPaths = platform
+    ? cmsPaths(platform)
+    : [...rootPaths, ...relativePaths];
 
-  // Create all feed URLs first and filter valid ones
+  // Create all feed URLs first and filter valid ones.
+  // At the site root, root and relative paths coincide; probe each URL once.
+  const probedUrls = new Set<string>();
   const validFeedUrls = commonPaths
     .map((path) => {
       const urlResult = Result.fromThrowable(
@@ -45,37 +79,64 @@ export function tryCommonPaths(
 
       const feedUrl = urlResult.value;
       const validation = validateTargetUrl(feedUrl);
-      return validation.isOk() ? { path, url: validation.value.href } : null;
+      if (validation.isErr() || probedUrls.has(validation.value.href)) {
+        return null;
+      }
+      probedUrls.add(validation.value.href);
+      return { path, url: validation.value.href };
     })
     .filter((item): item is { path: string; url: string } => item !== null);
 
-  // Process all valid URLs in parallel using Promise.all()
-  // Use HEAD requests for efficient content-type checking
-  const feedPromises = validFeedUrls.map(
-    ({ path, url }) =>
-      safeFetch(url, { method: "HEAD" })
-        .map((response) => {
-          const contentType = response.headers.get("content-type") || "";
-          // More specific content-type checking to reduce false positives
-          const isFeed =
-            /^(application\/(rss|atom|rdf)\+xml|text\/xml|application\/xml)/.test(
-              contentType.toLowerCase(),
-            );
+  const probe = ({ path, url }: { path: string; url: string }) =>
+    // Use HEAD requests for efficient content-type checking
+    safeFetch(url, { method: "HEAD" })
+      .map((response): FeedResult[] => {
+        // HEAD responses may also advertise feeds in Link headers
+        const linkHeaderFeeds = findLinkHeaderFeeds(response.headers, url);
+
+        const contentType = response.headers.get("content-type") || "";
+        // More specific content-type checking to reduce false positives
+        const isFeed =
+          /^(application\/(rss|atom|rdf)\+xml|text\/xml|application\/xml|application\/(feed\+)?json)/.test(
+            contentType.toLowerCase(),
+          );
 
-          if (isFeed) {
-            return {
+        if (isFeed) {
+          return [
+            {
               url,
               title: `${path} feed`,
-              type: contentType.includes("atom") ? "Atom" : "RSS",
+              type: extractFeedTypeTitle(contentType),
               discoveryMethod: "common-path",
-            } as FeedResult;
-          }
-          return null;
-        })
-        .orElse(() => ok(null)), // Convert errors to null (failed attempts are ok)
-  );
+            },
+            ...linkHeaderFeeds,
+          ];
+        }
+        return linkHeaderFeeds;
+      })
+      .orElse(() => ok([])) // Convert errors to no feeds (failed attempts are ok)
+      .map((feeds) => {
+        onProgress?.({ type: "probe", url, found: feeds.length > 0 });
+        return feeds;
+      });
 
-  return ResultAsync.combine(feedPromises).map((results) =>
-    results.filter((feed): feed is FeedResult => feed !== null),
-  );
+  return robotsPolicy
+    .check(validFeedUrls.map(({ url }) => url))
+    .andThen(({ permittedUrls, disallowedUrls }) =>
+      // Process all permitted URLs in parallel
+      ResultAsync.combine(
+        validFeedUrls
+          .filter(({ url }) => permittedUrls.includes(url))
+          .map(probe),
+      ).map((results) => {
+        // Site-wide Link headers repeat on every probe, so keep the first of each URL
+        const foundUrls = new Set<string>();
+        const feeds = results.flat().filter((feed) => {
+          if (foundUrls.has(feed.url)) return false;
+          foundUrls.add(feed.url);
+          return true;
+        });
+        return { feeds, disallowedUrls };
+      }),
+    );
 }
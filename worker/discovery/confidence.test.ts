@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import type { FeedResult } from "../types";
+import { scoreFeed } from "./confidence";
+
+const pageUrl = "https://example.com/";
+const now = Date.parse("2026-06-15T12:00:00Z");
+
+const advertisedFeed: FeedResult = {
+  url: "https://www.example.com/feed/",
+  type: "RSS",
+  discoveryMethod: "meta-tag",
+  verification: "verified",
+  contentType: "application/rss+xml",
+  metadata: {
+    itemCount: 10,
+    lastUpdated: "2026-06-10T08:00:00Z",
+    sampleItemTitles: [],
+  },
+};
+
+function pointsBy(feed: FeedResult) {
+  return Object.fromEntries(
+    scoreFeed(feed, pageUrl, now).reasons.map(({ factor, points }) => [
+      factor,
+      points,
+    ]),
+  );
+}
+
+describe("discovery/confidence", () => {
+  describe("scoreFeed", () => {
+    it("should give a fresh, verified, advertised feed full marks", () => {
+      const confidence = scoreFeed(advertisedFeed, pageUrl, now);
+
+      expect(confidence.score).toBe(100);
+      expect(confidence.reasons).toEqual([
+        {
+          factor: "discovery-method",
+          points: 30,
+          detail: "Advertised in the page's <link> tags",
+        },
+        {
+          factor: "verification",
+          points: 30,
+          detail: "Fetched and parsed as a feed",
+        },
+        {
+          factor: "content-type",
+          points: 15,
+          detail: "Served as application/rss+xml",
+        },
+        { factor: "freshness", points: 15, detail: "Newest item 5 days old" },
+        {
+          factor: "same-origin",
+          points: 10,
+          detail: "Hosted on the same site",
+        },
+      ]);
+    });
+
+    it("should rank guessed and unverified feeds lower", () => {
+      const guessed = scoreFeed(
+        {
+          url: "https://example.com/rss",
+          type: "RSS",
+          discoveryMethod: "common-path",
+          verification: "unverified",
+        },
+        pageUrl,
+        now,
+      );
+
+      expect(guessed.score).toBe(10 + 10 + 0 + 3 + 10);
+    });
+
+    it("should give fewer points to generic and mismatched content types", () => {
+      expect(
+        pointsBy({ ...advertisedFeed, contentType: "text/xml" })[
+          "content-type"
+        ],
+      ).toBe(8);
+      expect(
+        pointsBy({ ...advertisedFeed, contentType: "application/atom+xml" })[
+          "content-type"
+        ],
+      ).toBe(8);
+      expect(
+        pointsBy({
+          ...advertisedFeed,
+          type: "JSON",
+          contentType: "application/json",
+        })["content-type"],
+      ).toBe(8);
+      expect(
+        pointsBy({ ...advertisedFeed, contentType: "text/html" })[
+          "content-type"
+        ],
+      ).toBe(0);
+    });
+
+    it("should score freshness by the age of the newest item", () => {
+      const updatedOn = (lastUpdated: string) =>
+        pointsBy({
+          ...advertisedFeed,
+          metadata: { itemCount: 1, lastUpdated, sampleItemTitles: [] },
+        })["freshness"];
+
+      expect(updatedOn("2026-03-01T00:00:00Z")).toBe(8);
+      expect(updatedOn("2023-01-01T00:00:00Z")).toBe(0);
+      expect(
+        pointsBy({ ...advertisedFeed, metadata: undefined })["freshness"],
+      ).toBe(3);
+    });
+
+    it("should name the host of feeds hosted elsewhere", () => {
+      const confidence = scoreFeed(
+        { ...advertisedFeed, url: "https://feeds.feedburner.com/example" },
+        pageUrl,
+        now,
+      );
+
+      expect(confidence.reasons.at(-1)).toEqual({
+        factor: "same-origin",
+        points: 0,
+        detail: "Hosted on feeds.feedburner.com",
+      });
+    });
+
+    it("should score feeds whose URL does not parse", () => {
+      const confidence = scoreFeed(
+        { ...advertisedFeed, url: "http://" },
+        pageUrl,
+        now,
+      );
+
+      expect(confidence.reasons.at(-1)).toEqual({
+        factor: "same-origin",
+        points: 0,
+        detail: "Invalid feed URL",
+      });
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { Result } from "neverthrow";
+import { SUPPORTED_FEED_TYPES } from "../config";
+import type {
+  ConfidenceReason,
+  DiscoveryMethod,
+  FeedConfidence,
+  FeedResult,
+  FeedType,
+  FeedVerificationStatus,
+} from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Points for how a feed was found: feeds the site advertises outrank
+ * probed paths, sitemap entries and page links
+ */
+const METHOD_POINTS: Record<DiscoveryMethod, number> = {
+  "site-rule": 30,
+  "meta-tag": 30,
+  "link-header": 25,
+  sitemap: 15,
+  "common-path": 10,
+  "anchor-link": 10,
+};
+
+const METHOD_DETAILS: Record<DiscoveryMethod, string> = {
+  "site-rule": "Known feed URL for the platform",
+  "meta-tag": "Advertised in the page's <link> tags",
+  "link-header": "Advertised in the page's Link header",
+  sitemap: "Listed in the site's sitemap",
+  "common-path": "Found by probing a common feed path",
+  "anchor-link": "Linked from the page",
+};
+
+const VERIFICATION_POINTS: Record<FeedVerificationStatus, number> = {
+  verified: 30,
+  unverified: 10,
+  invalid: 0,
+};
+
+const VERIFICATION_DETAILS: Record<FeedVerificationStatus, string> = {
+  verified: "Fetched and parsed as a feed",
+  unverified: "Could not be fetched to check",
+  invalid: "Fetched, but is not a feed",
+};
+
+/**
+ * Media types naming each feed format exactly; the other supported types
+ * (generic XML and JSON) are accepted with fewer points
+ */
+const FORMAT_MEDIA_TYPES: Record<FeedType, string[]> = {
+  RSS: ["application/rss+xml", "application/rdf+xml"],
+  Atom: ["application/atom+xml"],
+  JSON: ["application/feed+json"],
+};
+
+/**
+ * Media types feeds are served with; JSON Feeds are often served as plain
+ * application/json, though pages cannot advertise them with it
+ */
+const SERVED_FEED_TYPES = [...SUPPORTED_FEED_TYPES, "application/json"];
+
+function scoreMethod(feed: FeedResult): ConfidenceReason {
+  return {
+    factor: "discovery-method",
+    points: METHOD_POINTS[feed.discoveryMethod],
+    detail: METHOD_DETAILS[feed.discoveryMethod],
+  };
+}
+
+function scoreVerification(feed: FeedResult): ConfidenceReason {
+  const status = feed.verification ?? "unverified";
+  return {
+    factor: "verification",
+    points: VERIFICATION_POINTS[status],
+    detail: VERIFICATION_DETAILS[status],
+  };
+}
+
+function scoreContentType({ contentType, type }: FeedResult): ConfidenceReason {
+  if (!contentType) {
+    return { factor: "content-type", points: 0, detail: "No content type" };
+  }
+  if (FORMAT_MEDIA_TYPES[type].includes(contentType)) {
+    return {
+      factor: "content-type",
+      points: 15,
+      detail: `Served as ${contentType}`,
+    };
+  }
+  if (SERVED_FEED_TYPES.includes(contentType)) {
+    return {
+      factor: "content-type",
+      points: 8,
+      detail: `Served as generic ${contentType}`,
+    };
+  }
+  return {
+    factor: "content-type",
+    points: 0,
+    detail: `Served as ${contentType}, not a feed type`,
+  };
+}
+
+function scoreFreshness(feed: FeedResult, now: number): ConfidenceReason {
+  const lastUpdated = Date.parse(feed.metadata?.lastUpdated ?? "");
+  if (Number.isNaN(lastUpdated)) {
+    return { factor: "freshness", points: 3, detail: "No dated items" };
+  }
+
+  const ageDays = Math.max(0, Math.floor((now - lastUpdated) / DAY_MS));
+  const detail = `Newest item ${ageDays} ${ageDays === 1 ? "day" : "days"} old`;
+  if (ageDays <= 30) return { factor: "freshness", points: 15, detail };
+  if (ageDays <= 365) return { factor: "freshness", points: 8, detail };
+  return { factor: "freshness", points: 0, detail };
+}
+
+/**
+ * A URL's host without "www.", or null when the URL does not parse
+ */
+function siteHost(url: string): string | null {
+  return Result.fromThrowable(
+    () => new URL(url).hostname.replace(/^www\./, ""),
+    () => null,
+  )().unwrapOr(null);
+}
+
+function scoreOrigin(feed: FeedResult, pageUrl: string): ConfidenceReason {
+  const feedHost = siteHost(feed.url);
+  if (feedHost === null) {
+    return { factor: "same-origin", points: 0, detail: "Invalid feed URL" };
+  }
+  return feedHost === siteHost(pageUrl)
+    ? { factor: "same-origin", points: 10, detail: "Hosted on the same site" }
+    : { factor: "same-origin", points: 0, detail: `Hosted on ${feedHost}` };
+}
+
+/**
+ * Score how likely a feed is the one to subscribe to, from 0 to 100, with
+ * the points each factor contributed: how it was discovered, whether it
+ * verified, whether its content type names its format, how recent its
+ * newest item is, and whether it is hosted on the searched site.
+ */
+export function scoreFeed(
+  feed: FeedResult,
+  pageUrl: string,
+  now = Date.now(),
+): FeedConfidence {
+  const reasons = [
+    scoreMethod(feed),
+    scoreVerification(feed),
+    scoreContentType(feed),
+    scoreFreshness(feed, now),
+    scoreOrigin(feed, pageUrl),
+  ];
+  return {
+    score: reasons.reduce((score, reason) => score + reason.points, 0),
+    reasons,
+  };
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import type { FeedResult } from "../types";
+import { dedupeFeeds } from "./dedupe";
+
+function feed(
+  url: string,
+  discoveryMethod: FeedResult["discoveryMethod"],
+  extra: Partial<FeedResult> = {},
+): FeedResult {
+  return {
+    url,
+    type: "RSS",
+    discoveryMethod,
+    verification: "verified",
+    ...extra,
+  };
+}
+
+describe("discovery/dedupe", () => {
+  describe("dedupeFeeds", () => {
+    it("should merge spellings of one URL into the best-labelled feed", () => {
+      const feeds = dedupeFeeds([
+        feed("https://example.com/feed", "common-path"),
+        feed("http://www.example.com/feed/", "meta-tag", { title: "Posts" }),
+        feed("https://example.com/comments/feed", "meta-tag"),
+      ]);
+
+      expect(feeds).toEqual([
+        feed("http://www.example.com/feed/", "meta-tag", {
+          title: "Posts",
+          alternateUrls: ["https://example.com/feed"],
+        }),
+        feed("https://example.com/comments/feed", "meta-tag"),
+      ]);
+    });
+
+    it("should merge candidates that redirect to another candidate", () => {
+      const feeds = dedupeFeeds([
+        feed("https://example.com/feed.xml", "meta-tag"),
+        feed("https://example.com/rss", "common-path", {
+          finalUrl: "https://example.com/feed.xml",
+        }),
+      ]);
+
+      expect(feeds).toEqual([
+        feed("https://example.com/feed.xml", "meta-tag", {
+          alternateUrls: ["https://example.com/rss"],
+        }),
+      ]);
+    });
+
+    it("should merge candidates declaring the same self URL", () => {
+      const feeds = dedupeFeeds([
+        feed("https://example.com/atom.xml", "common-path", {
+          selfUrl: "https://example.com/feed.atom",
+        }),
+        feed("https://example.com/index.atom", "anchor-link", {
+          selfUrl: "https://example.com/feed.atom",
+        }),
+      ]);
+
+      expect(feeds.map((f) => f.url)).toEqual(["https://example.com/atom.xml"]);
+      expect(feeds[0].alternateUrls).toEqual([
+        "https://example.com/index.atom",
+      ]);
+    });
+
+    it("should merge transitively, in the first member's position", () => {
+      const feeds = dedupeFeeds([
+        feed("https://example.com/rss", "common-path"),
+        feed("https://example.com/atom.xml", "common-path"),
+        feed("https://example.com/rss.xml", "sitemap", {
+          selfUrl: "https://example.com/rss/",
+          finalUrl: "https://example.com/feed",
+        }),
+        feed("https://example.com/feed", "link-header"),
+      ]);
+
+      expect(feeds).toEqual([
+        feed("https://example.com/feed", "link-header", {
+          alternateUrls: [
+            "https://example.com/rss",
+            "https://example.com/rss.xml",
+          ],
+        }),
+        feed("https://example.com/atom.xml", "common-path"),
+      ]);
+    });
+
+    it("should prefer a verified feed over a better-labelled broken one", () => {
+      const feeds = dedupeFeeds([
+        feed("http://example.com/feed", "meta-tag", {
+          verification: "unverified",
+        }),
+        feed("https://example.com/feed/", "common-path"),
+      ]);
+
+      expect(feeds.map((f) => f.url)).toEqual(["https://example.com/feed/"]);
+    });
+
+    it("should leave distinct feeds alone", () => {
+      const distinct = [
+        feed("https://example.com/feed", "meta-tag"),
+        feed("https://example.com/feed?page=2", "meta-tag"),
+      ];
+
+      expect(dedupeFeeds(distinct)).toEqual(distinct);
+    });
+  });
+});
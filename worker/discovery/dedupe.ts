@@ -0,0 +1,108 @@
+import type {
+  DiscoveryMethod,
+  FeedResult,
+  FeedVerificationStatus,
+} from "../types";
+import { canonicalFeedKey } from "./canonicalUrl";
+
+/**
+ * Discovery methods from the best-labelled to the least: a site's own
+ * <link> tags name and title a feed better than a probed path does
+ */
+const METHOD_ORDER: DiscoveryMethod[] = [
+  "site-rule",
+  "meta-tag",
+  "link-header",
+  "common-path",
+  "sitemap",
+  "anchor-link",
+];
+
+/**
+ * Verification outcomes from the most to the least trustworthy
+ */
+const VERIFICATION_ORDER: FeedVerificationStatus[] = [
+  "verified",
+  "unverified",
+  "invalid",
+];
+
+/**
+ * Canonical keys of every URL a feed is known by: its own, the one it
+ * redirects to and the self URL it declares
+ */
+function feedKeys(feed: FeedResult): string[] {
+  return [feed.url, feed.finalUrl, feed.selfUrl]
+    .filter((url): url is string => url !== undefined)
+    .map(canonicalFeedKey);
+}
+
+/**
+ * Lower ranks make better representatives: verified feeds first, then the
+ * best-labelled discovery method
+ */
+function representativeRank(feed: FeedResult): number {
+  return (
+    VERIFICATION_ORDER.indexOf(feed.verification ?? "unverified") *
+      METHOD_ORDER.length +
+    METHOD_ORDER.indexOf(feed.discoveryMethod)
+  );
+}
+
+/**
+ * Keep one representative of feeds found under several URLs, listing the
+ * URLs it absorbed
+ */
+function mergeGroup(members: FeedResult[]): FeedResult {
+  // Sorting is stable, so equally ranked members keep discovery order
+  const [representative] = [...members].sort(
+    (feed, other) => representativeRank(feed) - representativeRank(other),
+  );
+  const alternateUrls = [
+    ...new Set(
+      members
+        .map((member) => member.url)
+        .filter((url) => url !== representative.url),
+    ),
+  ];
+  return alternateUrls.length > 0
+    ? { ...representative, alternateUrls }
+    : representative;
+}
+
+/**
+ * Merge feeds that are one feed under different URLs: spellings with the
+ * same canonical key (see canonicalFeedKey), redirects to another
+ * candidate, and candidates declaring the same self URL. Feeds that share
+ * any of these are merged transitively, in the position of the first one
+ * discovered.
+ */
+export function dedupeFeeds(feeds: FeedResult[]): FeedResult[] {
+  // Union-find over feed indices; each group's root is its earliest feed
+  const parent = feeds.map((_, index) => index);
+  const findRoot = (index: number): number => {
+    let root = index;
+    while (parent[root] !== root) root = parent[root];
+    return root;
+  };
+
+  const firstFeedWithKey = new Map<string, number>();
+  feeds.forEach((feed, index) => {
+    for (const key of feedKeys(feed)) {
+      const other = firstFeedWithKey.get(key);
+      if (other === undefined) {
+        firstFeedWithKey.set(key, index);
+        continue;
+      }
+      const [root, otherRoot] = [findRoot(index), findRoot(other)];
+      parent[Math.max(root, otherRoot)] = Math.min(root, otherRoot);
+    }
+  });
+
+  const groups = new Map<number, FeedResult[]>();
+  feeds.forEach((feed, index) => {
+    const root = findRoot(index);
+    groups.set(root, [...(groups.get(root) ?? []), feed]);
+  });
+  return [...groups.values()].map(mergeGroup);
+}
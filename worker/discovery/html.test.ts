@@ -19,6 +19,11 @@ describe("discovery/html", () => {
       expect(extractFeedTypeTitle("application/atom+xml")).toBe("Atom");
     });
 
+    it("should return JSON for JSON Feed types", () => {
+      expect(extractFeedTypeTitle("application/feed+json")).toBe("JSON");
+      expect(extractFeedTypeTitle("application/json")).toBe("JSON");
+    });
+
     it("should be case insensitive", () => {
       expect(extractFeedTypeTitle("APPLICATION/RSS+XML")).toBe("RSS");
       expect(extractFeedTypeTitle("Application/Atom+XML")).toBe("Atom");
@@ -164,6 +169,39 @@ describe("discovery/html", () => {
       });
     });
 
+    it("should find JSON Feeds from link tags", () => {
+      const html = `
+        <html>
+          <head>
+            <link rel="alternate" type="application/feed+json" href="/feed.json" title="JSON Feed">
+          </head>
+        </html>
+      `;
+
+      const result = findMetaFeeds(html, baseUrl);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toEqual({
+        title: "JSON Feed",
+        url: "https://example.com/feed.json",
+        type: "JSON",
+        discoveryMethod: "meta-tag",
+      });
+    });
+
+    it("should ignore plain JSON alternates such as WordPress's REST API", () => {
+      const html = `
+        <html>
+          <head>
+            <link rel="alternate" type="application/json" href="https://example.com/wp-json/wp/v2/pages/2">
+          </head>
+        </html>
+      `;
+
+      expect(findMetaFeeds(html, baseUrl)).toEqual([]);
+      expect(findMetaFeedsWithStringParsing(html, baseUrl)).toEqual([]);
+    });
+
     it("should handle absolute URLs", () => {
       const html = `
         <html>
@@ -321,6 +359,16 @@ describe("discovery/html", () => {
       });
     });
 
+    it("should find JSON Feeds using string parsing", () => {
+      const html =
+        '<link rel="alternate" type="application/feed+json" href="/feed.json">';
+
+      const result = findMetaFeedsWithStringParsing(html, baseUrl);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].type).toBe("JSON");
+    });
+
     it("should handle case insensitive link tags", () => {
       const html =
         '<HTML><HEAD><LINK REL="alternate" TYPE="application/rss+xml" HREF="/feed.xml"></HEAD></HTML>';
@@ -5,15 +5,16 @@ import {
   MAX_LINK_TAG_LENGTH,
   SUPPORTED_FEED_TYPES,
 } from "../config";
-import type { FeedResult } from "../types";
+import type { FeedResult, FeedType } from "../types";
 
 /**
  * Extract feed type title from MIME type
  */
-export function extractFeedTypeTitle(type: string): "RSS" | "Atom" {
+export function extractFeedTypeTitle(type: string): FeedType {
   const lowerType = type.toLowerCase();
   if (lowerType.includes("rss")) return "RSS";
   if (lowerType.includes("atom")) return "Atom";
+  if (lowerType.includes("json")) return "JSON";
   return "RSS"; // default fallback
 }
 
@@ -213,7 +214,7 @@ function parseLinkSection(
   return {
     url: urlResult.value,
     title: feedInfo.title || DEFAULT_FEED_TITLE,
-    type: feedInfo.type.includes("atom") ? "Atom" : "RSS",
+    type: extractFeedTypeTitle(feedInfo.type),
     discoveryMethod: "meta-tag",
   };
 }
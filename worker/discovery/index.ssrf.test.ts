@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { discoverFeeds } from "./index";
+
+// Only the network is stubbed: every discovery module runs for real, so
+// candidate URLs taken from the page reach the real fetch layer
+const mockFetch = vi.fn();
+
+const page = `<html><head>
+    <link rel="alternate" type="application/rss+xml" href="http://169.254.169.254/latest/meta-data/">
+  </head><body>
+    <a href="http://10.0.0.5/rss">RSS</a>
+  </body></html>`;
+
+describe("discovery/index (unmocked)", () => {
+  beforeEach(() => {
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve(
+        url === "https://example.com/"
+          ? new Response(page, { headers: { "Content-Type": "text/html" } })
+          : new Response("Not found", { status: 404 }),
+      ),
+    );
+    vi.stubGlobal("fetch", mockFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should never request private addresses advertised by a page", async () => {
+    const result = await discoverFeeds("https://example.com/");
+
+    const requestedHosts = mockFetch.mock.calls.map(
+      ([url]) => new URL(url as string).hostname,
+    );
+    expect(requestedHosts).not.toContain("169.254.169.254");
+    expect(requestedHosts).not.toContain("10.0.0.5");
+    expect(requestedHosts.every((host) => host === "example.com")).toBe(true);
+
+    // The blocked meta-tag candidate is never fetched, and dropped as invalid
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.feeds.map((feed) => feed.url)).not.toContain(
+        "http://169.254.169.254/latest/meta-data/",
+      );
+    }
+  });
+});
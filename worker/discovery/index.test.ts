@@ -7,31 +7,130 @@ vi.mock("../validation/url", () => ({
 }));
 
 vi.mock("../net/fetch", () => ({
-  safeFetch: vi.fn(),
+  fetchWithRedirects: vi.fn(),
+}));
+
+vi.mock("../net/body", () => ({
+  readHtmlPage: vi.fn(),
+}));
+
+vi.mock("../robots/policy", () => ({
+  robotsPolicy: { mode: "enforce", check: vi.fn() },
 }));
 
 vi.mock("./html", () => ({
   findMetaFeeds: vi.fn(),
 }));
 
+vi.mock("./ancestors", () => ({
+  findAncestorFeeds: vi.fn(),
+}));
+
+vi.mock("./applePodcasts", () => ({
+  findApplePodcastFeeds: vi.fn(),
+}));
+
+vi.mock("./anchors", () => ({
+  findAnchorFeeds: vi.fn(),
+}));
+
+vi.mock("./cms", () => ({
+  detectCms: vi.fn(),
+}));
+
 vi.mock("./commonPaths", () => ({
   tryCommonPaths: vi.fn(),
 }));
 
-import { err, ok, ResultAsync } from "neverthrow";
-import { safeFetch } from "../net/fetch";
+vi.mock("./confidence", () => ({
+  scoreFeed: vi.fn(),
+}));
+
+vi.mock("./kind", () => ({
+  classifyFeed: vi.fn(),
+}));
+
+vi.mock("./linkHeader", () => ({
+  findLinkHeaderFeeds: vi.fn(),
+}));
+
+vi.mock("./siteRules", () => ({
+  findSiteRuleFeeds: vi.fn(),
+}));
+
+vi.mock("./sitemap", () => ({
+  findSitemapFeeds: vi.fn(),
+}));
+
+vi.mock("./verify", () => ({
+  verifyFeeds: vi.fn(),
+}));
+
+import { err, ok, okAsync, ResultAsync } from "neverthrow";
+import { MAX_VERIFIED_CANDIDATES } from "../config";
+import { readHtmlPage } from "../net/body";
+import { fetchWithRedirects } from "../net/fetch";
+import { robotsPolicy } from "../robots/policy";
+import type { FeedResult } from "../types";
 import { validateTargetUrl } from "../validation/url";
+import { findAncestorFeeds } from "./ancestors";
+import { findAnchorFeeds } from "./anchors";
+import { findApplePodcastFeeds } from "./applePodcasts";
+import { detectCms } from "./cms";
 import { tryCommonPaths } from "./commonPaths";
+import { scoreFeed } from "./confidence";
 import { findMetaFeeds } from "./html";
+import { classifyFeed } from "./kind";
+import { findLinkHeaderFeeds } from "./linkHeader";
+import { findSitemapFeeds } from "./sitemap";
+import { findSiteRuleFeeds } from "./siteRules";
+import { verifyFeeds } from "./verify";
 
 const mockValidateTargetUrl = vi.mocked(validateTargetUrl);
-const mockSafeFetch = vi.mocked(safeFetch);
+const mockFetchWithRedirects = vi.mocked(fetchWithRedirects);
 const mockFindMetaFeeds = vi.mocked(findMetaFeeds);
 const mockTryCommonPaths = vi.mocked(tryCommonPaths);
+const mockVerifyFeeds = vi.mocked(verifyFeeds);
+const mockReadHtmlPage = vi.mocked(readHtmlPage);
+const mockFindLinkHeaderFeeds = vi.mocked(findLinkHeaderFeeds);
+const mockFindAnchorFeeds = vi.mocked(findAnchorFeeds);
+const mockFindSiteRuleFeeds = vi.mocked(findSiteRuleFeeds);
+const mockDetectCms = vi.mocked(detectCms);
+const mockRobotsCheck = vi.mocked(robotsPolicy.check);
+const mockFindSitemapFeeds = vi.mocked(findSitemapFeeds);
+const mockFindAncestorFeeds = vi.mocked(findAncestorFeeds);
+const mockClassifyFeed = vi.mocked(classifyFeed);
+const mockScoreFeed = vi.mocked(scoreFeed);
+const mockFindApplePodcastFeeds = vi.mocked(findApplePodcastFeeds);
 
 describe("discovery/index", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    // Pass candidates through verification unchanged by default
+    mockVerifyFeeds.mockImplementation((feeds) =>
+      ResultAsync.fromSafePromise(Promise.resolve(feeds)),
+    );
+    mockFindLinkHeaderFeeds.mockReturnValue([]);
+    mockFindAnchorFeeds.mockReturnValue([]);
+    mockFindSiteRuleFeeds.mockReturnValue([]);
+    mockDetectCms.mockReturnValue(null);
+    mockRobotsCheck.mockImplementation((urls) =>
+      okAsync({ permittedUrls: urls, disallowedUrls: [] }),
+    );
+    mockFindSitemapFeeds.mockReturnValue(
+      okAsync({ feeds: [], disallowedUrls: [] }),
+    );
+    mockFindAncestorFeeds.mockReturnValue(
+      okAsync({ feeds: [], disallowedUrls: [] }),
+    );
+    mockFindApplePodcastFeeds.mockReturnValue(okAsync([]));
+    // Read the whole page by default
+    mockReadHtmlPage.mockImplementation((response) =>
+      ResultAsync.fromPromise(response.text(), () => ({
+        type: "PARSING_ERROR" as const,
+        message: "Failed to read response body",
+      })),
+    );
   });
 
   describe("discoverFeeds", () => {
@@ -45,8 +144,10 @@ describe("discovery/index", () => {
       mockValidateTargetUrl.mockReturnValue(ok(validUrl));
 
       // Mock successful HTML fetch
-      mockSafeFetch.mockReturnValue(
-        ResultAsync.fromSafePromise(Promise.resolve(mockResponse)),
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ response: mockResponse, url: validUrl.href }),
+        ),
       );
 
       // Mock HTML response text
@@ -75,26 +176,34 @@ describe("discovery/index", () => {
 
       mockFindMetaFeeds.mockReturnValue(metaFeeds);
       mockTryCommonPaths.mockReturnValue(
-        ResultAsync.fromSafePromise(Promise.resolve(commonFeeds)),
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ feeds: commonFeeds, disallowedUrls: [] }),
+        ),
       );
 
       const result = await discoverFeeds("https://example.com");
 
       expect(result.isOk()).toBe(true);
       if (result.isOk()) {
-        expect(result.value).toHaveLength(2);
-        expect(result.value[0]).toEqual(metaFeeds[0]);
-        expect(result.value[1]).toEqual(commonFeeds[0]);
+        expect(result.value.feeds).toHaveLength(2);
+        expect(result.value.feeds[0]).toEqual(metaFeeds[0]);
+        expect(result.value.feeds[1]).toEqual(commonFeeds[0]);
       }
 
       expect(mockValidateTargetUrl).toHaveBeenCalledWith("https://example.com");
-      expect(mockSafeFetch).toHaveBeenCalledWith("https://example.com/");
+      expect(mockFetchWithRedirects).toHaveBeenCalledWith(
+        "https://example.com/",
+      );
       expect(textSpy).toHaveBeenCalled();
       expect(mockFindMetaFeeds).toHaveBeenCalledWith(
         "<html></html>",
         "https://example.com/",
       );
-      expect(mockTryCommonPaths).toHaveBeenCalledWith("https://example.com/");
+      expect(mockTryCommonPaths).toHaveBeenCalledWith(
+        "https://example.com/",
+        undefined,
+        expect.any(Function),
+      );
     });
 
     it("should handle URL validation errors", async () => {
@@ -124,7 +233,7 @@ describe("discovery/index", () => {
         type: "NETWORK_ERROR" as const,
         message: "Network failed",
       };
-      mockSafeFetch.mockReturnValue(
+      mockFetchWithRedirects.mockReturnValue(
         ResultAsync.fromPromise(Promise.reject(fetchError), () => fetchError),
       );
 
@@ -138,24 +247,29 @@ describe("discovery/index", () => {
         },
       ];
       mockTryCommonPaths.mockReturnValue(
-        ResultAsync.fromSafePromise(Promise.resolve(commonFeeds)),
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ feeds: commonFeeds, disallowedUrls: [] }),
+        ),
       );
 
       const result = await discoverFeeds("https://example.com");
 
       expect(result.isOk()).toBe(true);
       if (result.isOk()) {
-        expect(result.value).toHaveLength(1);
-        expect(result.value[0]).toEqual(commonFeeds[0]);
+        expect(result.value.feeds).toHaveLength(1);
+        expect(result.value.feeds[0]).toEqual(commonFeeds[0]);
+        expect(result.value.pageUnavailable).toBe(true);
       }
 
-      expect(mockTryCommonPaths).toHaveBeenCalledTimes(2); // Called in parallel and in fallback
+      expect(mockTryCommonPaths).toHaveBeenCalledTimes(1); // Only in the fallback
     });
 
     it("should deduplicate feeds with same URL", async () => {
       mockValidateTargetUrl.mockReturnValue(ok(validUrl));
-      mockSafeFetch.mockReturnValue(
-        ResultAsync.fromSafePromise(Promise.resolve(mockResponse)),
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ response: mockResponse, url: validUrl.href }),
+        ),
       );
 
       vi.spyOn(mockResponse, "text").mockResolvedValue("<html></html>");
@@ -182,15 +296,17 @@ describe("discovery/index", () => {
 
       mockFindMetaFeeds.mockReturnValue(metaFeeds);
       mockTryCommonPaths.mockReturnValue(
-        ResultAsync.fromSafePromise(Promise.resolve(commonFeeds)),
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ feeds: commonFeeds, disallowedUrls: [] }),
+        ),
       );
 
       const result = await discoverFeeds("https://example.com");
 
       expect(result.isOk()).toBe(true);
       if (result.isOk()) {
-        expect(result.value).toHaveLength(1); // Deduplicated
-        expect(result.value[0]).toEqual(metaFeeds[0]); // Meta feeds have priority
+        expect(result.value.feeds).toHaveLength(1); // Deduplicated
+        expect(result.value.feeds[0]).toEqual(metaFeeds[0]); // Meta feeds have priority
       }
     });
 
@@ -198,8 +314,10 @@ describe("discovery/index", () => {
       mockValidateTargetUrl.mockReturnValue(ok(validUrl));
 
       // Mock successful fetch but text parsing fails
-      mockSafeFetch.mockReturnValue(
-        ResultAsync.fromSafePromise(Promise.resolve(mockResponse)),
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ response: mockResponse, url: validUrl.href }),
+        ),
       );
       const textSpy = vi
         .spyOn(mockResponse, "text")
@@ -215,15 +333,17 @@ describe("discovery/index", () => {
         },
       ];
       mockTryCommonPaths.mockReturnValue(
-        ResultAsync.fromSafePromise(Promise.resolve(commonFeeds)),
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ feeds: commonFeeds, disallowedUrls: [] }),
+        ),
       );
 
       const result = await discoverFeeds("https://example.com");
 
       expect(result.isOk()).toBe(true);
       if (result.isOk()) {
-        expect(result.value).toHaveLength(1);
-        expect(result.value[0]).toEqual(commonFeeds[0]);
+        expect(result.value.feeds).toHaveLength(1);
+        expect(result.value.feeds[0]).toEqual(commonFeeds[0]);
       }
 
       expect(textSpy).toHaveBeenCalled();
@@ -238,7 +358,7 @@ describe("discovery/index", () => {
         type: "NETWORK_ERROR" as const,
         message: "Network failed",
       };
-      mockSafeFetch.mockReturnValue(
+      mockFetchWithRedirects.mockReturnValue(
         ResultAsync.fromPromise(Promise.reject(fetchError), () => fetchError),
       );
 
@@ -261,5 +381,1122 @@ describe("discovery/index", () => {
         expect(result.error.type).toBe("NETWORK_ERROR");
       }
     });
+
+    it("should merge Link header feeds between meta and common path feeds", async () => {
+      mockValidateTargetUrl.mockReturnValue(ok(validUrl));
+      const pageResponse = new Response("<html></html>", {
+        headers: { link: '</atom.xml>; rel="alternate"' },
+      });
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ response: pageResponse, url: validUrl.href }),
+        ),
+      );
+
+      const feed = (
+        url: string,
+        discoveryMethod: FeedResult["discoveryMethod"],
+      ) => ({
+        url,
+        type: "RSS" as const,
+        discoveryMethod,
+      });
+      mockFindMetaFeeds.mockReturnValue([
+        feed("https://example.com/feed.xml", "meta-tag"),
+      ]);
+      mockFindLinkHeaderFeeds.mockReturnValue([
+        feed("https://example.com/feed.xml", "link-header"),
+        feed("https://example.com/atom.xml", "link-header"),
+      ]);
+      mockTryCommonPaths.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({
+            feeds: [
+              feed("https://example.com/atom.xml", "common-path"),
+              feed("https://example.com/rss", "common-path"),
+            ],
+            disallowedUrls: [],
+          }),
+        ),
+      );
+
+      const result = await discoverFeeds("https://example.com");
+
+      expect(mockFindLinkHeaderFeeds).toHaveBeenCalledWith(
+        pageResponse.headers,
+        "https://example.com/",
+      );
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(
+          result.value.feeds.map((f) => [f.url, f.discoveryMethod]),
+        ).toEqual([
+          ["https://example.com/feed.xml", "meta-tag"],
+          ["https://example.com/atom.xml", "link-header"],
+          ["https://example.com/rss", "common-path"],
+        ]);
+      }
+    });
+
+    it("should refuse oversized pages instead of falling back", async () => {
+      mockValidateTargetUrl.mockReturnValue(ok(validUrl));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ response: mockResponse, url: validUrl.href }),
+        ),
+      );
+      mockReadHtmlPage.mockReturnValue(
+        ResultAsync.fromPromise(Promise.reject(new Error("too large")), () => ({
+          type: "RESPONSE_TOO_LARGE" as const,
+          message: "Response exceeded 2097152 bytes",
+        })),
+      );
+      mockTryCommonPaths.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ feeds: [], disallowedUrls: [] }),
+        ),
+      );
+
+      const result = await discoverFeeds("https://example.com");
+
+      expect(mockReadHtmlPage).toHaveBeenCalledWith(
+        mockResponse,
+        2 * 1024 * 1024,
+        expect.any(Function),
+      );
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.type).toBe("RESPONSE_TOO_LARGE");
+      }
+      expect(mockVerifyFeeds).not.toHaveBeenCalled();
+    });
+
+    it("should resolve meta feeds against the post-redirect URL", async () => {
+      mockValidateTargetUrl.mockReturnValue(ok(validUrl));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({
+            response: mockResponse,
+            url: "https://www.example.com/blog/",
+          }),
+        ),
+      );
+      vi.spyOn(mockResponse, "text").mockResolvedValue("<html></html>");
+      mockFindMetaFeeds.mockReturnValue([]);
+      mockTryCommonPaths.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ feeds: [], disallowedUrls: [] }),
+        ),
+      );
+
+      const result = await discoverFeeds("https://example.com");
+
+      expect(mockFindMetaFeeds).toHaveBeenCalledWith(
+        "<html></html>",
+        "https://www.example.com/blog/",
+      );
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.resolvedUrl).toBe("https://www.example.com/blog/");
+      }
+    });
+
+    it("should verify the merged candidates before returning them", async () => {
+      mockValidateTargetUrl.mockReturnValue(ok(validUrl));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ response: mockResponse, url: validUrl.href }),
+        ),
+      );
+      vi.spyOn(mockResponse, "text").mockResolvedValue("<html></html>");
+
+      const metaFeed = {
+        url: "https://example.com/feed.xml",
+        title: "Meta Feed",
+        type: "RSS" as const,
+        discoveryMethod: "meta-tag" as const,
+      };
+      mockFindMetaFeeds.mockReturnValue([metaFeed]);
+      mockTryCommonPaths.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ feeds: [], disallowedUrls: [] }),
+        ),
+      );
+      mockVerifyFeeds.mockImplementation((feeds) =>
+        ResultAsync.fromSafePromise(
+          Promise.resolve(
+            feeds.map((feed) => ({
+              ...feed,
+              verification: "verified" as const,
+            })),
+          ),
+        ),
+      );
+
+      const result = await discoverFeeds("https://example.com");
+
+      expect(mockVerifyFeeds).toHaveBeenCalledWith(
+        [metaFeed],
+        expect.any(Function),
+      );
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.feeds).toEqual([
+          { ...metaFeed, verification: "verified" },
+        ]);
+      }
+    });
+
+    it("should verify at most MAX_VERIFIED_CANDIDATES candidates, advertised ones first", async () => {
+      mockValidateTargetUrl.mockReturnValue(ok(validUrl));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ response: mockResponse, url: validUrl.href }),
+        ),
+      );
+      vi.spyOn(mockResponse, "text").mockResolvedValue("<html></html>");
+
+      const metaFeeds = Array.from(
+        { length: MAX_VERIFIED_CANDIDATES },
+        (_, index) => ({
+          url: `https://example.com/feed-${index}.xml`,
+          type: "RSS" as const,
+          discoveryMethod: "meta-tag" as const,
+        }),
+      );
+      mockFindMetaFeeds.mockReturnValue(metaFeeds);
+      mockTryCommonPaths.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({
+            feeds: [
+              {
+                url: "https://example.com/feed",
+                type: "RSS" as const,
+                discoveryMethod: "common-path" as const,
+              },
+            ],
+            disallowedUrls: [],
+          }),
+        ),
+      );
+      mockVerifyFeeds.mockImplementation((feeds) =>
+        ResultAsync.fromSafePromise(Promise.resolve(feeds)),
+      );
+
+      await discoverFeeds("https://example.com");
+
+      expect(mockVerifyFeeds).toHaveBeenCalledWith(
+        metaFeeds,
+        expect.any(Function),
+      );
+    });
+
+    it("should drop advertised feeds that turn out not to be feeds", async () => {
+      mockValidateTargetUrl.mockReturnValue(ok(validUrl));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ response: mockResponse, url: validUrl.href }),
+        ),
+      );
+      vi.spyOn(mockResponse, "text").mockResolvedValue("<html></html>");
+
+      const metaFeed = {
+        url: "https://example.com/feed.xml",
+        type: "RSS" as const,
+        discoveryMethod: "meta-tag" as const,
+      };
+      const brokenFeed = {
+        url: "https://example.com/old-feed.xml",
+        type: "RSS" as const,
+        discoveryMethod: "meta-tag" as const,
+      };
+      mockFindMetaFeeds.mockReturnValue([metaFeed, brokenFeed]);
+      mockTryCommonPaths.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ feeds: [], disallowedUrls: [] }),
+        ),
+      );
+      mockVerifyFeeds.mockImplementation((feeds) =>
+        ResultAsync.fromSafePromise(
+          Promise.resolve(
+            feeds.map((feed) => ({
+              ...feed,
+              verification:
+                feed.url === brokenFeed.url
+                  ? ("invalid" as const)
+                  : ("verified" as const),
+            })),
+          ),
+        ),
+      );
+
+      const result = await discoverFeeds("https://example.com");
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.feeds.map((feed) => feed.url)).toEqual([
+          metaFeed.url,
+        ]);
+      }
+    });
+
+    it("should merge page link feeds last and drop those that are not feeds", async () => {
+      mockValidateTargetUrl.mockReturnValue(ok(validUrl));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ response: mockResponse, url: validUrl.href }),
+        ),
+      );
+      vi.spyOn(mockResponse, "text").mockResolvedValue("<html></html>");
+
+      const feed = (
+        url: string,
+        discoveryMethod: FeedResult["discoveryMethod"],
+      ) => ({
+        url,
+        type: "RSS" as const,
+        discoveryMethod,
+      });
+      mockFindMetaFeeds.mockReturnValue([]);
+      mockTryCommonPaths.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({
+            feeds: [feed("https://example.com/feed", "common-path")],
+            disallowedUrls: [],
+          }),
+        ),
+      );
+      mockFindAnchorFeeds.mockReturnValue([
+        feed("https://example.com/feed", "anchor-link"),
+        feed("https://example.com/rss.xml", "anchor-link"),
+        feed("https://example.com/feedback", "anchor-link"),
+      ]);
+      mockVerifyFeeds.mockImplementation((feeds) =>
+        ResultAsync.fromSafePromise(
+          Promise.resolve(
+            feeds.map((candidate) => ({
+              ...candidate,
+              verification: candidate.url.endsWith("feedback")
+                ? ("invalid" as const)
+                : ("verified" as const),
+            })),
+          ),
+        ),
+      );
+
+      const result = await discoverFeeds("https://example.com");
+
+      expect(mockFindAnchorFeeds).toHaveBeenCalledWith(
+        "<html></html>",
+        "https://example.com/",
+      );
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(
+          result.value.feeds.map((f) => [f.url, f.discoveryMethod]),
+        ).toEqual([
+          ["https://example.com/feed", "common-path"],
+          ["https://example.com/rss.xml", "anchor-link"],
+        ]);
+      }
+    });
+
+    it("should drop page links that robots.txt disallows and report every disallowed candidate", async () => {
+      mockValidateTargetUrl.mockReturnValue(ok(validUrl));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ response: mockResponse, url: validUrl.href }),
+        ),
+      );
+      vi.spyOn(mockResponse, "text").mockResolvedValue("<html></html>");
+      mockFindMetaFeeds.mockReturnValue([]);
+      mockTryCommonPaths.mockReturnValue(
+        okAsync({
+          feeds: [],
+          disallowedUrls: ["https://example.com/feed"],
+        }),
+      );
+      mockFindAnchorFeeds.mockReturnValue([
+        {
+          url: "https://example.com/private/rss.xml",
+          type: "RSS",
+          discoveryMethod: "anchor-link",
+        },
+        {
+          url: "https://example.com/rss.xml",
+          type: "RSS",
+          discoveryMethod: "anchor-link",
+        },
+      ]);
+      mockRobotsCheck.mockReturnValue(
+        okAsync({
+          permittedUrls: ["https://example.com/rss.xml"],
+          disallowedUrls: ["https://example.com/private/rss.xml"],
+        }),
+      );
+
+      const result = await discoverFeeds("https://example.com");
+
+      expect(mockRobotsCheck).toHaveBeenCalledWith([
+        "https://example.com/private/rss.xml",
+        "https://example.com/rss.xml",
+      ]);
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.feeds.map((f) => f.url)).toEqual([
+          "https://example.com/rss.xml",
+        ]);
+        expect(result.value.robotsTxt).toEqual({
+          mode: "enforce",
+          disallowedUrls: [
+            "https://example.com/feed",
+            "https://example.com/private/rss.xml",
+          ],
+        });
+      }
+    });
+
+    it("should merge verified sitemap feeds after common paths and before page links", async () => {
+      mockValidateTargetUrl.mockReturnValue(ok(validUrl));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({
+            response: mockResponse,
+            url: "https://www.example.com/",
+          }),
+        ),
+      );
+      vi.spyOn(mockResponse, "text").mockResolvedValue("<html></html>");
+      const feed = (
+        url: string,
+        discoveryMethod: FeedResult["discoveryMethod"],
+      ) => ({
+        url,
+        type: "RSS" as const,
+        discoveryMethod,
+      });
+      mockFindMetaFeeds.mockReturnValue([]);
+      mockTryCommonPaths.mockReturnValue(
+        okAsync({
+          feeds: [feed("https://www.example.com/feed", "common-path")],
+          disallowedUrls: [],
+        }),
+      );
+      mockFindSitemapFeeds.mockReturnValue(
+        okAsync({
+          feeds: [
+            feed("https://www.example.com/feed", "sitemap"),
+            feed("https://www.example.com/news/rss", "sitemap"),
+            feed("https://www.example.com/feeds/", "sitemap"),
+          ],
+          disallowedUrls: ["https://www.example.com/private/feed"],
+        }),
+      );
+      mockFindAnchorFeeds.mockReturnValue([
+        feed("https://www.example.com/news/rss", "anchor-link"),
+        feed("https://www.example.com/atom.xml", "anchor-link"),
+      ]);
+      mockVerifyFeeds.mockImplementation((feeds) =>
+        okAsync(
+          feeds.map((candidate) => ({
+            ...candidate,
+            verification: candidate.url.endsWith("/feeds/")
+              ? ("invalid" as const)
+              : ("verified" as const),
+          })),
+        ),
+      );
+
+      const result = await discoverFeeds("https://example.com");
+
+      // Sitemaps belong to the site that actually served the page
+      expect(mockFindSitemapFeeds).toHaveBeenCalledWith(
+        "https://www.example.com/",
+      );
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(
+          result.value.feeds.map((f) => [f.url, f.discoveryMethod]),
+        ).toEqual([
+          ["https://www.example.com/feed", "common-path"],
+          ["https://www.example.com/news/rss", "sitemap"],
+          ["https://www.example.com/atom.xml", "anchor-link"],
+        ]);
+        expect(result.value.robotsTxt?.disallowedUrls).toEqual([
+          "https://www.example.com/private/feed",
+        ]);
+      }
+    });
+
+    it("should only walk up the path when asked to", async () => {
+      mockValidateTargetUrl.mockReturnValue(ok(validUrl));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ response: mockResponse, url: validUrl.href }),
+        ),
+      );
+      vi.spyOn(mockResponse, "text").mockResolvedValue("<html></html>");
+      mockFindMetaFeeds.mockReturnValue([]);
+      mockTryCommonPaths.mockReturnValue(
+        okAsync({ feeds: [], disallowedUrls: [] }),
+      );
+
+      await discoverFeeds("https://example.com");
+
+      expect(mockFindAncestorFeeds).not.toHaveBeenCalled();
+    });
+
+    it("should merge ancestor feeds after Link header feeds and before common paths", async () => {
+      const articleUrl = "https://example.com/2024/05/some-post/";
+      mockValidateTargetUrl.mockReturnValue(ok(new URL(articleUrl)));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ response: mockResponse, url: articleUrl }),
+        ),
+      );
+      vi.spyOn(mockResponse, "text").mockResolvedValue("<html></html>");
+      const feed = (
+        url: string,
+        discoveryMethod: FeedResult["discoveryMethod"],
+      ) => ({
+        url,
+        type: "RSS" as const,
+        discoveryMethod,
+      });
+      mockFindMetaFeeds.mockReturnValue([
+        feed("https://example.com/2024/05/some-post/feed/", "meta-tag"),
+      ]);
+      mockFindLinkHeaderFeeds.mockReturnValue([
+        feed("https://example.com/comments/feed/", "link-header"),
+      ]);
+      mockFindAncestorFeeds.mockReturnValue(
+        okAsync({
+          feeds: [
+            feed("https://example.com/comments/feed/", "meta-tag"),
+            feed("https://example.com/2024/feed/", "meta-tag"),
+            feed("https://example.com/feed/", "meta-tag"),
+          ],
+          disallowedUrls: ["https://example.com/2024/05/"],
+        }),
+      );
+      mockTryCommonPaths.mockReturnValue(
+        okAsync({
+          feeds: [
+            feed("https://example.com/feed/", "common-path"),
+            feed("https://example.com/atom.xml", "common-path"),
+          ],
+          disallowedUrls: [],
+        }),
+      );
+      const onProgress = vi.fn();
+
+      const result = await discoverFeeds(articleUrl, onProgress, {
+        walkAncestors: true,
+      });
+
+      expect(mockFindAncestorFeeds).toHaveBeenCalledWith(
+        articleUrl,
+        onProgress,
+      );
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(
+          result.value.feeds.map((f) => [f.url, f.discoveryMethod]),
+        ).toEqual([
+          ["https://example.com/2024/05/some-post/feed/", "meta-tag"],
+          ["https://example.com/comments/feed/", "link-header"],
+          ["https://example.com/2024/feed/", "meta-tag"],
+          ["https://example.com/feed/", "meta-tag"],
+          ["https://example.com/atom.xml", "common-path"],
+        ]);
+        expect(result.value.robotsTxt?.disallowedUrls).toEqual([
+          "https://example.com/2024/05/",
+        ]);
+      }
+    });
+
+    it("should still walk up the path when the page cannot be fetched", async () => {
+      const articleUrl = "https://example.com/news/removed-story";
+      mockValidateTargetUrl.mockReturnValue(ok(new URL(articleUrl)));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromPromise(Promise.reject(new Error("gone")), () => ({
+          type: "FETCH_FAILED" as const,
+          message: "HTTP 404",
+          status: 404,
+        })),
+      );
+      const ruleFeed = {
+        url: "https://example.com/rss",
+        type: "RSS" as const,
+        discoveryMethod: "site-rule" as const,
+        siteRule: "Example",
+      };
+      mockFindSiteRuleFeeds.mockReturnValue([ruleFeed]);
+      mockFindAncestorFeeds.mockReturnValue(
+        okAsync({
+          feeds: [
+            { ...ruleFeed, discoveryMethod: "meta-tag" as const },
+            {
+              url: "https://example.com/news/feed",
+              type: "RSS" as const,
+              discoveryMethod: "meta-tag" as const,
+            },
+          ],
+          disallowedUrls: [],
+        }),
+      );
+      mockTryCommonPaths.mockReturnValue(
+        okAsync({
+          feeds: [
+            {
+              url: "https://example.com/news/feed",
+              type: "RSS" as const,
+              discoveryMethod: "common-path" as const,
+            },
+          ],
+          disallowedUrls: ["https://example.com/feed.xml"],
+        }),
+      );
+
+      const result = await discoverFeeds(articleUrl, undefined, {
+        walkAncestors: true,
+      });
+
+      expect(mockFindAncestorFeeds).toHaveBeenCalledWith(
+        articleUrl,
+        expect.any(Function),
+      );
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(
+          result.value.feeds.map((f) => [f.url, f.discoveryMethod]),
+        ).toEqual([
+          ["https://example.com/rss", "site-rule"],
+          ["https://example.com/news/feed", "meta-tag"],
+        ]);
+        expect(result.value.robotsTxt?.disallowedUrls).toEqual([
+          "https://example.com/feed.xml",
+        ]);
+      }
+    });
+
+    it("should leave out the robots.txt report when nothing was disallowed", async () => {
+      mockValidateTargetUrl.mockReturnValue(ok(validUrl));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ response: mockResponse, url: validUrl.href }),
+        ),
+      );
+      vi.spyOn(mockResponse, "text").mockResolvedValue("<html></html>");
+      mockFindMetaFeeds.mockReturnValue([]);
+      mockTryCommonPaths.mockReturnValue(
+        okAsync({ feeds: [], disallowedUrls: [] }),
+      );
+
+      const result = await discoverFeeds("https://example.com");
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.robotsTxt).toBeUndefined();
+      }
+    });
+
+    it("should only read past the head when it advertises no feeds", async () => {
+      mockValidateTargetUrl.mockReturnValue(ok(validUrl));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ response: mockResponse, url: validUrl.href }),
+        ),
+      );
+      vi.spyOn(mockResponse, "text").mockResolvedValue("<html></html>");
+      mockTryCommonPaths.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ feeds: [], disallowedUrls: [] }),
+        ),
+      );
+
+      mockFindMetaFeeds.mockReturnValue([]);
+
+      await discoverFeeds("https://example.com");
+      const stopAfterHead = mockReadHtmlPage.mock.calls[0][2];
+
+      expect(stopAfterHead?.("<head></head>")).toBe(false);
+      mockFindMetaFeeds.mockReturnValue([
+        {
+          url: "https://example.com/feed.xml",
+          type: "RSS",
+          discoveryMethod: "meta-tag",
+        },
+      ]);
+      expect(stopAfterHead?.("<head></head>")).toBe(true);
+    });
+
+    it("should put site rule feeds first, matched against the requested URL", async () => {
+      mockValidateTargetUrl.mockReturnValue(ok(validUrl));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({
+            response: mockResponse,
+            url: "https://www.example.com/",
+          }),
+        ),
+      );
+      vi.spyOn(mockResponse, "text").mockResolvedValue("<html></html>");
+
+      const ruleFeed = {
+        url: "https://example.com/feed.xml",
+        type: "Atom" as const,
+        discoveryMethod: "site-rule" as const,
+        siteRule: "Example",
+      };
+      mockFindSiteRuleFeeds.mockReturnValue([ruleFeed]);
+      mockFindMetaFeeds.mockReturnValue([
+        {
+          url: "https://example.com/feed.xml",
+          type: "RSS",
+          discoveryMethod: "meta-tag",
+        },
+      ]);
+      mockTryCommonPaths.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ feeds: [], disallowedUrls: [] }),
+        ),
+      );
+
+      const result = await discoverFeeds("https://example.com");
+
+      expect(mockFindSiteRuleFeeds).toHaveBeenCalledWith(
+        "https://example.com/",
+        "<html></html>",
+      );
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.feeds).toEqual([ruleFeed]);
+      }
+    });
+
+    it("should still apply site rules when the page cannot be fetched", async () => {
+      mockValidateTargetUrl.mockReturnValue(ok(validUrl));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromPromise(Promise.reject(new Error("blocked")), () => ({
+          type: "FETCH_FAILED" as const,
+          message: "HTTP 403",
+          status: 403,
+        })),
+      );
+
+      const ruleFeed = {
+        url: "https://example.com/rss",
+        type: "RSS" as const,
+        discoveryMethod: "site-rule" as const,
+        siteRule: "Example",
+      };
+      mockFindSiteRuleFeeds.mockReturnValue([ruleFeed]);
+      mockTryCommonPaths.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({
+            feeds: [
+              { ...ruleFeed, discoveryMethod: "common-path" as const },
+              {
+                url: "https://example.com/atom.xml",
+                type: "Atom" as const,
+                discoveryMethod: "common-path" as const,
+              },
+            ],
+            disallowedUrls: [],
+          }),
+        ),
+      );
+
+      const result = await discoverFeeds("https://example.com");
+
+      expect(mockFindSiteRuleFeeds).toHaveBeenCalledWith(
+        "https://example.com/",
+      );
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(
+          result.value.feeds.map((f) => [f.url, f.discoveryMethod]),
+        ).toEqual([
+          ["https://example.com/rss", "site-rule"],
+          ["https://example.com/atom.xml", "common-path"],
+        ]);
+      }
+    });
+
+    it("should put the feed an Apple Podcasts page resolves to first", async () => {
+      const showUrl =
+        "https://podcasts.apple.com/us/podcast/the-daily/id1200361736";
+      mockValidateTargetUrl.mockReturnValue(ok(new URL(showUrl)));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ response: mockResponse, url: showUrl }),
+        ),
+      );
+      vi.spyOn(mockResponse, "text").mockResolvedValue("<html></html>");
+      mockFindMetaFeeds.mockReturnValue([
+        {
+          url: "https://podcasts.apple.com/us/rss/topsongs.xml",
+          type: "RSS",
+          discoveryMethod: "meta-tag",
+        },
+      ]);
+      mockTryCommonPaths.mockReturnValue(
+        okAsync({ feeds: [], disallowedUrls: [] }),
+      );
+      const podcastFeed = {
+        url: "https://feeds.simplecast.com/54nAGcIl",
+        title: "The Daily",
+        type: "RSS" as const,
+        discoveryMethod: "site-rule" as const,
+        siteRule: "Apple Podcasts",
+      };
+      mockFindApplePodcastFeeds.mockReturnValue(okAsync([podcastFeed]));
+
+      const result = await discoverFeeds(showUrl);
+
+      expect(mockFindApplePodcastFeeds).toHaveBeenCalledWith(showUrl);
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.feeds.map((f) => f.url)).toEqual([
+          "https://feeds.simplecast.com/54nAGcIl",
+          "https://podcasts.apple.com/us/rss/topsongs.xml",
+        ]);
+      }
+    });
+
+    it("should still resolve Apple Podcasts pages that cannot be fetched", async () => {
+      const showUrl =
+        "https://podcasts.apple.com/us/podcast/the-daily/id1200361736";
+      mockValidateTargetUrl.mockReturnValue(ok(new URL(showUrl)));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromPromise(Promise.reject(new Error("blocked")), () => ({
+          type: "FETCH_FAILED" as const,
+          message: "HTTP 403",
+          status: 403,
+        })),
+      );
+      mockTryCommonPaths.mockReturnValue(
+        okAsync({ feeds: [], disallowedUrls: [] }),
+      );
+      mockFindApplePodcastFeeds.mockReturnValue(
+        okAsync([
+          {
+            url: "https://feeds.simplecast.com/54nAGcIl",
+            type: "RSS",
+            discoveryMethod: "site-rule",
+            siteRule: "Apple Podcasts",
+          },
+        ]),
+      );
+
+      const result = await discoverFeeds(showUrl);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.feeds.map((f) => f.url)).toEqual([
+          "https://feeds.simplecast.com/54nAGcIl",
+        ]);
+      }
+    });
+
+    it("should probe the detected CMS's paths and report the platform", async () => {
+      mockValidateTargetUrl.mockReturnValue(ok(validUrl));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ response: mockResponse, url: validUrl.href }),
+        ),
+      );
+      vi.spyOn(mockResponse, "text").mockResolvedValue(
+        '<meta name="generator" content="WordPress 6.4">',
+      );
+      mockFindMetaFeeds.mockReturnValue([]);
+      mockDetectCms.mockReturnValue("WordPress");
+      mockTryCommonPaths.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ feeds: [], disallowedUrls: [] }),
+        ),
+      );
+
+      const result = await discoverFeeds("https://example.com");
+
+      expect(mockDetectCms).toHaveBeenCalledWith(
+        '<meta name="generator" content="WordPress 6.4">',
+      );
+      expect(mockTryCommonPaths).toHaveBeenCalledWith(
+        "https://example.com/",
+        "WordPress",
+        expect.any(Function),
+      );
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.platform).toBe("WordPress");
+      }
+    });
+
+    it("should not report a platform when none was detected", async () => {
+      mockValidateTargetUrl.mockReturnValue(ok(validUrl));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ response: mockResponse, url: validUrl.href }),
+        ),
+      );
+      vi.spyOn(mockResponse, "text").mockResolvedValue("<html></html>");
+      mockFindMetaFeeds.mockReturnValue([]);
+      mockTryCommonPaths.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ feeds: [], disallowedUrls: [] }),
+        ),
+      );
+
+      const result = await discoverFeeds("https://example.com");
+
+      expect(mockTryCommonPaths).toHaveBeenCalledWith(
+        "https://example.com/",
+        undefined,
+        expect.any(Function),
+      );
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.platform).toBeUndefined();
+      }
+    });
+
+    it("should pass on the page's Cache-Control header", async () => {
+      mockValidateTargetUrl.mockReturnValue(ok(validUrl));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({
+            response: new Response("<html></html>", {
+              headers: { "Cache-Control": "public, max-age=300" },
+            }),
+            url: validUrl.href,
+          }),
+        ),
+      );
+      mockFindMetaFeeds.mockReturnValue([]);
+      mockTryCommonPaths.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ feeds: [], disallowedUrls: [] }),
+        ),
+      );
+
+      const result = await discoverFeeds("https://example.com");
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.cacheControl).toBe("public, max-age=300");
+      }
+    });
+
+    it("should report each stage and every reportable feed as it is verified", async () => {
+      mockValidateTargetUrl.mockReturnValue(ok(validUrl));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ response: mockResponse, url: validUrl.href }),
+        ),
+      );
+      vi.spyOn(mockResponse, "text").mockResolvedValue("<html></html>");
+      const metaFeed = {
+        url: "https://example.com/feed.xml",
+        type: "RSS" as const,
+        discoveryMethod: "meta-tag" as const,
+      };
+      const anchorFeed = {
+        url: "https://example.com/broken.xml",
+        type: "RSS" as const,
+        discoveryMethod: "anchor-link" as const,
+      };
+      mockFindMetaFeeds.mockReturnValue([metaFeed]);
+      mockFindAnchorFeeds.mockReturnValue([anchorFeed]);
+      mockTryCommonPaths.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ feeds: [], disallowedUrls: [] }),
+        ),
+      );
+      mockVerifyFeeds.mockImplementation((feeds, onVerified) => {
+        const verified = [
+          { ...feeds[0], verification: "verified" as const },
+          { ...feeds[1], verification: "invalid" as const },
+        ];
+        for (const feed of verified) onVerified?.(feed);
+        return ResultAsync.fromSafePromise(Promise.resolve(verified));
+      });
+      const onProgress = vi.fn();
+
+      await discoverFeeds("https://example.com", onProgress);
+
+      expect(onProgress.mock.calls.map(([event]) => event)).toEqual([
+        { type: "stage", stage: "page" },
+        { type: "stage", stage: "common-path" },
+        { type: "stage", stage: "verification" },
+        { type: "feed", feed: { ...metaFeed, verification: "verified" } },
+      ]);
+      expect(mockTryCommonPaths).toHaveBeenCalledWith(
+        "https://example.com/",
+        undefined,
+        onProgress,
+      );
+    });
+
+    it("should merge candidates that declare the same self URL", async () => {
+      mockValidateTargetUrl.mockReturnValue(ok(validUrl));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ response: mockResponse, url: validUrl.href }),
+        ),
+      );
+      vi.spyOn(mockResponse, "text").mockResolvedValue("<html></html>");
+      mockFindMetaFeeds.mockReturnValue([
+        {
+          url: "https://example.com/feed/",
+          title: "Example",
+          type: "RSS",
+          discoveryMethod: "meta-tag",
+        },
+      ]);
+      mockTryCommonPaths.mockReturnValue(
+        okAsync({
+          feeds: [
+            {
+              url: "https://example.com/rss",
+              type: "RSS",
+              discoveryMethod: "common-path",
+            },
+            {
+              url: "https://example.com/atom.xml",
+              type: "Atom",
+              discoveryMethod: "common-path",
+            },
+          ],
+          disallowedUrls: [],
+        }),
+      );
+      mockVerifyFeeds.mockImplementation((feeds) =>
+        okAsync(
+          feeds.map((candidate) => ({
+            ...candidate,
+            verification: "verified" as const,
+            selfUrl: candidate.url.endsWith("/rss")
+              ? "https://example.com/feed/"
+              : undefined,
+          })),
+        ),
+      );
+
+      const result = await discoverFeeds("https://example.com");
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.feeds.map((f) => f.url)).toEqual([
+          "https://example.com/feed/",
+          "https://example.com/atom.xml",
+        ]);
+      }
+    });
+
+    it("should classify verified feeds and list the main feeds first", async () => {
+      mockValidateTargetUrl.mockReturnValue(ok(validUrl));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ response: mockResponse, url: validUrl.href }),
+        ),
+      );
+      vi.spyOn(mockResponse, "text").mockResolvedValue("<html></html>");
+      const feed = (url: string) => ({
+        url,
+        type: "RSS" as const,
+        discoveryMethod: "meta-tag" as const,
+      });
+      mockFindMetaFeeds.mockReturnValue([
+        feed("https://example.com/hello-world/feed/"),
+        feed("https://example.com/feed/"),
+        feed("https://example.com/comments/feed/"),
+      ]);
+      mockTryCommonPaths.mockReturnValue(
+        okAsync({ feeds: [], disallowedUrls: [] }),
+      );
+      mockVerifyFeeds.mockImplementation((feeds, onVerified) => {
+        for (const candidate of feeds) onVerified?.(candidate);
+        return okAsync(feeds);
+      });
+      mockClassifyFeed.mockImplementation((candidate) =>
+        candidate.url === "https://example.com/feed/" ? "main" : "comments",
+      );
+      const onProgress = vi.fn();
+
+      const result = await discoverFeeds("https://example.com", onProgress);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.feeds.map((f) => [f.url, f.kind])).toEqual([
+          ["https://example.com/feed/", "main"],
+          ["https://example.com/hello-world/feed/", "comments"],
+          ["https://example.com/comments/feed/", "comments"],
+        ]);
+      }
+      expect(onProgress).toHaveBeenCalledWith({
+        type: "feed",
+        feed: { ...feed("https://example.com/feed/"), kind: "main" },
+      });
+    });
+
+    it("should score verified feeds and list the most confident first", async () => {
+      mockValidateTargetUrl.mockReturnValue(ok(validUrl));
+      mockFetchWithRedirects.mockReturnValue(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({ response: mockResponse, url: validUrl.href }),
+        ),
+      );
+      vi.spyOn(mockResponse, "text").mockResolvedValue("<html></html>");
+      mockFindMetaFeeds.mockReturnValue([
+        {
+          url: "https://example.com/comments/feed/",
+          type: "RSS",
+          discoveryMethod: "meta-tag",
+        },
+      ]);
+      mockTryCommonPaths.mockReturnValue(
+        okAsync({
+          feeds: [
+            {
+              url: "https://example.com/rss",
+              type: "RSS",
+              discoveryMethod: "common-path",
+            },
+            {
+              url: "https://example.com/atom.xml",
+              type: "Atom",
+              discoveryMethod: "common-path",
+            },
+          ],
+          disallowedUrls: [],
+        }),
+      );
+      mockClassifyFeed.mockImplementation((candidate) =>
+        candidate.url.includes("comments") ? "comments" : "main",
+      );
+      mockScoreFeed.mockImplementation((candidate) => ({
+        score: candidate.url.endsWith("/rss") ? 40 : 70,
+        reasons: [],
+      }));
+
+      const result = await discoverFeeds("https://example.com");
+
+      expect(mockScoreFeed).toHaveBeenCalledWith(
+        expect.objectContaining({ url: "https://example.com/rss" }),
+        validUrl.href,
+      );
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(
+          result.value.feeds.map((f) => [f.url, f.confidence?.score]),
+        ).toEqual([
+          ["https://example.com/atom.xml", 70],
+          ["https://example.com/comments/feed/", 70],
+          ["https://example.com/rss", 40],
+        ]);
+      }
+    });
   });
 });
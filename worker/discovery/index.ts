@@ -1,16 +1,99 @@
-import { ResultAsync } from "neverthrow";
-import { safeFetch } from "../net/fetch";
-import type { FeedDiscoveryError, FeedResult } from "../types";
+import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import { MAX_HTML_BODY_BYTES, MAX_VERIFIED_CANDIDATES } from "../config";
+import { readHtmlPage } from "../net/body";
+import { fetchWithRedirects } from "../net/fetch";
+import { robotsPolicy } from "../robots/policy";
+import type {
+  CrawlResult,
+  DiscoveryOptions,
+  DiscoveryResult,
+  FeedDiscoveryError,
+  FeedResult,
+  ProgressReporter,
+  RobotsTxtReport,
+} from "../types";
 import { validateTargetUrl } from "../validation/url";
+import { findAncestorFeeds } from "./ancestors";
+import { findAnchorFeeds } from "./anchors";
+import { findApplePodcastFeeds } from "./applePodcasts";
+import { detectCms } from "./cms";
 import { tryCommonPaths } from "./commonPaths";
+import { scoreFeed } from "./confidence";
+import { dedupeFeeds } from "./dedupe";
 import { findMetaFeeds } from "./html";
+import { classifyFeed } from "./kind";
+import { findLinkHeaderFeeds } from "./linkHeader";
+import { findSitemapFeeds } from "./sitemap";
+import { findSiteRuleFeeds } from "./siteRules";
+import { verifyFeeds } from "./verify";
 
 /**
- * Discover feeds from a target URL using multiple strategies
+ * Whether a verified candidate belongs in the result. Candidates that
+ * turned out not to be feeds are dropped however they were found: an
+ * advertised link to a missing page, an HTML page or a blocked address
+ * is no more useful to subscribe to than a bad guess.
+ */
+function isReportableFeed(feed: FeedResult): boolean {
+  return feed.verification !== "invalid";
+}
+
+/**
+ * List the most confident feeds first; among equally confident ones the
+ * site's main feeds go ahead of comment, section and podcast feeds, and
+ * the order of discovery is kept otherwise
+ */
+function sortByConfidence(feeds: FeedResult[]): FeedResult[] {
+  const rank = (feed: FeedResult) => [
+    -(feed.confidence?.score ?? 0),
+    feed.kind === "main" ? 0 : 1,
+  ];
+  return [...feeds].sort((feed, other) => {
+    const [score, kind] = rank(feed);
+    const [otherScore, otherKind] = rank(other);
+    return score - otherScore || kind - otherKind;
+  });
+}
+
+/**
+ * Summarise the candidates robots.txt disallowed, if there were any
+ */
+function reportRobotsTxt(
+  disallowedUrls: string[],
+): RobotsTxtReport | undefined {
+  return disallowedUrls.length > 0
+    ? { mode: robotsPolicy.mode, disallowedUrls }
+    : undefined;
+}
+
+/**
+ * Discover feeds from a target URL using multiple strategies, then fetch
+ * each candidate to verify that it really is a feed.
+ * Guessed candidates (probed paths and page links) are subject to the
+ * site's robots.txt; advertised feeds are not.
+ * With `walkAncestors`, the feeds advertised by the page's parent
+ * directories and the homepage are collected too.
+ * Apple Podcasts show pages resolve to the podcast's own feed.
+ * Candidates that are one feed under equivalent URLs, redirects or a shared
+ * self URL are merged into the best-labelled one, listing the others as
+ * alternates.
+ * Each feed is classified by the part of the site it covers and scored by
+ * how likely it is the one to subscribe to; the most confident are listed
+ * first.
+ * The page's CMS, when recognised, is reported alongside the feeds.
+ * Stages, probes and verified feeds are reported to `onProgress` as they happen.
  */
 export function discoverFeeds(
   targetUrl: string,
-): ResultAsync<FeedResult[], FeedDiscoveryError> {
+  onProgress: ProgressReporter = () => undefined,
+  { walkAncestors = false }: DiscoveryOptions = {},
+): ResultAsync<DiscoveryResult, FeedDiscoveryError> {
+  const findOptionalAncestorFeeds = (
+    pageUrl: string,
+  ): ResultAsync<CrawlResult, never> =>
+    walkAncestors
+      ? findAncestorFeeds(pageUrl, onProgress)
+      : okAsync({ feeds: [], disallowedUrls: [] });
+
   return validateTargetUrl(targetUrl)
     .mapErr(
       (validationError): FeedDiscoveryError => ({
@@ -19,48 +102,230 @@ export function discoverFeeds(
       }),
     )
     .asyncAndThen((validatedUrl) => {
-      // Run HTML fetch and common paths discovery in parallel
-      const htmlFetchPromise = safeFetch(validatedUrl.href)
-        .andThen((response) =>
-          ResultAsync.fromPromise(
-            response.text(),
-            (): FeedDiscoveryError => ({
-              type: "PARSING_ERROR",
-              message: "Failed to parse response body",
-            }),
-          ),
-        )
-        .map((html) => findMetaFeeds(html, validatedUrl.href));
-
-      const commonPathsPromise = tryCommonPaths(validatedUrl.href);
-
-      // Combine both approaches in parallel
-      return ResultAsync.combine([htmlFetchPromise, commonPathsPromise])
-        .map(([metaFeeds, commonFeeds]) => {
-          const feeds: FeedResult[] = [];
-          const foundUrls = new Set<string>();
-
-          // Add meta feeds first
-          metaFeeds.forEach((feed) => {
-            if (!foundUrls.has(feed.url)) {
-              foundUrls.add(feed.url);
-              feeds.push(feed);
-            }
-          });
+      onProgress({ type: "stage", stage: "page" });
+      // Apple Podcasts pages are looked up while the page is read
+      const podcastLookup = findApplePodcastFeeds(validatedUrl.href);
 
-          // Add common path feeds
-          commonFeeds.forEach((feed) => {
-            if (!foundUrls.has(feed.url)) {
-              foundUrls.add(feed.url);
-              feeds.push(feed);
-            }
-          });
+      // Relative feed URLs resolve against the post-redirect page URL.
+      const htmlFetchPromise = fetchWithRedirects(validatedUrl.href).andThen(
+        ({ response, url: resolvedUrl }) => {
+          const linkHeaderFeeds = findLinkHeaderFeeds(
+            response.headers,
+            resolvedUrl,
+          );
+          // Only read past </head> to scan anchors when nothing better exists
+          const hasAdvertisedFeeds = (head: string) =>
+            linkHeaderFeeds.length > 0 ||
+            findMetaFeeds(head, resolvedUrl).length > 0;
+
+          return readHtmlPage(
+            response,
+            MAX_HTML_BODY_BYTES,
+            hasAdvertisedFeeds,
+          ).map((html) => ({
+            // Platforms are recognised by the URL the user asked for
+            siteRuleFeeds: findSiteRuleFeeds(validatedUrl.href, html),
+            metaFeeds: findMetaFeeds(html, resolvedUrl),
+            linkHeaderFeeds,
+            anchorFeeds: findAnchorFeeds(html, resolvedUrl),
+            platform: detectCms(html) ?? undefined,
+            cacheControl: response.headers.get("Cache-Control") ?? undefined,
+            resolvedUrl,
+          }));
+        },
+      );
+
+      // Path probing waits for the page so that a recognised CMS narrows the
+      // probes down to the paths it actually serves
+      return htmlFetchPromise
+        .andThen((pageFeeds) => {
+          onProgress({ type: "stage", stage: "common-path" });
+          // Sitemaps and ancestors are read while the common paths are probed
+          const sitemapSearch = findSitemapFeeds(pageFeeds.resolvedUrl);
+          const ancestorSearch = findOptionalAncestorFeeds(
+            pageFeeds.resolvedUrl,
+          );
+          return tryCommonPaths(
+            validatedUrl.href,
+            pageFeeds.platform,
+            onProgress,
+          ).andThen((commonPaths) =>
+            ResultAsync.combine([
+              sitemapSearch,
+              ancestorSearch,
+              podcastLookup,
+            ]).andThen(([sitemap, ancestors, podcastFeeds]) =>
+              robotsPolicy
+                .check(pageFeeds.anchorFeeds.map((feed) => feed.url))
+                .map((anchorVerdict) => ({
+                  pageFeeds,
+                  podcastFeeds,
+                  ancestorFeeds: ancestors.feeds,
+                  commonFeeds: commonPaths.feeds,
+                  sitemapFeeds: sitemap.feeds,
+                  anchorFeeds: pageFeeds.anchorFeeds.filter((feed) =>
+                    anchorVerdict.permittedUrls.includes(feed.url),
+                  ),
+                  disallowedUrls: [
+                    ...ancestors.disallowedUrls,
+                    ...commonPaths.disallowedUrls,
+                    ...sitemap.disallowedUrls,
+                    ...anchorVerdict.disallowedUrls,
+                  ],
+                })),
+            ),
+          );
+        })
+        .map(
+          ({
+            pageFeeds,
+            podcastFeeds,
+            ancestorFeeds,
+            commonFeeds,
+            sitemapFeeds,
+            anchorFeeds,
+            disallowedUrls,
+          }) => {
+            const {
+              siteRuleFeeds,
+              metaFeeds,
+              linkHeaderFeeds,
+              platform,
+              cacheControl,
+              resolvedUrl,
+            } = pageFeeds;
+            const feeds: FeedResult[] = [];
+            const foundUrls = new Set<string>();
+
+            // Platform-specific feeds are the most precise, so they come first
+            [...siteRuleFeeds, ...podcastFeeds].forEach((feed) => {
+              if (!foundUrls.has(feed.url)) {
+                foundUrls.add(feed.url);
+                feeds.push(feed);
+              }
+            });
+
+            // Add meta feeds
+            metaFeeds.forEach((feed) => {
+              if (!foundUrls.has(feed.url)) {
+                foundUrls.add(feed.url);
+                feeds.push(feed);
+              }
+            });
 
-          return feeds;
+            // Add feeds advertised in Link headers
+            linkHeaderFeeds.forEach((feed) => {
+              if (!foundUrls.has(feed.url)) {
+                foundUrls.add(feed.url);
+                feeds.push(feed);
+              }
+            });
+
+            // Add feeds advertised by parent directories and the homepage
+            ancestorFeeds.forEach((feed) => {
+              if (!foundUrls.has(feed.url)) {
+                foundUrls.add(feed.url);
+                feeds.push(feed);
+              }
+            });
+
+            // Add common path feeds
+            commonFeeds.forEach((feed) => {
+              if (!foundUrls.has(feed.url)) {
+                foundUrls.add(feed.url);
+                feeds.push(feed);
+              }
+            });
+
+            // Add feeds listed in the sitemap
+            sitemapFeeds.forEach((feed) => {
+              if (!foundUrls.has(feed.url)) {
+                foundUrls.add(feed.url);
+                feeds.push(feed);
+              }
+            });
+
+            // Add heuristic page links last
+            anchorFeeds.forEach((feed) => {
+              if (!foundUrls.has(feed.url)) {
+                foundUrls.add(feed.url);
+                feeds.push(feed);
+              }
+            });
+
+            return {
+              feeds,
+              resolvedUrl,
+              platform,
+              cacheControl,
+              robotsTxt: reportRobotsTxt(disallowedUrls),
+            };
+          },
+        )
+        .orElse((error) => {
+          // Oversized pages are refused outright rather than probed further
+          if (error.type === "RESPONSE_TOO_LARGE") {
+            return errAsync(error);
+          }
+          // Fallback: if HTML fetch fails, use site rules, the podcast
+          // lookup, common paths and the ancestor walk, since a missing
+          // page's parents may still load
+          const siteRuleFeeds = findSiteRuleFeeds(validatedUrl.href);
+          onProgress({ type: "stage", stage: "common-path" });
+          const ancestorSearch = findOptionalAncestorFeeds(validatedUrl.href);
+          return tryCommonPaths(validatedUrl.href, undefined, onProgress)
+            .andThen((commonPaths) =>
+              ResultAsync.combine([ancestorSearch, podcastLookup]).map(
+                ([ancestors, podcastFeeds]) =>
+                  [commonPaths, ancestors, podcastFeeds] as const,
+              ),
+            )
+            .map(([commonPaths, ancestors, podcastFeeds]) => {
+              const foundUrls = new Set<string>();
+              const feeds = [
+                ...siteRuleFeeds,
+                ...podcastFeeds,
+                ...ancestors.feeds,
+                ...commonPaths.feeds,
+              ].filter((feed) => {
+                if (foundUrls.has(feed.url)) return false;
+                foundUrls.add(feed.url);
+                return true;
+              });
+              return {
+                feeds,
+                resolvedUrl: validatedUrl.href,
+                pageUnavailable: true,
+                robotsTxt: reportRobotsTxt([
+                  ...ancestors.disallowedUrls,
+                  ...commonPaths.disallowedUrls,
+                ]),
+              };
+            });
         })
-        .orElse(() => {
-          // Fallback: if HTML fetch fails, try only common paths
-          return tryCommonPaths(validatedUrl.href);
+        .andThen(({ feeds, ...discovery }) => {
+          onProgress({ type: "stage", stage: "verification" });
+          // Classified and scored once verified, when the feed's own title,
+          // content type and items are known
+          const assess = (feed: FeedResult): FeedResult => ({
+            ...feed,
+            kind: classifyFeed(feed),
+            confidence: scoreFeed(feed, discovery.resolvedUrl),
+          });
+          // Candidates are merged most trusted first, so the cap drops guesses
+          return verifyFeeds(
+            feeds.slice(0, MAX_VERIFIED_CANDIDATES),
+            (feed) => {
+              if (isReportableFeed(feed)) {
+                onProgress({ type: "feed", feed: assess(feed) });
+              }
+            },
+          ).map((verifiedFeeds) => ({
+            ...discovery,
+            feeds: sortByConfidence(
+              dedupeFeeds(verifiedFeeds.filter(isReportableFeed)).map(assess),
+            ),
+          }));
         });
     });
 }
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import type { FeedResult } from "../types";
+import { classifyFeed } from "./kind";
+
+function feed(url: string, title?: string): FeedResult {
+  return { url, title, type: "RSS", discoveryMethod: "meta-tag" };
+}
+
+describe("discovery/kind", () => {
+  describe("classifyFeed", () => {
+    it("should take feeds that match no rule to be the main feed", () => {
+      expect(classifyFeed(feed("https://example.com/feed/", "Example"))).toBe(
+        "main",
+      );
+      expect(classifyFeed(feed("https://example.com/?feed=rss2"))).toBe("main");
+    });
+
+    it("should recognise comment feeds by URL", () => {
+      expect(classifyFeed(feed("https://example.com/comments/feed/"))).toBe(
+        "comments",
+      );
+      expect(
+        classifyFeed(feed("https://example.com/?feed=comments-rss2")),
+      ).toBe("comments");
+    });
+
+    it("should recognise per-post comment feeds by their link title", () => {
+      expect(
+        classifyFeed(
+          feed(
+            "https://example.com/2024/05/hello-world/feed/",
+            "Example » Hello World Comments Feed",
+          ),
+        ),
+      ).toBe("comments");
+    });
+
+    it("should recognise comment feeds by the feed's own title", () => {
+      expect(
+        classifyFeed({
+          ...feed("https://example.com/2024/05/hello-world/feed/"),
+          metadata: {
+            title: "Comments on: Hello World",
+            itemCount: 2,
+            sampleItemTitles: [],
+          },
+        }),
+      ).toBe("comments");
+    });
+
+    it("should recognise category, tag and author feeds", () => {
+      expect(
+        classifyFeed(feed("https://example.com/category/news/feed/")),
+      ).toBe("category");
+      expect(
+        classifyFeed(feed("https://example.com/taxonomy/term/5/feed")),
+      ).toBe("category");
+      expect(classifyFeed(feed("https://example.com/tag/rust/feed/"))).toBe(
+        "tag",
+      );
+      expect(classifyFeed(feed("https://example.com/author/jane/feed/"))).toBe(
+        "author",
+      );
+    });
+
+    it("should recognise section feeds by WordPress link titles", () => {
+      expect(
+        classifyFeed(
+          feed(
+            "https://example.com/?feed=rss2&c=3",
+            "Example » News Category Feed",
+          ),
+        ),
+      ).toBe("category");
+      expect(
+        classifyFeed(
+          feed("https://example.com/?feed=rss2&t=9", "Example » Rust Tag Feed"),
+        ),
+      ).toBe("tag");
+      expect(
+        classifyFeed(
+          feed(
+            "https://example.com/?feed=rss2&a=2",
+            "Example » Posts by Jane Feed",
+          ),
+        ),
+      ).toBe("author");
+    });
+
+    it("should recognise podcast feeds", () => {
+      expect(classifyFeed(feed("https://example.com/podcast/feed.xml"))).toBe(
+        "podcast",
+      );
+      expect(
+        classifyFeed(
+          feed("https://feeds.example.com/show", "The Example Podcast"),
+        ),
+      ).toBe("podcast");
+    });
+
+    it("should recognise podcast feeds by their podcast tags", () => {
+      expect(
+        classifyFeed({
+          ...feed("https://feeds.example.com/show", "The Example Show"),
+          metadata: {
+            itemCount: 1,
+            sampleItemTitles: [],
+            podcast: { episodeCount: 1 },
+          },
+        }),
+      ).toBe("podcast");
+    });
+
+    it("should match whole words only", () => {
+      expect(classifyFeed(feed("https://example.com/catalog/feed"))).toBe(
+        "main",
+      );
+      expect(
+        classifyFeed(feed("https://example.com/feed", "Authors' Guild News")),
+      ).toBe("main");
+    });
+
+    it("should classify feeds whose URL does not parse", () => {
+      expect(classifyFeed(feed("http://"))).toBe("main");
+      expect(classifyFeed(feed("not a url/comments"))).toBe("comments");
+    });
+
+    it("should classify a podcast's comment feed as comments", () => {
+      expect(
+        classifyFeed(
+          feed("https://example.com/podcast/episode-1/comments/feed"),
+        ),
+      ).toBe("comments");
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { Result } from "neverthrow";
+import type { FeedKind, FeedResult } from "../types";
+import { toWords } from "./anchors";
+
+/**
+ * How to recognise a feed that covers only part of a site
+ */
+interface KindRule {
+  kind: Exclude<FeedKind, "main">;
+  /** Words of the feed URL's path or query that mark the kind */
+  urlWords: string[];
+  /** Wording of the feed's title that marks the kind */
+  titlePattern: RegExp;
+  /** Whether the parsed feed itself marks the kind */
+  matchesContent?: (feed: FeedResult) => boolean;
+}
+
+/**
+ * Rules in order of precedence (a podcast's comment feed is a comment feed).
+ * Titles follow WordPress's wording, e.g. "Site » News Category Feed",
+ * "Site » Posts by Jane Feed" and "Comments on: Post title".
+ */
+const KIND_RULES: KindRule[] = [
+  {
+    kind: "comments",
+    urlWords: ["comment", "comments"],
+    titlePattern: /\bcomments?\b/i,
+  },
+  {
+    kind: "podcast",
+    urlWords: ["podcast", "podcasts"],
+    titlePattern: /\bpodcasts?\b/i,
+    matchesContent: (feed) => feed.metadata?.podcast !== undefined,
+  },
+  {
+    kind: "category",
+    urlWords: ["category", "categories", "cat", "taxonomy"],
+    titlePattern: /\bcategory feed\b/i,
+  },
+  {
+    kind: "tag",
+    urlWords: ["tag", "tags"],
+    titlePattern: /\btag feed\b/i,
+  },
+  {
+    kind: "author",
+    urlWords: ["author", "authors"],
+    titlePattern: /\bposts by\b|\bauthor feed\b/i,
+  },
+];
+
+/**
+ * Classify what part of the site a feed covers from its URL, its link
+ * title, and the title and podcast tags parsed from the feed itself.
+ * Feeds that match no rule are taken to be the site's main feed.
+ */
+export function classifyFeed(feed: FeedResult): FeedKind {
+  // A URL that does not parse is matched as written
+  const urlWords = toWords(
+    Result.fromThrowable(
+      () => new URL(feed.url),
+      () => null,
+    )()
+      .map((url) => url.pathname + url.search)
+      .unwrapOr(feed.url),
+  );
+  const titles = [feed.title, feed.metadata?.title].filter(
+    (title): title is string => title !== undefined,
+  );
+
+  const rule = KIND_RULES.find(
+    ({ urlWords: markers, titlePattern, matchesContent }) =>
+      markers.some((marker) => urlWords.includes(marker)) ||
+      titles.some((title) => titlePattern.test(title)) ||
+      matchesContent?.(feed) === true,
+  );
+  return rule?.kind ?? "main";
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { findLinkHeaderFeeds, parseLinkHeader } from "./linkHeader";
+
+describe("discovery/linkHeader", () => {
+  describe("parseLinkHeader", () => {
+    it("should parse multiple link-values with parameters", () => {
+      const links = parseLinkHeader(
+        '</feed.xml>; rel="alternate"; type="application/rss+xml"; title="Main, RSS", <https://example.com/style.css>; rel=stylesheet',
+      );
+
+      expect(links).toEqual([
+        {
+          href: "/feed.xml",
+          params: {
+            rel: "alternate",
+            type: "application/rss+xml",
+            title: "Main, RSS",
+          },
+        },
+        {
+          href: "https://example.com/style.css",
+          params: { rel: "stylesheet" },
+        },
+      ]);
+    });
+
+    it("should keep commas and semicolons inside the URI reference", () => {
+      const links = parseLinkHeader(
+        '<https://example.com/feed?a=1,2;b=3>; rel="alternate"',
+      );
+
+      expect(links[0].href).toBe("https://example.com/feed?a=1,2;b=3");
+    });
+
+    it("should lower-case parameter names and keep the first occurrence", () => {
+      const links = parseLinkHeader('</a>; REL="alternate"; rel="nofollow"');
+
+      expect(links[0].params).toEqual({ rel: "alternate" });
+    });
+
+    it("should decode RFC 8187 extended titles", () => {
+      const links = parseLinkHeader(
+        "</feed>; rel=alternate; title*=UTF-8'fr'Caf%C3%A9",
+      );
+
+      expect(links[0].params["title"]).toBe("Café");
+    });
+
+    it("should unescape quoted-pair characters", () => {
+      const links = parseLinkHeader('</feed>; title="Say \\"hi\\""');
+
+      expect(links[0].params["title"]).toBe('Say "hi"');
+    });
+
+    it("should skip malformed link-values", () => {
+      expect(parseLinkHeader('no-brackets; rel="alternate"')).toEqual([]);
+      expect(parseLinkHeader("")).toEqual([]);
+    });
+  });
+
+  describe("findLinkHeaderFeeds", () => {
+    const baseUrl = "https://example.com/blog/";
+
+    it("should return alternate feed links resolved against the base URL", () => {
+      const headers = new Headers({
+        link: '<feed.atom>; rel="alternate"; type="application/atom+xml"; title="Atom", </feed.json>; rel="alternate"; type="application/feed+json"',
+      });
+
+      expect(findLinkHeaderFeeds(headers, baseUrl)).toEqual([
+        {
+          url: "https://example.com/blog/feed.atom",
+          title: "Atom",
+          type: "Atom",
+          discoveryMethod: "link-header",
+        },
+        {
+          url: "https://example.com/feed.json",
+          title: "RSS/Atom feed",
+          type: "JSON",
+          discoveryMethod: "link-header",
+        },
+      ]);
+    });
+
+    it("should ignore links that are not alternate feeds", () => {
+      const headers = new Headers({
+        link: '</style.css>; rel="preload"; type="text/css", </feed>; rel="alternate"; type="text/html", </rss>; rel="self"; type="application/rss+xml", </wp-json/wp/v2/pages/2>; rel="alternate"; type="application/json"',
+      });
+
+      expect(findLinkHeaderFeeds(headers, baseUrl)).toEqual([]);
+    });
+
+    it("should deduplicate repeated feed links", () => {
+      const headers = new Headers({
+        link: '</feed>; rel="alternate"; type="application/rss+xml", </feed>; rel="alternate home"; type="application/rss+xml"',
+      });
+
+      expect(findLinkHeaderFeeds(headers, baseUrl)).toHaveLength(1);
+    });
+
+    it("should return an empty array without a Link header", () => {
+      expect(findLinkHeaderFeeds(new Headers(), baseUrl)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { Result } from "neverthrow";
+import { DEFAULT_FEED_TITLE, SUPPORTED_FEED_TYPES } from "../config";
+import type { FeedResult } from "../types";
+import { extractFeedTypeTitle } from "./html";
+
+/**
+ * A single link-value from an RFC 8288 Link header
+ */
+export interface ParsedLink {
+  /** The target URI reference, as written between angle brackets */
+  href: string;
+  /** Link parameters with lower-cased names (e.g. rel, type, title) */
+  params: Record<string, string>;
+}
+
+/**
+ * Split a header value on a separator, ignoring separators inside
+ * angle brackets or quoted strings
+ */
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  let inBrackets = false;
+
+  for (let index = 0; index < value.length; index++) {
+    const character = value[index];
+
+    if (inQuotes) {
+      current += character;
+      if (character === "\\" && index + 1 < value.length) {
+        current += value[++index];
+      } else if (character === '"') {
+        inQuotes = false;
+      }
+      continue;
+    }
+
+    if (character === '"') inQuotes = true;
+    else if (character === "<") inBrackets = true;
+    else if (character === ">") inBrackets = false;
+
+    if (character === separator && !inBrackets) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += character;
+    }
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Remove surrounding quotes and backslash escapes from a parameter value
+ */
+function unquote(value: string): string {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    return value.slice(1, -1).replace(/\\(.)/g, "$1");
+  }
+  return value;
+}
+
+/**
+ * Decode an RFC 8187 extended value such as UTF-8''Caf%C3%A9
+ */
+function decodeExtendedValue(value: string): string | null {
+  const match = /^([^']*)'[^']*'(.*)$/.exec(value);
+  if (!match || match[1].toLowerCase() !== "utf-8") return null;
+  return Result.fromThrowable(
+    () => decodeURIComponent(match[2]),
+    () => null,
+  )().unwrapOr(null);
+}
+
+/**
+ * Parse an RFC 8288 Link header into its link-values
+ */
+export function parseLinkHeader(header: string): ParsedLink[] {
+  const links: ParsedLink[] = [];
+
+  for (const linkValue of splitOutsideQuotes(header, ",")) {
+    const [target, ...rawParams] = splitOutsideQuotes(linkValue, ";");
+    const trimmedTarget = target.trim();
+    if (!trimmedTarget.startsWith("<") || !trimmedTarget.endsWith(">")) {
+      continue;
+    }
+
+    const params: Record<string, string> = {};
+    for (const rawParam of rawParams) {
+      const equalsIndex = rawParam.indexOf("=");
+      const name = (
+        equalsIndex === -1 ? rawParam : rawParam.slice(0, equalsIndex)
+      )
+        .trim()
+        .toLowerCase();
+      if (!name || name in params) continue; // first occurrence wins
+      params[name] =
+        equalsIndex === -1
+          ? ""
+          : unquote(rawParam.slice(equalsIndex + 1).trim());
+    }
+
+    // Prefer title* (RFC 8187) over title when it decodes cleanly
+    const extendedTitle = params["title*"]
+      ? decodeExtendedValue(params["title*"])
+      : null;
+    if (extendedTitle) {
+      params["title"] = extendedTitle;
+    }
+
+    links.push({ href: trimmedTarget.slice(1, -1).trim(), params });
+  }
+
+  return links;
+}
+
+/**
+ * Extract feeds advertised as rel="alternate" in a response's Link headers
+ */
+export function findLinkHeaderFeeds(
+  headers: Headers,
+  baseUrl: string,
+): FeedResult[] {
+  const header = headers.get("link");
+  if (!header) return [];
+
+  const feeds: FeedResult[] = [];
+  const foundUrls = new Set<string>();
+
+  for (const { href, params } of parseLinkHeader(header)) {
+    const relValues = (params["rel"] ?? "").toLowerCase().split(/\s+/);
+    const type = params["type"]?.toLowerCase().split(";")[0].trim();
+    if (
+      !relValues.includes("alternate") ||
+      !type ||
+      !SUPPORTED_FEED_TYPES.includes(type)
+    ) {
+      continue;
+    }
+
+    const urlResult = Result.fromThrowable(
+      () => new URL(href, baseUrl).href,
+      () => null,
+    )();
+    if (urlResult.isErr() || foundUrls.has(urlResult.value)) continue;
+
+    foundUrls.add(urlResult.value);
+    feeds.push({
+      url: urlResult.value,
+      title: params["title"] || DEFAULT_FEED_TITLE,
+      type: extractFeedTypeTitle(type),
+      discoveryMethod: "link-header",
+    });
+  }
+
+  return feeds;
+}
@@ -0,0 +1,228 @@
+import { describe, expect, it } from "vitest";
+import { findSiteRuleFeeds, type SiteRule } from "./siteRules";
+
+const CHANNEL_ID = "UCxxxxxxxxxxxxxxxxxxxxx1";
+
+function feedUrls(pageUrl: string, html?: string): string[] {
+  return findSiteRuleFeeds(pageUrl, html).map((feed) => feed.url);
+}
+
+describe("discovery/siteRules", () => {
+  describe("YouTube", () => {
+    it("should build the channel feed from a /channel/ URL", () => {
+      expect(
+        findSiteRuleFeeds(`https://www.youtube.com/channel/${CHANNEL_ID}`),
+      ).toEqual([
+        {
+          url: `https://www.youtube.com/feeds/videos.xml?channel_id=${CHANNEL_ID}`,
+          title: "YouTube channel videos",
+          type: "Atom",
+          discoveryMethod: "site-rule",
+          siteRule: "YouTube",
+        },
+      ]);
+    });
+
+    it("should read the channel ID of a handle from the canonical link", () => {
+      const html = `<head><link rel="canonical" href="https://www.youtube.com/channel/${CHANNEL_ID}"></head>`;
+
+      expect(feedUrls("https://www.youtube.com/@example", html)).toEqual([
+        `https://www.youtube.com/feeds/videos.xml?channel_id=${CHANNEL_ID}`,
+      ]);
+    });
+
+    it("should read the channel ID from embedded page data", () => {
+      const html = `<script>var ytInitialData = {"channelId":"${CHANNEL_ID}"};</script>`;
+
+      expect(feedUrls("https://m.youtube.com/c/example", html)).toEqual([
+        `https://www.youtube.com/feeds/videos.xml?channel_id=${CHANNEL_ID}`,
+      ]);
+    });
+
+    it("should return nothing for a handle when the page is unavailable", () => {
+      expect(feedUrls("https://www.youtube.com/@example")).toEqual([]);
+    });
+
+    it("should fall back to the legacy user feed", () => {
+      expect(feedUrls("https://www.youtube.com/user/example")).toEqual([
+        "https://www.youtube.com/feeds/videos.xml?user=example",
+      ]);
+    });
+
+    it("should build playlist feeds", () => {
+      expect(
+        feedUrls("https://www.youtube.com/playlist?list=PL1234567890"),
+      ).toEqual([
+        "https://www.youtube.com/feeds/videos.xml?playlist_id=PL1234567890",
+      ]);
+    });
+  });
+
+  describe("Reddit", () => {
+    it.each([
+      ["https://www.reddit.com/r/typescript/", "/r/typescript/.rss"],
+      ["https://old.reddit.com/r/typescript/top/", "/r/typescript/.rss"],
+      ["https://reddit.com/u/example", "/user/example/.rss"],
+      ["https://www.reddit.com/", "/.rss"],
+      [
+        "https://www.reddit.com/r/typescript/comments/abc123/a_thread/",
+        "/r/typescript/comments/abc123/a_thread/.rss",
+      ],
+    ])("should map %s to its feed", (pageUrl, feedPath) => {
+      expect(feedUrls(pageUrl)).toEqual([`https://www.reddit.com${feedPath}`]);
+    });
+  });
+
+  describe("GitHub", () => {
+    it("should build release, commit and tag feeds for a repository", () => {
+      const feeds = findSiteRuleFeeds(
+        "https://github.com/takuan-osho/feed-finder/tree/main/worker",
+      );
+
+      expect(feeds.map((feed) => [feed.url, feed.title])).toEqual([
+        [
+          "https://github.com/takuan-osho/feed-finder/releases.atom",
+          "takuan-osho/feed-finder releases",
+        ],
+        [
+          "https://github.com/takuan-osho/feed-finder/commits.atom",
+          "takuan-osho/feed-finder commits",
+        ],
+        [
+          "https://github.com/takuan-osho/feed-finder/tags.atom",
+          "takuan-osho/feed-finder tags",
+        ],
+      ]);
+    });
+
+    it("should build the activity feed for a user", () => {
+      expect(feedUrls("https://github.com/takuan-osho")).toEqual([
+        "https://github.com/takuan-osho.atom",
+      ]);
+    });
+
+    it("should ignore GitHub's own pages", () => {
+      expect(feedUrls("https://github.com/explore")).toEqual([]);
+      expect(feedUrls("https://github.com/")).toEqual([]);
+    });
+  });
+
+  describe("Medium", () => {
+    it.each([
+      ["https://medium.com/@example", "https://medium.com/feed/@example"],
+      [
+        "https://medium.com/some-publication/a-post-123",
+        "https://medium.com/feed/some-publication",
+      ],
+      ["https://medium.com/tag/rss", "https://medium.com/feed/tag/rss"],
+      ["https://example.medium.com/", "https://example.medium.com/feed"],
+    ])("should map %s to %s", (pageUrl, feedUrl) => {
+      expect(feedUrls(pageUrl)).toEqual([feedUrl]);
+    });
+
+    it("should not be mistaken for Mastodon", () => {
+      expect(
+        findSiteRuleFeeds("https://medium.com/@example").map(
+          (feed) => feed.siteRule,
+        ),
+      ).toEqual(["Medium"]);
+    });
+  });
+
+  describe("Substack", () => {
+    it("should build the newsletter feed", () => {
+      expect(feedUrls("https://example.substack.com/p/a-post")).toEqual([
+        "https://example.substack.com/feed",
+      ]);
+    });
+  });
+
+  describe("Mastodon", () => {
+    it("should build profile feeds on known instances", () => {
+      expect(feedUrls("https://mastodon.social/@example")).toEqual([
+        "https://mastodon.social/@example.rss",
+      ]);
+    });
+
+    it("should recognise other instances from the page", () => {
+      const html = '<meta name="application-name" content="Mastodon">';
+
+      expect(feedUrls("https://social.example.org/@example", html)).toEqual([
+        "https://social.example.org/@example.rss",
+      ]);
+    });
+
+    it("should recognise the generator and site name tags", () => {
+      expect(
+        feedUrls(
+          "https://social.example.org/@example",
+          '<meta property="og:site_name" content="Mastodon">',
+        ),
+      ).toEqual(["https://social.example.org/@example.rss"]);
+      expect(
+        feedUrls(
+          "https://social.example.org/@example",
+          '<meta name="generator" content="mastodon">',
+        ),
+      ).toEqual(["https://social.example.org/@example.rss"]);
+    });
+
+    it("should ignore /@name paths on sites that are not Mastodon", () => {
+      expect(
+        feedUrls("https://blog.example.com/@example", "<html></html>"),
+      ).toEqual([]);
+      expect(
+        feedUrls(
+          "https://blog.example.com/@example",
+          '<meta name="description" content="Mastodon">',
+        ),
+      ).toEqual([]);
+    });
+
+    it("should check pages full of unterminated meta tags quickly", () => {
+      const html = "<meta content=".repeat(50_000);
+
+      const start = performance.now();
+      const urls = feedUrls("https://blog.example.com/@example", html);
+      const elapsed = performance.now() - start;
+
+      expect(urls).toEqual([]);
+      expect(elapsed).toBeLessThan(1000);
+    });
+
+    it("should ignore remote profiles", () => {
+      expect(
+        feedUrls("https://mastodon.social/@example@other.example"),
+      ).toEqual([]);
+    });
+  });
+
+  describe("findSiteRuleFeeds", () => {
+    it("should return nothing for unknown sites or invalid URLs", () => {
+      expect(feedUrls("https://example.com/blog")).toEqual([]);
+      expect(feedUrls("not a url")).toEqual([]);
+    });
+
+    it("should accept a custom rule registry", () => {
+      const rule: SiteRule = {
+        name: "Example",
+        matches: (url) => url.hostname === "example.com",
+        findFeeds: (url) => [
+          { url: `${url.origin}/custom.xml`, type: "RSS" },
+          { url: `${url.origin}/custom.xml`, type: "RSS" },
+        ],
+      };
+
+      expect(
+        findSiteRuleFeeds("https://example.com/", undefined, [rule]),
+      ).toEqual([
+        {
+          url: "https://example.com/custom.xml",
+          type: "RSS",
+          discoveryMethod: "site-rule",
+          siteRule: "Example",
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,396 @@
+import { Result } from "neverthrow";
+import { parse } from "node-html-parser";
+import type { FeedResult } from "../types";
+
+/**
+ * A feed a site rule knows how to build for a page
+ */
+export type SiteRuleFeed = Pick<FeedResult, "url" | "title" | "type">;
+
+/**
+ * Maps pages of a well-known platform to the platform's feed URLs
+ */
+export interface SiteRule {
+  /** Human-readable platform name, reported with each feed */
+  name: string;
+  /** Whether the rule applies to a page URL */
+  matches: (url: URL) => boolean;
+  /**
+   * Build the platform's feeds for a page.
+   * `html` is the page source when it could be fetched.
+   */
+  findFeeds: (url: URL, html: string | undefined) => SiteRuleFeed[];
+}
+
+/**
+ * Whether a URL's host is the domain itself or one of its subdomains
+ */
+function isHostOf(url: URL, domain: string): boolean {
+  return url.hostname === domain || url.hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Non-empty, decoded path segments of a URL
+ */
+function pathSegments(url: URL): string[] {
+  return url.pathname
+    .split("/")
+    .filter((segment) => segment !== "")
+    .map((segment) =>
+      Result.fromThrowable(
+        () => decodeURIComponent(segment),
+        () => segment,
+      )().unwrapOr(segment),
+    );
+}
+
+const YOUTUBE_FEED_URL = "https://www.youtube.com/feeds/videos.xml";
+
+/**
+ * Channel IDs are "UC" followed by 22 URL-safe base64 characters
+ */
+const YOUTUBE_CHANNEL_ID = /^UC[\w-]{22}$/;
+
+/**
+ * Places a YouTube page exposes its channel ID, most reliable first
+ */
+const YOUTUBE_CHANNEL_ID_PATTERNS = [
+  /<link[^>]+rel=["']canonical["'][^>]+youtube\.com\/channel\/(UC[\w-]{22})/i,
+  /<meta[^>]+itemprop=["'](?:channelId|identifier)["'][^>]+content=["'](UC[\w-]{22})["']/i,
+  /"(?:externalId|channelId)"\s*:\s*"(UC[\w-]{22})"/,
+];
+
+function findYouTubeChannelId(html: string | undefined): string | undefined {
+  if (!html) return undefined;
+  for (const pattern of YOUTUBE_CHANNEL_ID_PATTERNS) {
+    const match = pattern.exec(html);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+const youtubeRule: SiteRule = {
+  name: "YouTube",
+  matches: (url) => isHostOf(url, "youtube.com"),
+  findFeeds: (url, html) => {
+    const [section, name] = pathSegments(url);
+
+    const playlistId = url.searchParams.get("list");
+    if (section === "playlist" && playlistId) {
+      return [
+        {
+          url: `${YOUTUBE_FEED_URL}?playlist_id=${encodeURIComponent(playlistId)}`,
+          title: "YouTube playlist videos",
+          type: "Atom",
+        },
+      ];
+    }
+
+    // Handles (/@name), custom URLs and watch pages only reveal the
+    // channel ID in the page source
+    const channelId =
+      section === "channel" && name && YOUTUBE_CHANNEL_ID.test(name)
+        ? name
+        : findYouTubeChannelId(html);
+    if (channelId) {
+      return [
+        {
+          url: `${YOUTUBE_FEED_URL}?channel_id=${channelId}`,
+          title: "YouTube channel videos",
+          type: "Atom",
+        },
+      ];
+    }
+
+    if (section === "user" && name) {
+      return [
+        {
+          url: `${YOUTUBE_FEED_URL}?user=${encodeURIComponent(name)}`,
+          title: "YouTube channel videos",
+          type: "Atom",
+        },
+      ];
+    }
+
+    return [];
+  },
+};
+
+const redditRule: SiteRule = {
+  name: "Reddit",
+  matches: (url) => isHostOf(url, "reddit.com"),
+  findFeeds: (url) => {
+    const segments = pathSegments(url);
+    const [section, name] = segments;
+    const feed = (path: string, title: string): SiteRuleFeed => ({
+      url: `https://www.reddit.com${path}/.rss`,
+      title,
+      type: "Atom",
+    });
+
+    if (segments.length === 0) {
+      return [feed("", "Reddit front page")];
+    }
+    if (section === "r" && name) {
+      // Comment threads have their own feed
+      if (segments[2] === "comments" && segments[3]) {
+        const thread = segments.slice(0, 5).map(encodeURIComponent).join("/");
+        return [feed(`/${thread}`, `r/${name} comments`)];
+      }
+      return [feed(`/r/${encodeURIComponent(name)}`, `r/${name} posts`)];
+    }
+    if ((section === "user" || section === "u") && name) {
+      return [feed(`/user/${encodeURIComponent(name)}`, `u/${name} activity`)];
+    }
+    return [];
+  },
+};
+
+/**
+ * First path segments on github.com that are not users or organisations
+ */
+const GITHUB_RESERVED_PATHS = new Set([
+  "about",
+  "apps",
+  "collections",
+  "enterprise",
+  "explore",
+  "features",
+  "issues",
+  "login",
+  "marketplace",
+  "notifications",
+  "orgs",
+  "pricing",
+  "pulls",
+  "search",
+  "settings",
+  "sponsors",
+  "topics",
+  "trending",
+]);
+
+const githubRule: SiteRule = {
+  name: "GitHub",
+  matches: (url) => url.hostname === "github.com",
+  findFeeds: (url) => {
+    const [owner, rawRepo] = pathSegments(url);
+    if (!owner || GITHUB_RESERVED_PATHS.has(owner.toLowerCase())) return [];
+
+    if (!rawRepo) {
+      return [
+        {
+          url: `https://github.com/${encodeURIComponent(owner)}.atom`,
+          title: `${owner} public activity`,
+          type: "Atom",
+        },
+      ];
+    }
+
+    const repo = rawRepo.replace(/\.git$/, "");
+    const base = `https://github.com/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+    return [
+      {
+        url: `${base}/releases.atom`,
+        title: `${owner}/${repo} releases`,
+        type: "Atom",
+      },
+      {
+        url: `${base}/commits.atom`,
+        title: `${owner}/${repo} commits`,
+        type: "Atom",
+      },
+      {
+        url: `${base}/tags.atom`,
+        title: `${owner}/${repo} tags`,
+        type: "Atom",
+      },
+    ];
+  },
+};
+
+/**
+ * First path segments on medium.com that are not authors or publications
+ */
+const MEDIUM_RESERVED_PATHS = new Set([
+  "about",
+  "m",
+  "me",
+  "membership",
+  "plans",
+  "search",
+]);
+
+const mediumRule: SiteRule = {
+  name: "Medium",
+  matches: (url) => isHostOf(url, "medium.com"),
+  findFeeds: (url) => {
+    // Custom subdomains (name.medium.com) publish a feed at /feed
+    if (url.hostname !== "medium.com" && url.hostname !== "www.medium.com") {
+      return [
+        {
+          url: `https://${url.hostname}/feed`,
+          title: `${url.hostname.split(".")[0]} on Medium`,
+          type: "RSS",
+        },
+      ];
+    }
+
+    const [section, name] = pathSegments(url);
+    if (!section || MEDIUM_RESERVED_PATHS.has(section)) return [];
+    if (section === "tag" && name) {
+      return [
+        {
+          url: `https://medium.com/feed/tag/${encodeURIComponent(name)}`,
+          title: `Medium posts tagged ${name}`,
+          type: "RSS",
+        },
+      ];
+    }
+    // Authors (/@name) and publications (/publication)
+    const feedPath = section.startsWith("@")
+      ? `@${encodeURIComponent(section.slice(1))}`
+      : encodeURIComponent(section);
+    return [
+      {
+        url: `https://medium.com/feed/${feedPath}`,
+        title: `${section} on Medium`,
+        type: "RSS",
+      },
+    ];
+  },
+};
+
+const substackRule: SiteRule = {
+  name: "Substack",
+  matches: (url) =>
+    url.hostname.endsWith(".substack.com") &&
+    url.hostname !== "www.substack.com",
+  findFeeds: (url) => [
+    {
+      url: `https://${url.hostname}/feed`,
+      title: `${url.hostname.split(".")[0]} on Substack`,
+      type: "RSS",
+    },
+  ],
+};
+
+/**
+ * Large instances that are recognised without fetching the page
+ */
+const KNOWN_MASTODON_HOSTS = new Set([
+  "fosstodon.org",
+  "hachyderm.io",
+  "infosec.exchange",
+  "mas.to",
+  "mastodon.online",
+  "mastodon.social",
+  "mstdn.jp",
+  "mstdn.social",
+  "social.vivaldi.net",
+]);
+
+/**
+ * Local profile paths such as /@name (remote profiles look like /@name@host)
+ */
+const MASTODON_PROFILE_PATH = /^\/@([\w.]+)\/?$/;
+
+/**
+ * Meta tags a Mastodon page names its software in, by name or property
+ */
+const MASTODON_META_NAMES = new Set([
+  "application-name",
+  "generator",
+  "og:site_name",
+]);
+
+/**
+ * Whether a page identifies itself as Mastodon through its meta tags
+ */
+function isMastodonPage(html: string | undefined): boolean {
+  if (!html) return false;
+  const docResult = Result.fromThrowable(
+    () => parse(html),
+    () => null,
+  )();
+  if (docResult.isErr()) return false;
+
+  return docResult.value.querySelectorAll("meta").some((meta) => {
+    const name = (
+      meta.getAttribute("name") ?? meta.getAttribute("property")
+    )?.toLowerCase();
+    return (
+      name !== undefined &&
+      MASTODON_META_NAMES.has(name) &&
+      meta.getAttribute("content")?.trim().toLowerCase() === "mastodon"
+    );
+  });
+}
+
+const mastodonRule: SiteRule = {
+  name: "Mastodon",
+  matches: (url) => MASTODON_PROFILE_PATH.test(url.pathname),
+  findFeeds: (url, html) => {
+    // Any site can use /@name paths, so other hosts must identify as Mastodon
+    const isMastodon =
+      KNOWN_MASTODON_HOSTS.has(url.hostname) || isMastodonPage(html);
+    const match = MASTODON_PROFILE_PATH.exec(url.pathname);
+    if (!isMastodon || !match) return [];
+
+    return [
+      {
+        url: `${url.origin}/@${match[1]}.rss`,
+        title: `@${match[1]}@${url.hostname} posts`,
+        type: "RSS",
+      },
+    ];
+  },
+};
+
+/**
+ * Registered site rules. Every matching rule contributes feeds, so add new
+ * platforms here with a `matches` check that is as specific as possible.
+ */
+export const SITE_RULES: SiteRule[] = [
+  youtubeRule,
+  redditRule,
+  githubRule,
+  mediumRule,
+  substackRule,
+  mastodonRule,
+];
+
+/**
+ * Build feeds for a page from every site rule that recognises its URL
+ */
+export function findSiteRuleFeeds(
+  pageUrl: string,
+  html?: string,
+  rules: SiteRule[] = SITE_RULES,
+): FeedResult[] {
+  const urlResult = Result.fromThrowable(
+    () => new URL(pageUrl),
+    () => null,
+  )();
+  if (urlResult.isErr()) return [];
+  const url = urlResult.value;
+
+  const feeds: FeedResult[] = [];
+  const foundUrls = new Set<string>();
+
+  for (const rule of rules) {
+    if (!rule.matches(url)) continue;
+
+    for (const feed of rule.findFeeds(url, html)) {
+      if (foundUrls.has(feed.url)) continue;
+      foundUrls.add(feed.url);
+      feeds.push({
+        ...feed,
+        discoveryMethod: "site-rule",
+        siteRule: rule.name,
+      });
+    }
+  }
+
+  return feeds;
+}
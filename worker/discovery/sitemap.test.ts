@@ -0,0 +1,257 @@
+import { errAsync, okAsync } from "neverthrow";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { findSitemapFeeds, parseSitemap } from "./sitemap";
+
+vi.mock("../net/fetch", () => ({
+  fetchWithRedirects: vi.fn(),
+}));
+
+vi.mock("../robots/policy", () => ({
+  robotsPolicy: { mode: "enforce", check: vi.fn(), sitemaps: vi.fn() },
+}));
+
+import { fetchWithRedirects } from "../net/fetch";
+import { robotsPolicy } from "../robots/policy";
+
+const mockFetchWithRedirects = vi.mocked(fetchWithRedirects);
+const mockRobotsCheck = vi.mocked(robotsPolicy.check);
+const mockRobotsSitemaps = vi.mocked(robotsPolicy.sitemaps);
+
+function urlset(...locs: string[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+    <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+      ${locs.map((loc) => `<url><loc>${loc}</loc></url>`).join("\n")}
+    </urlset>`;
+}
+
+function sitemapIndex(...locs: string[]): string {
+  return `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+      ${locs.map((loc) => `<sitemap><loc>${loc}</loc></sitemap>`).join("\n")}
+    </sitemapindex>`;
+}
+
+/**
+ * Serve sitemaps by URL; anything else is a 404
+ */
+function serveSitemaps(sitemaps: Record<string, string>) {
+  mockFetchWithRedirects.mockImplementation((url) =>
+    url in sitemaps
+      ? okAsync({ response: new Response(sitemaps[url]), url })
+      : errAsync({ type: "FETCH_FAILED", message: "HTTP 404", status: 404 }),
+  );
+}
+
+function fetchedUrls(): string[] {
+  return mockFetchWithRedirects.mock.calls.map(([url]) => url);
+}
+
+describe("discovery/sitemap", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRobotsSitemaps.mockReturnValue(okAsync([]));
+    mockRobotsCheck.mockImplementation((urls) =>
+      okAsync({ permittedUrls: urls, disallowedUrls: [] }),
+    );
+  });
+
+  describe("parseSitemap", () => {
+    it("should list the pages of a urlset", () => {
+      expect(
+        parseSitemap(urlset("https://example.com/", "https://example.com/a")),
+      ).toEqual({
+        sitemapUrls: [],
+        pageUrls: ["https://example.com/", "https://example.com/a"],
+      });
+    });
+
+    it("should list the child sitemaps of a sitemap index", () => {
+      expect(
+        parseSitemap(sitemapIndex("https://example.com/post-sitemap.xml")),
+      ).toEqual({
+        sitemapUrls: ["https://example.com/post-sitemap.xml"],
+        pageUrls: [],
+      });
+    });
+
+    it("should keep the entries read before a truncation", () => {
+      const truncated = urlset(
+        "https://example.com/a",
+        "https://example.com/b",
+      ).slice(0, -40);
+
+      expect(parseSitemap(truncated).pageUrls).toContain(
+        "https://example.com/a",
+      );
+    });
+
+    it("should list nothing for other documents", () => {
+      expect(parseSitemap("<html><body>Not found</body></html>")).toEqual({
+        sitemapUrls: [],
+        pageUrls: [],
+      });
+    });
+  });
+
+  describe("findSitemapFeeds", () => {
+    it("should read /sitemap.xml and pick out feed-like URLs", async () => {
+      serveSitemaps({
+        "https://example.com/sitemap.xml": urlset(
+          "https://example.com/",
+          "https://example.com/about",
+          "https://example.com/feed.atom",
+          "https://example.com/podcast/rss",
+          "https://example.com/feedback",
+        ),
+      });
+
+      const result = await findSitemapFeeds("https://example.com/blog/");
+
+      expect(fetchedUrls()).toEqual(["https://example.com/sitemap.xml"]);
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toEqual({
+          feeds: [
+            {
+              url: "https://example.com/feed.atom",
+              title: "RSS/Atom feed",
+              type: "Atom",
+              discoveryMethod: "sitemap",
+            },
+            {
+              url: "https://example.com/podcast/rss",
+              title: "RSS/Atom feed",
+              type: "RSS",
+              discoveryMethod: "sitemap",
+            },
+          ],
+          disallowedUrls: [],
+        });
+      }
+    });
+
+    it("should prefer the sitemaps listed in robots.txt", async () => {
+      mockRobotsSitemaps.mockReturnValue(
+        okAsync(["https://example.com/sitemaps/main.xml"]),
+      );
+      serveSitemaps({
+        "https://example.com/sitemaps/main.xml": urlset(
+          "https://example.com/rss.xml",
+        ),
+      });
+
+      const result = await findSitemapFeeds("https://example.com/");
+
+      expect(fetchedUrls()).toEqual(["https://example.com/sitemaps/main.xml"]);
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.feeds.map((feed) => feed.url)).toEqual([
+          "https://example.com/rss.xml",
+        ]);
+      }
+    });
+
+    it("should follow sitemap indexes only as deep and as often as allowed", async () => {
+      serveSitemaps({
+        "https://example.com/sitemap.xml": sitemapIndex(
+          "https://example.com/sitemap-1.xml",
+          "https://example.com/sitemap-2.xml",
+          "https://example.com/sitemap-3.xml",
+          "https://example.com/sitemap-4.xml",
+        ),
+        "https://example.com/sitemap-1.xml": sitemapIndex(
+          "https://example.com/nested.xml",
+        ),
+        "https://example.com/sitemap-2.xml": urlset(
+          "https://example.com/feed/",
+        ),
+      });
+
+      const result = await findSitemapFeeds("https://example.com/");
+
+      // One index level down, and four fetches in all
+      expect(fetchedUrls()).toEqual([
+        "https://example.com/sitemap.xml",
+        "https://example.com/sitemap-1.xml",
+        "https://example.com/sitemap-2.xml",
+        "https://example.com/sitemap-3.xml",
+      ]);
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.feeds.map((feed) => feed.url)).toEqual([
+          "https://example.com/feed/",
+        ]);
+      }
+    });
+
+    it("should cap the number of candidates", async () => {
+      serveSitemaps({
+        "https://example.com/sitemap.xml": urlset(
+          ...Array.from(
+            { length: 15 },
+            (_, index) => `https://example.com/category/${index}/feed`,
+          ),
+        ),
+      });
+
+      const result = await findSitemapFeeds("https://example.com/");
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.feeds).toHaveLength(10);
+      }
+    });
+
+    it("should not request sitemaps or candidates that robots.txt disallows", async () => {
+      mockRobotsSitemaps.mockReturnValue(
+        okAsync([
+          "https://example.com/private-sitemap.xml",
+          "https://example.com/sitemap.xml",
+        ]),
+      );
+      mockRobotsCheck.mockImplementation((urls) => {
+        const disallowedUrls = urls.filter((url) => url.includes("private"));
+        return okAsync({
+          permittedUrls: urls.filter((url) => !disallowedUrls.includes(url)),
+          disallowedUrls,
+        });
+      });
+      serveSitemaps({
+        "https://example.com/sitemap.xml": urlset(
+          "https://example.com/private/feed.xml",
+          "https://example.com/feed.xml",
+        ),
+      });
+
+      const result = await findSitemapFeeds("https://example.com/");
+
+      expect(fetchedUrls()).toEqual(["https://example.com/sitemap.xml"]);
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toEqual({
+          feeds: [
+            expect.objectContaining({ url: "https://example.com/feed.xml" }),
+          ],
+          disallowedUrls: [
+            "https://example.com/private-sitemap.xml",
+            "https://example.com/private/feed.xml",
+          ],
+        });
+      }
+    });
+
+    it("should skip sitemaps on hosts that are not permitted", async () => {
+      mockRobotsSitemaps.mockReturnValue(
+        okAsync(["http://127.0.0.1/sitemap.xml"]),
+      );
+      serveSitemaps({});
+
+      const result = await findSitemapFeeds("https://example.com/");
+
+      expect(mockFetchWithRedirects).not.toHaveBeenCalled();
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.feeds).toEqual([]);
+      }
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { okAsync, Result, ResultAsync } from "neverthrow";
+import {
+  DEFAULT_FEED_TITLE,
+  MAX_SITEMAP_BYTES,
+  MAX_SITEMAP_CANDIDATES,
+  MAX_SITEMAP_DEPTH,
+  MAX_SITEMAP_FETCHES,
+} from "../config";
+import { localName, parseXml, type XmlElement } from "../feed/xml";
+import { readLimitedText } from "../net/body";
+import { fetchWithRedirects } from "../net/fetch";
+import { robotsPolicy } from "../robots/policy";
+import type { CrawlResult, FeedResult } from "../types";
+import { validateTargetUrl } from "../validation/url";
+import { guessFeedType, mentionsFeed } from "./anchors";
+
+const SITEMAP_ACCEPT_HEADER = "application/xml, text/xml;q=0.9, */*;q=0.1";
+
+/**
+ * Locations listed by a sitemap: child sitemaps of a sitemap index, or the
+ * pages of a urlset
+ */
+export interface SitemapEntries {
+  sitemapUrls: string[];
+  pageUrls: string[];
+}
+
+/**
+ * Sitemap locations read so far, and the ones robots.txt disallows
+ */
+interface SitemapCrawl {
+  pageUrls: string[];
+  disallowedUrls: string[];
+}
+
+/**
+ * The <loc> of each `entryName` child of the document element
+ */
+function entryLocations(root: XmlElement, entryName: string): string[] {
+  return root.children
+    .filter((entry) => localName(entry.name) === entryName)
+    .map(
+      (entry) =>
+        entry.children
+          .find((child) => localName(child.name) === "loc")
+          ?.text.trim() ?? "",
+    )
+    .filter((loc) => loc.length > 0);
+}
+
+/**
+ * Read the entries of a sitemap index or urlset. Anything else lists
+ * nothing; a truncated sitemap lists the entries read before the cut.
+ */
+export function parseSitemap(xml: string): SitemapEntries {
+  const { root } = parseXml(xml);
+  if (root && localName(root.name) === "sitemapindex") {
+    return { sitemapUrls: entryLocations(root, "sitemap"), pageUrls: [] };
+  }
+  if (root && localName(root.name) === "urlset") {
+    return { sitemapUrls: [], pageUrls: entryLocations(root, "url") };
+  }
+  return { sitemapUrls: [], pageUrls: [] };
+}
+
+/**
+ * Fetch and parse one sitemap. Sitemaps that cannot be fetched list nothing.
+ */
+function readSitemap(url: string): ResultAsync<SitemapEntries, never> {
+  return validateTargetUrl(url)
+    .asyncAndThen((validatedUrl) =>
+      fetchWithRedirects(validatedUrl.href, {
+        headers: { Accept: SITEMAP_ACCEPT_HEADER },
+      }),
+    )
+    .andThen(({ response }) => readLimitedText(response, MAX_SITEMAP_BYTES))
+    .map(({ text }) => parseSitemap(text))
+    .orElse(() => okAsync({ sitemapUrls: [], pageUrls: [] }));
+}
+
+/**
+ * Read sitemaps level by level, following sitemap indexes down to
+ * MAX_SITEMAP_DEPTH while fetches remain
+ */
+function crawlSitemaps(
+  sitemapUrls: string[],
+  depth: number,
+  remainingFetches: number,
+): ResultAsync<SitemapCrawl, never> {
+  const batch = [...new Set(sitemapUrls)].slice(0, remainingFetches);
+  if (batch.length === 0) {
+    return okAsync({ pageUrls: [], disallowedUrls: [] });
+  }
+
+  return robotsPolicy
+    .check(batch)
+    .andThen(({ permittedUrls, disallowedUrls }) =>
+      ResultAsync.combine(permittedUrls.map(readSitemap)).andThen(
+        (sitemaps) => {
+          const pageUrls = sitemaps.flatMap((sitemap) => sitemap.pageUrls);
+          const childSitemaps =
+            depth < MAX_SITEMAP_DEPTH
+              ? sitemaps.flatMap((sitemap) => sitemap.sitemapUrls)
+              : [];
+
+          return crawlSitemaps(
+            childSitemaps,
+            depth + 1,
+            remainingFetches - permittedUrls.length,
+          ).map((children) => ({
+            pageUrls: [...pageUrls, ...children.pageUrls],
+            disallowedUrls: [...disallowedUrls, ...children.disallowedUrls],
+          }));
+        },
+      ),
+    );
+}
+
+/**
+ * Listed pages whose URL mentions a feed, without duplicates or fragments
+ */
+function selectFeedCandidates(pageUrls: string[]): URL[] {
+  const candidates = new Map<string, URL>();
+  for (const pageUrl of pageUrls) {
+    const urlResult = Result.fromThrowable(
+      () => new URL(pageUrl),
+      () => null,
+    )();
+    if (urlResult.isErr()) continue;
+
+    const url = urlResult.value;
+    url.hash = "";
+    if (
+      (url.protocol === "http:" || url.protocol === "https:") &&
+      mentionsFeed(url.pathname + url.search)
+    ) {
+      candidates.set(url.href, url);
+    }
+    if (candidates.size >= MAX_SITEMAP_CANDIDATES) break;
+  }
+  return [...candidates.values()];
+}
+
+/**
+ * Find candidate feeds among the pages listed in the site's sitemaps: the
+ * ones robots.txt names, or /sitemap.xml when it names none.
+ * Candidates are guesses from their URLs and need verification.
+ */
+export function findSitemapFeeds(
+  baseUrl: string,
+): ResultAsync<CrawlResult, never> {
+  return robotsPolicy
+    .sitemaps(baseUrl)
+    .andThen((listedSitemaps) => {
+      const sitemapUrls =
+        listedSitemaps.length > 0
+          ? listedSitemaps
+          : [`${new URL(baseUrl).origin}/sitemap.xml`];
+      return crawlSitemaps(sitemapUrls, 0, MAX_SITEMAP_FETCHES);
+    })
+    .andThen(({ pageUrls, disallowedUrls }) => {
+      const candidates = selectFeedCandidates(pageUrls);
+      return robotsPolicy
+        .check(candidates.map((url) => url.href))
+        .map((verdict) => ({
+          feeds: candidates
+            .filter((url) => verdict.permittedUrls.includes(url.href))
+            .map(
+              (url): FeedResult => ({
+                url: url.href,
+                title: DEFAULT_FEED_TITLE,
+                type: guessFeedType(url),
+                discoveryMethod: "sitemap",
+              }),
+            ),
+          disallowedUrls: [...disallowedUrls, ...verdict.disallowedUrls],
+        }));
+    });
+}
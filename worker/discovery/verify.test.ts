@@ -0,0 +1,398 @@
+import { ResultAsync } from "neverthrow";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { FeedResult } from "../types";
+import {
+  detectFeedFormat,
+  detectFeedRoot,
+  verifyFeed,
+  verifyFeeds,
+} from "./verify";
+
+vi.mock("../net/fetch", () => ({
+  fetchWithRedirects: vi.fn(),
+}));
+
+import { fetchWithRedirects } from "../net/fetch";
+
+const mockFetchWithRedirects = vi.mocked(fetchWithRedirects);
+
+const candidate: FeedResult = {
+  url: "https://example.com/feed.xml",
+  title: "/feed.xml feed",
+  type: "RSS",
+  discoveryMethod: "common-path",
+};
+
+function mockBody(body: string, url = candidate.url) {
+  mockFetchWithRedirects.mockReturnValueOnce(
+    ResultAsync.fromSafePromise(
+      Promise.resolve({ response: new Response(body), url }),
+    ),
+  );
+}
+
+describe("discovery/verify", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("detectFeedRoot", () => {
+    it("should detect RSS 2.0 documents", () => {
+      expect(
+        detectFeedRoot('<?xml version="1.0"?><rss version="2.0"></rss>'),
+      ).toBe("RSS");
+    });
+
+    it("should detect Atom documents", () => {
+      expect(
+        detectFeedRoot('<feed xmlns="http://www.w3.org/2005/Atom"></feed>'),
+      ).toBe("Atom");
+    });
+
+    it("should detect RSS 1.0 (RDF) documents", () => {
+      expect(
+        detectFeedRoot(
+          '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"></rdf:RDF>',
+        ),
+      ).toBe("RSS");
+    });
+
+    it("should skip comments, stylesheets and doctypes before the root", () => {
+      const xml = `\uFEFF<?xml version="1.0"?>
+        <?xml-stylesheet href="/feed.xsl" type="text/xsl"?>
+        <!-- generated -->
+        <!DOCTYPE rss>
+        <rss></rss>`;
+      expect(detectFeedRoot(xml)).toBe("RSS");
+    });
+
+    it("should accept prefixed Atom roots", () => {
+      expect(detectFeedRoot("<atom:feed></atom:feed>")).toBe("Atom");
+    });
+
+    it("should reject HTML documents served as XML", () => {
+      expect(
+        detectFeedRoot("<!DOCTYPE html><html><body>Not found</body></html>"),
+      ).toBeNull();
+    });
+
+    it("should reject empty and unterminated documents", () => {
+      expect(detectFeedRoot("")).toBeNull();
+      expect(detectFeedRoot("<!-- never closed")).toBeNull();
+    });
+  });
+
+  describe("detectFeedFormat", () => {
+    it("should detect JSON Feed documents by their version", () => {
+      expect(
+        detectFeedFormat(
+          '{ "version": "https://jsonfeed.org/version/1.1", "items": [] }',
+        ),
+      ).toBe("JSON");
+    });
+
+    it("should reject JSON documents that are not JSON Feeds", () => {
+      expect(detectFeedFormat('{ "posts": [] }')).toBeNull();
+    });
+
+    it("should fall back to XML root detection", () => {
+      expect(detectFeedFormat("<rss></rss>")).toBe("RSS");
+    });
+  });
+
+  describe("verifyFeed", () => {
+    it("should mark feeds with a feed root element as verified", async () => {
+      mockBody("<rss><channel></channel></rss>");
+
+      const result = await verifyFeed(candidate);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.verification).toBe("verified");
+        expect(result.value.type).toBe("RSS");
+      }
+      expect(mockFetchWithRedirects).toHaveBeenCalledWith(candidate.url, {
+        headers: { Accept: expect.stringContaining("application/rss+xml") },
+      });
+    });
+
+    it("should fill in metadata and replace placeholder titles", async () => {
+      mockBody(`<rss><channel>
+          <title>Example Blog</title>
+          <description>All the news</description>
+          <item><title>Hello</title></item>
+        </channel></rss>`);
+
+      const result = await verifyFeed(candidate);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.title).toBe("Example Blog");
+        expect(result.value.description).toBe("All the news");
+        expect(result.value.metadata).toEqual({
+          title: "Example Blog",
+          description: "All the news",
+          itemCount: 1,
+          sampleItemTitles: ["Hello"],
+        });
+      }
+    });
+
+    it("should keep titles published in link tags", async () => {
+      mockBody("<rss><channel><title>Channel</title></channel></rss>");
+
+      const result = await verifyFeed({
+        ...candidate,
+        title: "Comments Feed",
+        discoveryMethod: "meta-tag",
+      });
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.title).toBe("Comments Feed");
+        expect(result.value.metadata?.title).toBe("Channel");
+      }
+    });
+
+    it("should correct the feed type from the parsed root element", async () => {
+      mockBody('<feed xmlns="http://www.w3.org/2005/Atom"></feed>');
+
+      const result = await verifyFeed(candidate);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.type).toBe("Atom");
+      }
+    });
+
+    it("should read the feed's WebSub hub and self links", async () => {
+      mockBody(`<rss xmlns:atom="http://www.w3.org/2005/Atom"><channel>
+          <atom:link rel="hub" href="https://hub.example.net/"/>
+          <atom:link rel="self" href="https://example.com/feed/"/>
+        </channel></rss>`);
+
+      const result = await verifyFeed(candidate);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.hubUrl).toBe("https://hub.example.net/");
+        expect(result.value.selfUrl).toBe("https://example.com/feed/");
+      }
+    });
+
+    it("should prefer WebSub links from the Link header", async () => {
+      mockFetchWithRedirects.mockReturnValueOnce(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({
+            url: candidate.url,
+            response: new Response(
+              `<feed xmlns="http://www.w3.org/2005/Atom">
+                <link rel="hub" href="https://old-hub.example.net/"/>
+                <link rel="self" href="/feed.atom"/>
+              </feed>`,
+              {
+                headers: {
+                  Link: '<https://hub.example.net/>; rel="hub", </atom.xml>; rel="self"',
+                },
+              },
+            ),
+          }),
+        ),
+      );
+
+      const result = await verifyFeed(candidate);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.hubUrl).toBe("https://hub.example.net/");
+        expect(result.value.selfUrl).toBe("https://example.com/atom.xml");
+      }
+    });
+
+    it("should record where a redirected feed is served from", async () => {
+      mockBody(
+        `<feed xmlns="http://www.w3.org/2005/Atom">
+          <link rel="self" href="feed.atom"/>
+        </feed>`,
+        "https://www.example.com/blog/feed.atom",
+      );
+
+      const result = await verifyFeed(candidate);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.url).toBe(candidate.url);
+        expect(result.value.finalUrl).toBe(
+          "https://www.example.com/blog/feed.atom",
+        );
+        expect(result.value.selfUrl).toBe(
+          "https://www.example.com/blog/feed.atom",
+        );
+      }
+    });
+
+    it("should record the media type the feed was served with", async () => {
+      mockFetchWithRedirects.mockReturnValueOnce(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({
+            url: candidate.url,
+            response: new Response("<rss><channel></channel></rss>", {
+              headers: { "Content-Type": "Application/RSS+XML; charset=UTF-8" },
+            }),
+          }),
+        ),
+      );
+
+      const result = await verifyFeed(candidate);
+
+      expect(result.isOk() && result.value.contentType).toBe(
+        "application/rss+xml",
+      );
+    });
+
+    it("should report the feed's health", async () => {
+      mockFetchWithRedirects.mockReturnValueOnce(
+        ResultAsync.fromSafePromise(
+          Promise.resolve({
+            url: candidate.url,
+            response: new Response(
+              `<rss><channel><title>Example</title>
+                <item><guid>1</guid></item><item><guid>1</guid></item>
+              </channel></rss>`,
+              { headers: { ETag: '"v1"' } },
+            ),
+          }),
+        ),
+      );
+
+      const result = await verifyFeed(candidate);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.health).toMatchObject({
+          httpCaching: { etag: true, lastModified: false },
+          duplicateGuids: ["1"],
+          truncated: false,
+        });
+      }
+    });
+
+    it("should leave finalUrl unset for feeds served where they were asked for", async () => {
+      mockBody("<rss><channel></channel></rss>");
+
+      const result = await verifyFeed(candidate);
+
+      expect(result.isOk() && result.value.finalUrl).toBeUndefined();
+    });
+
+    it("should mark HTML bodies as invalid", async () => {
+      mockBody("<html><body>Page not found</body></html>");
+
+      const result = await verifyFeed(candidate);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.verification).toBe("invalid");
+      }
+    });
+
+    it("should mark 404 responses as invalid", async () => {
+      mockFetchWithRedirects.mockReturnValueOnce(
+        ResultAsync.fromPromise(Promise.reject(new Error("HTTP 404")), () => ({
+          type: "FETCH_FAILED" as const,
+          message: "HTTP 404",
+          status: 404,
+        })),
+      );
+
+      const result = await verifyFeed(candidate);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.verification).toBe("invalid");
+      }
+    });
+
+    it.each([
+      "URL_NOT_PERMITTED",
+      "REDIRECT_NOT_PERMITTED",
+    ] as const)("should mark %s refusals as invalid", async (type) => {
+      mockFetchWithRedirects.mockReturnValueOnce(
+        ResultAsync.fromPromise(Promise.reject(new Error("blocked")), () => ({
+          type,
+          message: "Request blocked",
+        })),
+      );
+
+      const result = await verifyFeed(candidate);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.verification).toBe("invalid");
+      }
+    });
+
+    it("should mark network failures as unverified", async () => {
+      mockFetchWithRedirects.mockReturnValueOnce(
+        ResultAsync.fromPromise(Promise.reject(new Error("timeout")), () => ({
+          type: "TIMEOUT_ERROR" as const,
+          message: "Request timeout",
+        })),
+      );
+
+      const result = await verifyFeed(candidate);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toEqual({
+          ...candidate,
+          verification: "unverified",
+        });
+      }
+    });
+  });
+
+  describe("verifyFeeds", () => {
+    it("should verify every candidate and keep their order", async () => {
+      mockBody("<rss></rss>");
+      mockBody("<html></html>");
+
+      const result = await verifyFeeds([
+        candidate,
+        { ...candidate, url: "https://example.com/broken.xml" },
+      ]);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.map((feed) => feed.verification)).toEqual([
+          "verified",
+          "invalid",
+        ]);
+      }
+    });
+
+    it("should report each feed once it has been verified", async () => {
+      mockBody("<rss></rss>");
+      const onVerified = vi.fn();
+
+      await verifyFeeds([candidate], onVerified);
+
+      expect(onVerified).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: candidate.url,
+          verification: "verified",
+        }),
+      );
+    });
+
+    it("should return an empty list without fetching when there are no candidates", async () => {
+      const result = await verifyFeeds([]);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toEqual([]);
+      }
+      expect(mockFetchWithRedirects).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { ok, ResultAsync } from "neverthrow";
+import {
+  DEFAULT_FEED_TITLE,
+  FEED_ACCEPT_HEADER,
+  MAX_FEED_BODY_BYTES,
+} from "../config";
+import { parseFeedDocument } from "../feed/document";
+import { analyzeFeedHealth } from "../feed/health";
+import { extractFeedMetadata, resolveHttpUrl } from "../feed/metadata";
+import { extractWebSubLinks, type WebSubLinks } from "../feed/websub";
+import { readLimitedText } from "../net/body";
+import { fetchWithRedirects } from "../net/fetch";
+import type {
+  FeedDiscoveryError,
+  FeedResult,
+  FeedType,
+  FeedVerificationStatus,
+} from "../types";
+import { parseLinkHeader } from "./linkHeader";
+
+/**
+ * HTTP statuses that prove a candidate URL is not a feed
+ */
+const INVALID_FEED_STATUSES = [404, 410];
+
+/**
+ * Fetch errors for URLs we refuse to request (private or non-HTTP targets,
+ * directly or through a redirect): retrying will never make them feeds
+ */
+const REFUSED_FETCH_ERRORS: FeedDiscoveryError["type"][] = [
+  "URL_NOT_PERMITTED",
+  "REDIRECT_NOT_PERMITTED",
+];
+
+/**
+ * JSON Feed documents declare their version as a jsonfeed.org URL
+ * Matched textually so a body truncated at the byte limit still verifies.
+ */
+const JSON_FEED_VERSION_PATTERN =
+  /"version"\s*:\s*"https?:\/\/jsonfeed\.org\/version\//;
+
+/**
+ * Detect the feed format of a fetched body (XML root element or JSON Feed)
+ */
+export function detectFeedFormat(body: string): FeedType | null {
+  if (body.trimStart().startsWith("{")) {
+    return JSON_FEED_VERSION_PATTERN.test(body) ? "JSON" : null;
+  }
+  return detectFeedRoot(body);
+}
+
+/**
+ * Detect the feed format from the root element of an XML document.
+ * Returns null when the root is not <rss>, <feed> or <rdf:RDF>.
+ */
+export function detectFeedRoot(xml: string): "RSS" | "Atom" | null {
+  const rootName = extractRootElementName(xml);
+  if (!rootName) return null;
+
+  // Compare local names so prefixed roots (e.g. <atom:feed>) are accepted
+  const localName = rootName.slice(rootName.indexOf(":") + 1).toLowerCase();
+  if (localName === "rss") return "RSS";
+  if (localName === "rdf") return "RSS"; // RSS 1.0 (RDF)
+  if (localName === "feed") return "Atom";
+  return null;
+}
+
+/**
+ * Find the name of the first element, skipping the XML declaration,
+ * processing instructions, comments and the doctype
+ */
+function extractRootElementName(xml: string): string | null {
+  let index = 0;
+
+  while (index < xml.length) {
+    const start = xml.indexOf("<", index);
+    if (start === -1) return null;
+
+    if (xml.startsWith("<?", start)) {
+      const end = xml.indexOf("?>", start + 2);
+      if (end === -1) return null;
+      index = end + 2;
+      continue;
+    }
+
+    if (xml.startsWith("<!--", start)) {
+      const end = xml.indexOf("-->", start + 4);
+      if (end === -1) return null;
+      index = end + 3;
+      continue;
+    }
+
+    if (xml.startsWith("<!", start)) {
+      const end = xml.indexOf(">", start + 2);
+      if (end === -1) return null;
+      index = end + 1;
+      continue;
+    }
+
+    let nameEnd = start + 1;
+    while (nameEnd < xml.length && !isNameTerminator(xml[nameEnd])) {
+      nameEnd++;
+    }
+    const name = xml.substring(start + 1, nameEnd);
+    return name.length > 0 ? name : null;
+  }
+
+  return null;
+}
+
+function isNameTerminator(character: string): boolean {
+  return (
+    character === ">" ||
+    character === "/" ||
+    character === " " ||
+    character === "\t" ||
+    character === "\n" ||
+    character === "\r"
+  );
+}
+
+/**
+ * Whether a feed's title was made up by FeedFinder rather than published
+ * by the site, in which case the feed's own title is more useful
+ */
+function hasPlaceholderTitle(feed: FeedResult): boolean {
+  return (
+    !feed.title ||
+    feed.title === DEFAULT_FEED_TITLE ||
+    feed.discoveryMethod === "common-path"
+  );
+}
+
+/**
+ * WebSub links advertised in a feed response's Link headers
+ */
+function findHeaderWebSubLinks(headers: Headers, feedUrl: string): WebSubLinks {
+  const header = headers.get("link");
+  if (!header) return {};
+
+  const links = parseLinkHeader(header);
+  const findHref = (rel: string) =>
+    links.find(({ params }) =>
+      (params["rel"] ?? "").toLowerCase().split(/\s+/).includes(rel),
+    )?.href;
+  return {
+    hubUrl: resolveHttpUrl(findHref("hub"), feedUrl),
+    selfUrl: resolveHttpUrl(findHref("self"), feedUrl),
+  };
+}
+
+/**
+ * The media type of a Content-Type header, without parameters such as charset
+ */
+function parseMediaType(contentType: string | null): string | undefined {
+  const mediaType = contentType?.split(";")[0].trim().toLowerCase();
+  return mediaType || undefined;
+}
+
+/**
+ * Build a verified result, filling in metadata and WebSub links parsed
+ * from the feed body and the URL it was finally served from, the media
+ * type it was served with, and a health report. The body is parsed once
+ * and the tree shared by all three. Link headers take
+ * precedence over links in the body, as the WebSub discovery rules require.
+ */
+function toVerifiedFeed(
+  feed: FeedResult,
+  type: FeedType,
+  body: string,
+  served: { headers: Headers; url: string; truncated: boolean },
+): FeedResult {
+  const { headers, url: finalUrl } = served;
+  const document = parseFeedDocument(body, type);
+  const headerLinks = findHeaderWebSubLinks(headers, finalUrl);
+  const bodyLinks = extractWebSubLinks(document, finalUrl);
+  const verified: FeedResult = {
+    ...feed,
+    type,
+    verification: "verified",
+    finalUrl: finalUrl === feed.url ? undefined : finalUrl,
+    contentType: parseMediaType(headers.get("content-type")),
+    health: analyzeFeedHealth(document, served),
+    hubUrl: headerLinks.hubUrl ?? bodyLinks.hubUrl,
+    selfUrl: headerLinks.selfUrl ?? bodyLinks.selfUrl,
+  };
+  const metadata = extractFeedMetadata(document, finalUrl);
+  if (!metadata) return verified;
+
+  return {
+    ...verified,
+    title:
+      metadata.title && hasPlaceholderTitle(feed) ? metadata.title : feed.title,
+    description: feed.description ?? metadata.description,
+    metadata,
+  };
+}
+
+/**
+ * Map a fetch failure to a verification status
+ */
+function statusFromFetchError(
+  error: FeedDiscoveryError,
+): FeedVerificationStatus {
+  if (REFUSED_FETCH_ERRORS.includes(error.type)) {
+    return "invalid";
+  }
+  if (
+    error.type === "FETCH_FAILED" &&
+    error.status !== undefined &&
+    INVALID_FEED_STATUSES.includes(error.status)
+  ) {
+    return "invalid";
+  }
+  return "unverified";
+}
+
+/**
+ * Fetch a candidate feed and mark it verified, unverified or invalid.
+ * Verified feeds also carry metadata, WebSub links and a health report
+ * parsed from the body.
+ * Never fails: problems are reported through the `verification` field.
+ */
+export function verifyFeed(
+  feed: FeedResult,
+): ResultAsync<FeedResult, FeedDiscoveryError> {
+  return fetchWithRedirects(feed.url, {
+    headers: { Accept: FEED_ACCEPT_HEADER },
+  })
+    .andThen(({ response, url }) =>
+      readLimitedText(response, MAX_FEED_BODY_BYTES).map(
+        ({ text, truncated }) => ({
+          text,
+          served: { headers: response.headers, url, truncated },
+        }),
+      ),
+    )
+    .map(({ text, served }): FeedResult => {
+      const format = detectFeedFormat(text);
+      if (!format) {
+        return { ...feed, verification: "invalid" };
+      }
+      return toVerifiedFeed(feed, format, text, served);
+    })
+    .orElse((error) =>
+      ok({ ...feed, verification: statusFromFetchError(error) }),
+    );
+}
+
+/**
+ * Verify all candidate feeds in parallel, passing each one to `onVerified`
+ * as soon as its own verification finishes
+ */
+export function verifyFeeds(
+  feeds: FeedResult[],
+  onVerified?: (feed: FeedResult) => void,
+): ResultAsync<FeedResult[], FeedDiscoveryError> {
+  return ResultAsync.combine(
+    feeds.map((feed) =>
+      verifyFeed(feed).map((verified) => {
+        onVerified?.(verified);
+        return verified;
+      }),
+    ),
+  );
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { parseFeedDocument } from "./document";
+
+describe("feed/document", () => {
+  describe("parseFeedDocument", () => {
+    it("should parse XML feeds into an element tree", () => {
+      const document = parseFeedDocument(
+        "<rss><channel><title>Example</title></channel></rss>",
+        "RSS",
+      );
+
+      expect(document.type).toBe("RSS");
+      if (document.type !== "JSON") {
+        expect(document.xml.root?.name).toBe("rss");
+        expect(document.xml.issues).toEqual([]);
+      }
+    });
+
+    it("should parse JSON Feeds into their value", () => {
+      const document = parseFeedDocument('{"title": "Example"}', "JSON");
+
+      expect(document.type).toBe("JSON");
+      if (document.type === "JSON") {
+        expect(document.json.isOk()).toBe(true);
+        if (document.json.isOk()) {
+          expect(document.json.value).toEqual({ title: "Example" });
+        }
+      }
+    });
+
+    it("should keep the reason a JSON Feed did not parse", () => {
+      const document = parseFeedDocument('{"title": ', "JSON");
+
+      if (document.type === "JSON") {
+        expect(document.json.isErr()).toBe(true);
+        if (document.json.isErr()) {
+          expect(document.json.error).toEqual(expect.any(String));
+        }
+      }
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { Result } from "neverthrow";
+import type { FeedType } from "../types";
+import { parseXml, type XmlDocument } from "./xml";
+
+/**
+ * A fetched feed body, parsed once for every extractor that reads it: the
+ * element tree of an RSS or Atom feed, or the JSON Feed value (or why it
+ * did not parse)
+ */
+export type FeedDocument =
+  | { type: "RSS" | "Atom"; xml: XmlDocument }
+  | { type: "JSON"; json: Result<unknown, string> };
+
+/**
+ * Parse a feed body as the format it was detected as
+ */
+export function parseFeedDocument(body: string, type: FeedType): FeedDocument {
+  if (type === "JSON") {
+    return {
+      type,
+      json: Result.fromThrowable(
+        () => JSON.parse(body) as unknown,
+        (error) => (error instanceof Error ? error.message : "Invalid JSON"),
+      )(),
+    };
+  }
+  return { type, xml: parseXml(body) };
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { parseFeedDocument } from "./document";
+import { analyzeFeedHealth } from "./health";
+
+const served = { headers: new Headers(), truncated: false };
+
+describe("feed/health", () => {
+  describe("analyzeFeedHealth", () => {
+    it("should report a healthy RSS feed", () => {
+      const rss = `<rss version="2.0"><channel>
+          <title>Example</title>
+          <link>https://example.com/</link>
+          <description>News</description>
+          <item><title>Third</title><guid>3</guid><pubDate>Wed, 10 Jun 2026 12:00:00 GMT</pubDate></item>
+          <item><title>Second</title><guid>2</guid><pubDate>Mon, 08 Jun 2026 12:00:00 GMT</pubDate></item>
+          <item><title>First</title><guid>1</guid><pubDate>Sun, 07 Jun 2026 12:00:00 GMT</pubDate></item>
+        </channel></rss>`;
+
+      expect(
+        analyzeFeedHealth(parseFeedDocument(rss, "RSS"), {
+          headers: new Headers({
+            ETag: '"abc"',
+            "Last-Modified": "Wed, 10 Jun 2026 12:00:00 GMT",
+          }),
+          truncated: false,
+        }),
+      ).toEqual({
+        lastItemDate: "2026-06-10T12:00:00.000Z",
+        medianIntervalHours: 36,
+        httpCaching: { etag: true, lastModified: true },
+        wellFormednessIssues: [],
+        missingElements: [],
+        duplicateGuids: [],
+        truncated: false,
+      });
+    });
+
+    it("should report missing elements and duplicate GUIDs", () => {
+      const rss = `<rss version="2.0"><channel>
+          <title>Example</title>
+          <item><title>One</title><guid>same</guid></item>
+          <item><guid>same</guid></item>
+          <item><description>Three</description><guid>other</guid></item>
+        </channel></rss>`;
+
+      const health = analyzeFeedHealth(parseFeedDocument(rss, "RSS"), served);
+
+      expect(health.missingElements).toEqual([
+        "channel/link",
+        "channel/description",
+        "item/title or item/description (1 of 3)",
+      ]);
+      expect(health.duplicateGuids).toEqual(["same"]);
+      expect(health.lastItemDate).toBeUndefined();
+      expect(health.medianIntervalHours).toBeUndefined();
+      expect(health.httpCaching).toEqual({ etag: false, lastModified: false });
+    });
+
+    it("should report XML well-formedness issues", () => {
+      const rss = `<rss><channel><title>A &nbsp; B</title>
+          <link>https://example.com/</link><description>x</description>
+          <item><title>Open</item>
+        </channel></rss>`;
+
+      expect(
+        analyzeFeedHealth(parseFeedDocument(rss, "RSS"), served)
+          .wellFormednessIssues,
+      ).toEqual([
+        "Undefined entity &nbsp;",
+        "Element <title> closed implicitly by </item>",
+      ]);
+    });
+
+    it("should not report issues caused by cutting a large body short", () => {
+      const rss = `<rss><channel><title>Example</title>
+          <link>https://example.com/</link><description>x</description>
+          <item><title>Cut`;
+
+      const health = analyzeFeedHealth(parseFeedDocument(rss, "RSS"), {
+        headers: new Headers(),
+        truncated: true,
+      });
+
+      expect(health.wellFormednessIssues).toEqual([]);
+      expect(health.truncated).toBe(true);
+    });
+
+    it("should check Atom's required elements and entry ids", () => {
+      const atom = `<feed xmlns="http://www.w3.org/2005/Atom">
+          <title>Example</title>
+          <id>urn:example</id>
+          <entry><id>urn:1</id><title>A</title><published>2026-06-01T00:00:00Z</published><updated>2026-06-09T00:00:00Z</updated></entry>
+          <entry><id>urn:1</id><title>B</title><published>2026-06-03T00:00:00Z</published></entry>
+        </feed>`;
+
+      const health = analyzeFeedHealth(parseFeedDocument(atom, "Atom"), served);
+
+      expect(health.missingElements).toEqual([
+        "feed/updated",
+        "entry/updated (1 of 2)",
+      ]);
+      expect(health.duplicateGuids).toEqual(["urn:1"]);
+      // Posting dates prefer <published> over later edits
+      expect(health.lastItemDate).toBe("2026-06-03T00:00:00.000Z");
+      expect(health.medianIntervalHours).toBe(48);
+    });
+
+    it("should check RSS 1.0 items by their rdf:about", () => {
+      const rdf = `<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" xmlns="http://purl.org/rss/1.0/">
+          <channel><title>Example</title><link>https://example.com/</link><description>x</description></channel>
+          <item rdf:about="https://example.com/1"><title>A</title><link>https://example.com/1</link></item>
+          <item rdf:about="https://example.com/1"><title>B</title></item>
+        </rdf:RDF>`;
+
+      const health = analyzeFeedHealth(parseFeedDocument(rdf, "RSS"), served);
+
+      expect(health.missingElements).toEqual(["item/link (1 of 2)"]);
+      expect(health.duplicateGuids).toEqual(["https://example.com/1"]);
+    });
+
+    it("should check JSON Feed's required fields and item ids", () => {
+      const json = JSON.stringify({
+        version: "https://jsonfeed.org/version/1.1",
+        items: [
+          { id: "1", date_published: "2026-06-01T00:00:00Z" },
+          { id: 1, date_published: "2026-06-01T06:00:00Z" },
+          { title: "No id" },
+        ],
+      });
+
+      const health = analyzeFeedHealth(parseFeedDocument(json, "JSON"), served);
+
+      expect(health.missingElements).toEqual(["title", "items/id (1 of 3)"]);
+      expect(health.duplicateGuids).toEqual(["1"]);
+      expect(health.medianIntervalHours).toBe(6);
+    });
+
+    it("should report JSON Feed bodies that do not parse", () => {
+      const health = analyzeFeedHealth(
+        parseFeedDocument(
+          '{"version": "https://jsonfeed.org/version/1", "items": [',
+          "JSON",
+        ),
+        served,
+      );
+
+      expect(health.wellFormednessIssues).toHaveLength(1);
+      expect(health.wellFormednessIssues[0]).toMatch(/^Invalid JSON: /);
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import type { Result } from "neverthrow";
+import { MAX_HEALTH_FINDINGS } from "../config";
+import type { FeedHealth } from "../types";
+import type { FeedDocument } from "./document";
+import { jsonItemDate, xmlItemDate } from "./metadata";
+import {
+  childText,
+  findChild,
+  findChildren,
+  type XmlDocument,
+  type XmlElement,
+} from "./xml";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Per-item fields needed to judge a feed's health
+ */
+interface ItemFacts {
+  guid?: string;
+  date?: string;
+}
+
+/**
+ * What parsing a feed body revealed, before it is summarised
+ */
+interface FeedFacts {
+  items: ItemFacts[];
+  wellFormednessIssues: string[];
+  missingElements: string[];
+}
+
+/**
+ * Child elements an element must have; an inner list names alternatives,
+ * any one of which satisfies the requirement
+ */
+type Requirements = string[][];
+
+/**
+ * Required elements per format, after the RSS 2.0, RSS 1.0 and Atom
+ * (RFC 4287) specifications
+ */
+const RSS_CHANNEL_REQUIREMENTS: Requirements = [
+  ["title"],
+  ["link"],
+  ["description"],
+];
+const RSS_ITEM_REQUIREMENTS: Requirements = [["title", "description"]];
+const RDF_ITEM_REQUIREMENTS: Requirements = [["title"], ["link"]];
+const ATOM_REQUIREMENTS: Requirements = [["id"], ["title"], ["updated"]];
+
+/**
+ * Requirements none of `elements` may miss, each labelled with its path
+ * and, for repeated elements, how many miss it (e.g. "item/guid (2 of 5)")
+ */
+function findMissingElements(
+  elements: XmlElement[],
+  requirements: Requirements,
+  path: string,
+): string[] {
+  return requirements.flatMap((alternatives) => {
+    const missing = elements.filter((element) =>
+      alternatives.every((name) => !findChild(element, name)),
+    ).length;
+    if (missing === 0) return [];
+
+    const label = alternatives.map((name) => `${path}/${name}`).join(" or ");
+    return [
+      elements.length > 1
+        ? `${label} (${missing} of ${elements.length})`
+        : label,
+    ];
+  });
+}
+
+/**
+ * What the element tree of an XML feed reveals (parse issues aside)
+ */
+type XmlFeedFacts = Omit<FeedFacts, "wellFormednessIssues">;
+
+function collectRssFacts(root: XmlElement): XmlFeedFacts {
+  const channel = findChild(root, "channel");
+  if (!channel) {
+    return { items: [], missingElements: ["channel"] };
+  }
+
+  // RSS 2.0 nests items in <channel>; RSS 1.0 (RDF) lists them under the root
+  const isRdf = root.name !== "rss";
+  const itemElements = isRdf
+    ? findChildren(root, "item")
+    : findChildren(channel, "item");
+
+  return {
+    items: itemElements.map((item) => ({
+      guid: isRdf ? item.attributes["rdf:about"] : childText(item, "guid"),
+      date: xmlItemDate(item),
+    })),
+    missingElements: [
+      ...findMissingElements([channel], RSS_CHANNEL_REQUIREMENTS, "channel"),
+      ...findMissingElements(
+        itemElements,
+        isRdf ? RDF_ITEM_REQUIREMENTS : RSS_ITEM_REQUIREMENTS,
+        "item",
+      ),
+    ],
+  };
+}
+
+function collectAtomFacts(root: XmlElement): XmlFeedFacts {
+  const entries = findChildren(root, "entry");
+  return {
+    items: entries.map((entry) => ({
+      guid: childText(entry, "id"),
+      date: xmlItemDate(entry),
+    })),
+    missingElements: [
+      ...findMissingElements([root], ATOM_REQUIREMENTS, "feed"),
+      ...findMissingElements(entries, ATOM_REQUIREMENTS, "entry"),
+    ],
+  };
+}
+
+function collectXmlFacts({ root, issues }: XmlDocument): FeedFacts {
+  if (!root) {
+    return { items: [], wellFormednessIssues: issues, missingElements: [] };
+  }
+
+  const facts =
+    root.name === "feed" || root.name.endsWith(":feed")
+      ? collectAtomFacts(root)
+      : collectRssFacts(root);
+  return { ...facts, wellFormednessIssues: issues };
+}
+
+function collectJsonFacts(parsed: Result<unknown, string>): FeedFacts {
+  if (parsed.isErr()) {
+    return {
+      items: [],
+      wellFormednessIssues: [`Invalid JSON: ${parsed.error}`],
+      missingElements: [],
+    };
+  }
+
+  const feed = (parsed.value ?? {}) as Record<string, unknown>;
+  const items = (Array.isArray(feed["items"]) ? feed["items"] : []).map(
+    (item): ItemFacts => {
+      const fields = (item ?? {}) as {
+        id?: unknown;
+        date_published?: unknown;
+        date_modified?: unknown;
+      };
+      const { id } = fields;
+      return {
+        // JSON Feed requires string ids, but numbers are common in the wild
+        guid:
+          typeof id === "string" || typeof id === "number"
+            ? String(id)
+            : undefined,
+        date: jsonItemDate(fields),
+      };
+    },
+  );
+
+  const missingIds = items.filter((item) => item.guid === undefined).length;
+  return {
+    items,
+    wellFormednessIssues: [],
+    missingElements: [
+      ...["version", "title", "items"].filter((name) => !(name in feed)),
+      ...(missingIds > 0
+        ? [`items/id (${missingIds} of ${items.length})`]
+        : []),
+    ],
+  };
+}
+
+/**
+ * Median gap between consecutive item dates, in hours to one decimal place
+ */
+function medianIntervalHours(dates: string[]): number | undefined {
+  const times = dates.map((date) => Date.parse(date)).sort((a, b) => a - b);
+  if (times.length < 2) return undefined;
+
+  const intervals = times
+    .slice(1)
+    .map((time, index) => time - times[index])
+    .sort((a, b) => a - b);
+  const middle = Math.floor(intervals.length / 2);
+  const median =
+    intervals.length % 2 === 1
+      ? intervals[middle]
+      : (intervals[middle - 1] + intervals[middle]) / 2;
+  return Math.round((median / HOUR_MS) * 10) / 10;
+}
+
+/**
+ * GUIDs used by more than one item, in the order they first appear
+ */
+function findDuplicateGuids(items: ItemFacts[]): string[] {
+  const counts = new Map<string, number>();
+  for (const { guid } of items) {
+    if (guid) counts.set(guid, (counts.get(guid) ?? 0) + 1);
+  }
+  return [...counts].filter(([, count]) => count > 1).map(([guid]) => guid);
+}
+
+/**
+ * Judge whether a fetched feed is alive and well-formed: how recent its
+ * newest item is, how often it posts, whether its responses support
+ * conditional requests, and whether it parses with its required elements
+ * and unique item GUIDs.
+ * A body cut at the size limit is not reported as malformed, since the
+ * cut itself leaves elements unclosed.
+ */
+export function analyzeFeedHealth(
+  document: FeedDocument,
+  { headers, truncated }: { headers: Headers; truncated: boolean },
+): FeedHealth {
+  const facts =
+    document.type === "JSON"
+      ? collectJsonFacts(document.json)
+      : collectXmlFacts(document.xml);
+  const dates = facts.items
+    .map((item) => item.date)
+    .filter((date): date is string => date !== undefined)
+    .sort();
+
+  return {
+    lastItemDate: dates[dates.length - 1],
+    medianIntervalHours: medianIntervalHours(dates),
+    httpCaching: {
+      etag: headers.has("etag"),
+      lastModified: headers.has("last-modified"),
+    },
+    wellFormednessIssues: truncated
+      ? []
+      : facts.wellFormednessIssues.slice(0, MAX_HEALTH_FINDINGS),
+    missingElements: facts.missingElements,
+    duplicateGuids: findDuplicateGuids(facts.items).slice(
+      0,
+      MAX_HEALTH_FINDINGS,
+    ),
+    truncated,
+  };
+}
@@ -0,0 +1,244 @@
+import { describe, expect, it } from "vitest";
+import { parseFeedDocument } from "./document";
+import { analyzeFeedHealth } from "./health";
+import { extractFeedMetadata, normalizeFeedDate } from "./metadata";
+
+const feedUrl = "https://example.com/feed.xml";
+
+describe("feed/metadata", () => {
+  describe("normalizeFeedDate", () => {
+    it("should normalize RFC 822 and ISO 8601 dates", () => {
+      expect(normalizeFeedDate("Tue, 07 May 2024 10:00:00 GMT")).toBe(
+        "2024-05-07T10:00:00.000Z",
+      );
+      expect(normalizeFeedDate("2024-05-07T12:00:00+02:00")).toBe(
+        "2024-05-07T10:00:00.000Z",
+      );
+    });
+
+    it("should return undefined for missing or invalid dates", () => {
+      expect(normalizeFeedDate(undefined)).toBeUndefined();
+      expect(normalizeFeedDate("not a date")).toBeUndefined();
+    });
+
+    it("should discard dates with years beyond four digits", () => {
+      expect(
+        normalizeFeedDate("Tue, 07 May 20240 10:00:00 GMT"),
+      ).toBeUndefined();
+      expect(normalizeFeedDate("-000001-01-01T00:00:00Z")).toBeUndefined();
+      expect(normalizeFeedDate("9999-12-31T23:59:59Z")).toBe(
+        "9999-12-31T23:59:59.000Z",
+      );
+    });
+  });
+
+  describe("extractFeedMetadata", () => {
+    it("should summarize RSS 2.0 feeds", () => {
+      const rss = `<?xml version="1.0"?>
+        <rss version="2.0">
+          <channel>
+            <title>Example Blog</title>
+            <description>  Notes   about things </description>
+            <link>/</link>
+            <language>en-us</language>
+            <item><title>First</title><pubDate>Mon, 06 May 2024 10:00:00 GMT</pubDate></item>
+            <item><title>Second</title><pubDate>Tue, 07 May 2024 10:00:00 GMT</pubDate></item>
+            <item><title>Third</title></item>
+            <item><title>Fourth</title></item>
+          </channel>
+        </rss>`;
+
+      expect(
+        extractFeedMetadata(parseFeedDocument(rss, "RSS"), feedUrl),
+      ).toEqual({
+        title: "Example Blog",
+        description: "Notes about things",
+        siteUrl: "https://example.com/",
+        language: "en-us",
+        itemCount: 4,
+        lastUpdated: "2024-05-07T10:00:00.000Z",
+        sampleItemTitles: ["First", "Second", "Third"],
+      });
+    });
+
+    it("should read podcast details from iTunes tags and enclosures", () => {
+      const rss = `<?xml version="1.0"?>
+        <rss version="2.0"
+          xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"
+          xmlns:podcast="https://podcastindex.org/namespace/1.0">
+          <channel>
+            <title>Example Show</title>
+            <itunes:author>Jane Host</itunes:author>
+            <itunes:image href="/art.jpg"/>
+            <itunes:explicit>Yes</itunes:explicit>
+            <podcast:locked>no</podcast:locked>
+            <item>
+              <title>Episode 2</title>
+              <enclosure url="https://cdn.example.com/2.mp3" type="audio/mpeg" length="1"/>
+            </item>
+            <item>
+              <title>Episode 1</title>
+              <enclosure url="https://cdn.example.com/1.mp4" type="video/mp4" length="1"/>
+            </item>
+            <item><title>Show notes update</title></item>
+          </channel>
+        </rss>`;
+
+      expect(
+        extractFeedMetadata(parseFeedDocument(rss, "RSS"), feedUrl)?.podcast,
+      ).toEqual({
+        artworkUrl: "https://example.com/art.jpg",
+        author: "Jane Host",
+        episodeCount: 2,
+        explicit: true,
+      });
+    });
+
+    it("should fall back to the owner and channel image of a podcast", () => {
+      const rss = `<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd">
+          <channel>
+            <title>Example Show</title>
+            <image><url>https://example.com/logo.png</url></image>
+            <itunes:owner><itunes:name>Example Media</itunes:name></itunes:owner>
+            <itunes:explicit>clean</itunes:explicit>
+          </channel>
+        </rss>`;
+
+      expect(
+        extractFeedMetadata(parseFeedDocument(rss, "RSS"), feedUrl)?.podcast,
+      ).toEqual({
+        artworkUrl: "https://example.com/logo.png",
+        author: "Example Media",
+        episodeCount: 0,
+        explicit: false,
+      });
+    });
+
+    it("should treat feeds with audio enclosures as podcasts", () => {
+      const rss = `<rss version="2.0"><channel>
+          <title>Radio</title>
+          <item><enclosure url="https://example.com/a.mp3" type="audio/mpeg"/></item>
+        </channel></rss>`;
+
+      expect(
+        extractFeedMetadata(parseFeedDocument(rss, "RSS"), feedUrl)?.podcast,
+      ).toEqual({
+        episodeCount: 1,
+      });
+    });
+
+    it("should not treat feeds with only image enclosures as podcasts", () => {
+      const rss = `<rss version="2.0"><channel>
+          <title>Photos</title>
+          <item><enclosure url="https://example.com/a.jpg" type="image/jpeg"/></item>
+        </channel></rss>`;
+
+      expect(
+        extractFeedMetadata(parseFeedDocument(rss, "RSS"), feedUrl)?.podcast,
+      ).toBeUndefined();
+    });
+
+    it("should summarize RSS 1.0 (RDF) feeds", () => {
+      const rdf = `<rdf:RDF>
+          <channel>
+            <title>RDF Site</title>
+            <link>https://example.com/</link>
+            <dc:language>ja</dc:language>
+          </channel>
+          <item><title>Entry</title><dc:date>2024-01-02T00:00:00Z</dc:date></item>
+        </rdf:RDF>`;
+
+      const metadata = extractFeedMetadata(
+        parseFeedDocument(rdf, "RSS"),
+        feedUrl,
+      );
+      expect(metadata?.title).toBe("RDF Site");
+      expect(metadata?.language).toBe("ja");
+      expect(metadata?.itemCount).toBe(1);
+      expect(metadata?.lastUpdated).toBe("2024-01-02T00:00:00.000Z");
+    });
+
+    it("should summarize Atom feeds", () => {
+      const atom = `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="fr">
+          <title>Atom Site</title>
+          <subtitle>Le blog</subtitle>
+          <link rel="self" href="https://example.com/atom.xml"/>
+          <link href="https://example.com/"/>
+          <entry><title>Un</title><updated>2024-03-01T00:00:00Z</updated></entry>
+          <entry><title>Deux</title><published>2024-04-01T00:00:00Z</published></entry>
+        </feed>`;
+
+      expect(
+        extractFeedMetadata(parseFeedDocument(atom, "Atom"), feedUrl),
+      ).toEqual({
+        title: "Atom Site",
+        description: "Le blog",
+        siteUrl: "https://example.com/",
+        language: "fr",
+        itemCount: 2,
+        lastUpdated: "2024-04-01T00:00:00.000Z",
+        sampleItemTitles: ["Un", "Deux"],
+      });
+    });
+
+    it("should date Atom entries by when they were published, like the health report", () => {
+      const atom = `<feed xmlns="http://www.w3.org/2005/Atom">
+          <entry><published>2024-03-01T00:00:00Z</published><updated>2024-05-01T00:00:00Z</updated></entry>
+          <entry><published>2024-04-01T00:00:00Z</published></entry>
+        </feed>`;
+      const document = parseFeedDocument(atom, "Atom");
+
+      expect(extractFeedMetadata(document, feedUrl)?.lastUpdated).toBe(
+        "2024-04-01T00:00:00.000Z",
+      );
+      expect(
+        analyzeFeedHealth(document, {
+          headers: new Headers(),
+          truncated: false,
+        }).lastItemDate,
+      ).toBe("2024-04-01T00:00:00.000Z");
+    });
+
+    it("should summarize JSON Feeds", () => {
+      const json = JSON.stringify({
+        version: "https://jsonfeed.org/version/1.1",
+        title: "JSON Site",
+        home_page_url: "https://example.com/",
+        items: [
+          { id: "1", title: "Hello", date_published: "2024-02-01T00:00:00Z" },
+          { id: "2", content_text: "No title" },
+        ],
+      });
+
+      expect(
+        extractFeedMetadata(parseFeedDocument(json, "JSON"), feedUrl),
+      ).toEqual({
+        title: "JSON Site",
+        siteUrl: "https://example.com/",
+        itemCount: 2,
+        lastUpdated: "2024-02-01T00:00:00.000Z",
+        sampleItemTitles: ["Hello"],
+      });
+    });
+
+    it("should drop non-HTTP site links", () => {
+      const rss =
+        "<rss><channel><link>javascript:alert(1)</link></channel></rss>";
+      expect(
+        extractFeedMetadata(parseFeedDocument(rss, "RSS"), feedUrl)?.siteUrl,
+      ).toBeUndefined();
+    });
+
+    it("should return null for unparseable bodies", () => {
+      expect(
+        extractFeedMetadata(parseFeedDocument("{ truncated", "JSON"), feedUrl),
+      ).toBeNull();
+      expect(
+        extractFeedMetadata(parseFeedDocument("<rss></rss>", "RSS"), feedUrl),
+      ).toBeNull();
+      expect(
+        extractFeedMetadata(parseFeedDocument("", "Atom"), feedUrl),
+      ).toBeNull();
+    });
+  });
+});
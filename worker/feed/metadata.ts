@@ -0,0 +1,285 @@
+import { Result } from "neverthrow";
+import { MAX_SAMPLE_ITEMS } from "../config";
+import type { FeedMetadata, PodcastInfo } from "../types";
+import type { FeedDocument } from "./document";
+import { childText, findChild, findChildren, type XmlElement } from "./xml";
+
+/**
+ * Per-item fields needed to summarise a feed
+ */
+interface ItemSummary {
+  title?: string;
+  date?: string;
+}
+
+/**
+ * Extract a human-readable summary from a parsed feed.
+ * Returns null when the body did not parse as its feed type.
+ */
+export function extractFeedMetadata(
+  document: FeedDocument,
+  feedUrl: string,
+): FeedMetadata | null {
+  if (document.type === "JSON") {
+    return document.json
+      .map((feed) => extractJsonFeedMetadata(feed, feedUrl))
+      .unwrapOr(null);
+  }
+
+  const { root } = document.xml;
+  if (!root) return null;
+  return extractXmlFeedMetadata(root, feedUrl);
+}
+
+/**
+ * Collapse whitespace and drop empty strings
+ */
+function cleanText(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const cleaned = value.replace(/\s+/g, " ").trim();
+  return cleaned === "" ? undefined : cleaned;
+}
+
+/**
+ * Dates ISO 8601 writes with a four-digit year; outside them it needs the
+ * extended +YYYYYY form, which the response schema rejects
+ */
+const MIN_FEED_DATE = Date.parse("0000-01-01T00:00:00.000Z");
+const MAX_FEED_DATE = Date.parse("9999-12-31T23:59:59.999Z");
+
+/**
+ * Parse a feed date (RFC 822 or ISO 8601) into an ISO 8601 string,
+ * discarding dates whose year is outside 0000–9999
+ */
+export function normalizeFeedDate(value: unknown): string | undefined {
+  if (typeof value !== "string" || value.trim() === "") return undefined;
+  const timestamp = Date.parse(value.trim());
+  return Number.isNaN(timestamp) ||
+    timestamp < MIN_FEED_DATE ||
+    timestamp > MAX_FEED_DATE
+    ? undefined
+    : new Date(timestamp).toISOString();
+}
+
+/**
+ * When an RSS item or Atom entry was posted: its pubDate (or dc:date), or
+ * Atom's <published>, falling back to the last edit in <updated>
+ */
+export function xmlItemDate(item: XmlElement): string | undefined {
+  return normalizeFeedDate(
+    childText(item, "pubDate") ??
+      childText(item, "dc:date") ??
+      childText(item, "published") ??
+      childText(item, "updated"),
+  );
+}
+
+/**
+ * When a JSON Feed item was posted, falling back to its last edit
+ */
+export function jsonItemDate(item: {
+  date_published?: unknown;
+  date_modified?: unknown;
+}): string | undefined {
+  return normalizeFeedDate(item.date_published ?? item.date_modified);
+}
+
+/**
+ * Resolve a link against the feed URL, keeping only HTTP(S) URLs
+ * so the frontend never renders script or data links
+ */
+export function resolveHttpUrl(
+  href: string | undefined,
+  feedUrl: string,
+): string | undefined {
+  if (!href) return undefined;
+  const urlResult = Result.fromThrowable(
+    () => new URL(href, feedUrl),
+    () => null,
+  )();
+  if (urlResult.isErr()) return undefined;
+  const url = urlResult.value;
+  return url.protocol === "http:" || url.protocol === "https:"
+    ? url.href
+    : undefined;
+}
+
+function summarizeItems(
+  items: ItemSummary[],
+): Pick<FeedMetadata, "itemCount" | "lastUpdated" | "sampleItemTitles"> {
+  const dates = items
+    .map((item) => item.date)
+    .filter((date): date is string => date !== undefined)
+    .sort();
+
+  return {
+    itemCount: items.length,
+    lastUpdated: dates[dates.length - 1],
+    sampleItemTitles: items
+      .map((item) => item.title)
+      .filter((title): title is string => title !== undefined)
+      .slice(0, MAX_SAMPLE_ITEMS),
+  };
+}
+
+/**
+ * Values of itunes:explicit; anything else leaves the flag unset
+ */
+const EXPLICIT_VALUES: Record<string, boolean> = {
+  yes: true,
+  true: true,
+  explicit: true,
+  no: false,
+  false: false,
+  clean: false,
+};
+
+/**
+ * Whether an RSS item carries an audio or video enclosure
+ */
+function hasMediaEnclosure(item: XmlElement): boolean {
+  return findChildren(item, "enclosure").some((enclosure) =>
+    /^(audio|video)\//i.test(enclosure.attributes["type"] ?? ""),
+  );
+}
+
+/**
+ * Read podcast details from an RSS channel. A feed counts as a podcast when
+ * its channel uses the iTunes or Podcasting 2.0 tags, or when its items
+ * carry audio or video enclosures.
+ */
+function extractPodcastInfo(
+  channel: XmlElement,
+  items: XmlElement[],
+  feedUrl: string,
+): PodcastInfo | undefined {
+  const episodeCount = items.filter(hasMediaEnclosure).length;
+  const usesPodcastTags = channel.children.some(
+    (child) =>
+      child.name.startsWith("itunes:") || child.name.startsWith("podcast:"),
+  );
+  if (!usesPodcastTags && episodeCount === 0) return undefined;
+
+  const owner = findChild(channel, "itunes:owner");
+  const image = findChild(channel, "image");
+  const explicit = childText(channel, "itunes:explicit")?.toLowerCase();
+
+  return {
+    artworkUrl: resolveHttpUrl(
+      findChild(channel, "itunes:image")?.attributes["href"] ??
+        findChild(channel, "podcast:image")?.attributes["href"] ??
+        (image && childText(image, "url")),
+      feedUrl,
+    ),
+    author: cleanText(
+      childText(channel, "itunes:author") ??
+        (owner && childText(owner, "itunes:name")),
+    ),
+    episodeCount,
+    explicit: explicit === undefined ? undefined : EXPLICIT_VALUES[explicit],
+  };
+}
+
+function extractXmlFeedMetadata(
+  root: XmlElement,
+  feedUrl: string,
+): FeedMetadata | null {
+  if (root.name === "feed" || root.name.endsWith(":feed")) {
+    return extractAtomMetadata(root, feedUrl);
+  }
+
+  const channel = findChild(root, "channel");
+  if (!channel) return null;
+
+  // RSS 2.0 nests items in <channel>; RSS 1.0 (RDF) lists them under the root
+  const itemElements =
+    root.name === "rss"
+      ? findChildren(channel, "item")
+      : findChildren(root, "item");
+
+  const items = itemElements.map(
+    (item): ItemSummary => ({
+      title: cleanText(childText(item, "title")),
+      date: xmlItemDate(item),
+    }),
+  );
+
+  return {
+    title: cleanText(childText(channel, "title")),
+    description: cleanText(childText(channel, "description")),
+    siteUrl: resolveHttpUrl(childText(channel, "link"), feedUrl),
+    language: cleanText(
+      childText(channel, "language") ?? childText(channel, "dc:language"),
+    ),
+    ...summarizeItems(items),
+    podcast: extractPodcastInfo(channel, itemElements, feedUrl),
+  };
+}
+
+/**
+ * Pick the alternate (HTML) link of an Atom feed or entry
+ */
+function atomAlternateLink(element: XmlElement): string | undefined {
+  const link = findChildren(element, "link").find((candidate) => {
+    const rel = candidate.attributes["rel"];
+    return rel === undefined || rel === "alternate";
+  });
+  return link?.attributes["href"];
+}
+
+function extractAtomMetadata(root: XmlElement, feedUrl: string): FeedMetadata {
+  const items = findChildren(root, "entry").map(
+    (entry): ItemSummary => ({
+      title: cleanText(childText(entry, "title")),
+      date: xmlItemDate(entry),
+    }),
+  );
+
+  return {
+    title: cleanText(childText(root, "title")),
+    description: cleanText(childText(root, "subtitle")),
+    siteUrl: resolveHttpUrl(atomAlternateLink(root), feedUrl),
+    language: cleanText(root.attributes["xml:lang"]),
+    ...summarizeItems(items),
+  };
+}
+
+function extractJsonFeedMetadata(
+  feed: unknown,
+  feedUrl: string,
+): FeedMetadata | null {
+  if (!feed || typeof feed !== "object") return null;
+
+  const { title, description, home_page_url, language, items } = feed as {
+    title?: unknown;
+    description?: unknown;
+    home_page_url?: unknown;
+    language?: unknown;
+    items?: unknown;
+  };
+
+  const itemSummaries = (Array.isArray(items) ? items : []).map(
+    (item): ItemSummary => {
+      const fields = (item ?? {}) as {
+        title?: unknown;
+        date_published?: unknown;
+        date_modified?: unknown;
+      };
+      return {
+        title: cleanText(fields.title),
+        date: jsonItemDate(fields),
+      };
+    },
+  );
+
+  return {
+    title: cleanText(title),
+    description: cleanText(description),
+    siteUrl: resolveHttpUrl(
+      typeof home_page_url === "string" ? home_page_url : undefined,
+      feedUrl,
+    ),
+    language: cleanText(language),
+    ...summarizeItems(itemSummaries),
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { parseFeedDocument } from "./document";
+import { extractWebSubLinks } from "./websub";
+
+const feedUrl = "https://example.com/feed/";
+
+describe("feed/websub", () => {
+  describe("extractWebSubLinks", () => {
+    it("should read atom:link hub and self links from RSS", () => {
+      const rss = `<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+          <channel>
+            <title>Example</title>
+            <link>https://example.com/</link>
+            <atom:link href="https://example.com/feed/" rel="self" type="application/rss+xml"/>
+            <atom:link href="https://pubsubhubbub.appspot.com/" rel="hub"/>
+          </channel>
+        </rss>`;
+
+      expect(
+        extractWebSubLinks(parseFeedDocument(rss, "RSS"), feedUrl),
+      ).toEqual({
+        hubUrl: "https://pubsubhubbub.appspot.com/",
+        selfUrl: "https://example.com/feed/",
+      });
+    });
+
+    it("should read hub and self links from Atom, resolving relative ones", () => {
+      const atom = `<feed xmlns="http://www.w3.org/2005/Atom">
+          <link href="/" />
+          <link rel="self" href="/feed.atom"/>
+          <link rel="hub" href="https://hub.example.net/"/>
+        </feed>`;
+
+      expect(
+        extractWebSubLinks(parseFeedDocument(atom, "Atom"), feedUrl),
+      ).toEqual({
+        hubUrl: "https://hub.example.net/",
+        selfUrl: "https://example.com/feed.atom",
+      });
+    });
+
+    it("should read WebSub hubs and the feed URL from JSON Feed", () => {
+      const json = JSON.stringify({
+        version: "https://jsonfeed.org/version/1.1",
+        feed_url: "https://example.com/feed.json",
+        hubs: [
+          { type: "rssCloud", url: "https://cloud.example.net/" },
+          { type: "WebSub", url: "https://hub.example.net/" },
+        ],
+      });
+
+      expect(
+        extractWebSubLinks(parseFeedDocument(json, "JSON"), feedUrl),
+      ).toEqual({
+        hubUrl: "https://hub.example.net/",
+        selfUrl: "https://example.com/feed.json",
+      });
+    });
+
+    it("should find nothing in feeds without the links", () => {
+      expect(
+        extractWebSubLinks(
+          parseFeedDocument("<rss><channel></channel></rss>", "RSS"),
+          feedUrl,
+        ),
+      ).toEqual({});
+      expect(
+        extractWebSubLinks(parseFeedDocument("not json", "JSON"), feedUrl),
+      ).toEqual({});
+    });
+
+    it("should drop non-HTTP links", () => {
+      const atom = `<feed xmlns="http://www.w3.org/2005/Atom">
+          <link rel="hub" href="javascript:alert(1)"/>
+        </feed>`;
+
+      expect(
+        extractWebSubLinks(parseFeedDocument(atom, "Atom"), feedUrl).hubUrl,
+      ).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import type { FeedDocument } from "./document";
+import { resolveHttpUrl } from "./metadata";
+import { findChild, localName, type XmlElement } from "./xml";
+
+/**
+ * WebSub discovery links a feed publishes (https://www.w3.org/TR/websub/)
+ */
+export interface WebSubLinks {
+  /** Hub that pushes the feed's updates to subscribers */
+  hubUrl?: string;
+  /** Canonical URL of the feed, which is the topic subscribers name */
+  selfUrl?: string;
+}
+
+/**
+ * The href of the first <link> (Atom's, or atom:link in RSS) whose rel
+ * includes `rel`
+ */
+function findLinkHref(container: XmlElement, rel: string): string | undefined {
+  return container.children.find(
+    (child) =>
+      localName(child.name) === "link" &&
+      (child.attributes["rel"] ?? "").toLowerCase().split(/\s+/).includes(rel),
+  )?.attributes["href"];
+}
+
+function extractXmlWebSubLinks(
+  root: XmlElement | null,
+  feedUrl: string,
+): WebSubLinks {
+  if (!root) return {};
+
+  // Atom links sit under the root, atom:link in RSS under <channel>
+  const container =
+    localName(root.name) === "feed" ? root : findChild(root, "channel");
+  if (!container) return {};
+
+  return {
+    hubUrl: resolveHttpUrl(findLinkHref(container, "hub"), feedUrl),
+    selfUrl: resolveHttpUrl(findLinkHref(container, "self"), feedUrl),
+  };
+}
+
+function extractJsonWebSubLinks(feed: unknown, feedUrl: string): WebSubLinks {
+  if (!feed || typeof feed !== "object") return {};
+
+  const { hubs, feed_url } = feed as {
+    hubs?: unknown;
+    feed_url?: unknown;
+  };
+  const hub = (Array.isArray(hubs) ? hubs : []).find(
+    (candidate) =>
+      typeof candidate?.url === "string" &&
+      String(candidate.type).toLowerCase() === "websub",
+  ) as { url: string } | undefined;
+
+  return {
+    hubUrl: resolveHttpUrl(hub?.url, feedUrl),
+    selfUrl: resolveHttpUrl(
+      typeof feed_url === "string" ? feed_url : undefined,
+      feedUrl,
+    ),
+  };
+}
+
+/**
+ * Read the WebSub hub and self links from a parsed feed: rel="hub" and
+ * rel="self" links in Atom and RSS, or `hubs` and `feed_url` in JSON Feed.
+ * Only HTTP(S) links are kept.
+ */
+export function extractWebSubLinks(
+  document: FeedDocument,
+  feedUrl: string,
+): WebSubLinks {
+  if (document.type === "JSON") {
+    return document.json
+      .map((feed) => extractJsonWebSubLinks(feed, feedUrl))
+      .unwrapOr({});
+  }
+  return extractXmlWebSubLinks(document.xml.root, feedUrl);
+}
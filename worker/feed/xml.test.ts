@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import {
+  childText,
+  decodeXmlEntities,
+  findChild,
+  findChildren,
+  localName,
+  parseXml,
+} from "./xml";
+
+describe("feed/xml", () => {
+  describe("decodeXmlEntities", () => {
+    it("should decode predefined and numeric entities", () => {
+      expect(decodeXmlEntities("a &lt;b&gt; &amp; &quot;c&quot; &apos;")).toBe(
+        'a <b> & "c" \'',
+      );
+      expect(decodeXmlEntities("&#169; &#xE9;")).toBe("© é");
+    });
+
+    it("should leave undefined entities untouched and report them", () => {
+      const issues: string[] = [];
+      expect(decodeXmlEntities("a&nbsp;b", issues)).toBe("a&nbsp;b");
+      expect(issues).toEqual(["Undefined entity &nbsp;"]);
+    });
+  });
+
+  describe("parseXml", () => {
+    it("should build an element tree with attributes and text", () => {
+      const { root, issues } = parseXml(`<?xml version="1.0"?>
+        <rss version="2.0">
+          <channel>
+            <title>Example &amp; Co</title>
+            <link>https://example.com/</link>
+            <atom:link href="https://example.com/feed" rel="self"/>
+          </channel>
+        </rss>`);
+
+      expect(issues).toEqual([]);
+      expect(root?.name).toBe("rss");
+      expect(root?.attributes).toEqual({ version: "2.0" });
+
+      const channel = root ? findChild(root, "channel") : undefined;
+      expect(channel).toBeDefined();
+      if (channel) {
+        expect(childText(channel, "title")).toBe("Example & Co");
+        // <link> keeps its text content, unlike HTML parsing
+        expect(childText(channel, "link")).toBe("https://example.com/");
+        expect(findChild(channel, "atom:link")?.attributes["rel"]).toBe("self");
+      }
+    });
+
+    it("should keep CDATA content verbatim", () => {
+      const { root } = parseXml(
+        "<item><title><![CDATA[Tom & Jerry <live>]]></title></item>",
+      );
+      expect(root && childText(root, "title")).toBe("Tom & Jerry <live>");
+    });
+
+    it("should ignore comments, doctypes and processing instructions", () => {
+      const { root, issues } = parseXml(
+        '<!DOCTYPE feed><!-- c --><?xml-stylesheet href="a.xsl"?><feed><entry/><entry/></feed>',
+      );
+      expect(issues).toEqual([]);
+      expect(root && findChildren(root, "entry")).toHaveLength(2);
+    });
+
+    it("should handle > inside quoted attribute values", () => {
+      const { root } = parseXml('<a title="x > y"><b/></a>');
+      expect(root?.attributes["title"]).toBe("x > y");
+      expect(root?.children).toHaveLength(1);
+    });
+
+    it("should report unclosed and mismatched elements", () => {
+      const { root, issues } = parseXml("<rss><channel><item></channel>");
+      expect(root?.name).toBe("rss");
+      expect(issues).toEqual([
+        "Element <item> closed implicitly by </channel>",
+        "Unclosed element <rss>",
+      ]);
+    });
+
+    it("should report unexpected closing tags and multiple roots", () => {
+      const { issues } = parseXml("<a></b></a><c/>");
+      expect(issues).toEqual([
+        "Unexpected closing tag </b>",
+        "Multiple document elements (<c> after <a>)",
+      ]);
+    });
+
+    it("should handle many mismatched closing tags in linear time", () => {
+      const depth = 40_000;
+      const xml = `<rss>${"<a>".repeat(depth)}${"</b>".repeat(depth)}</rss>`;
+
+      const start = performance.now();
+      const { root, issues } = parseXml(xml);
+      const elapsed = performance.now() - start;
+
+      expect(root?.name).toBe("rss");
+      expect(
+        issues.filter((issue) => issue === "Unexpected closing tag </b>"),
+      ).toHaveLength(depth);
+      expect(issues).toContain("Element <a> closed implicitly by </rss>");
+      expect(elapsed).toBeLessThan(1000);
+    });
+
+    it("should report attribute problems", () => {
+      const { issues } = parseXml('<a b=c d="1" d="2"></a>');
+      expect(issues).toEqual([
+        'Attribute "b" value is not quoted',
+        'Duplicate attribute "d"',
+      ]);
+    });
+
+    it("should report documents without an element", () => {
+      const { root, issues } = parseXml("just text");
+      expect(root).toBeNull();
+      expect(issues).toContain("No document element found");
+    });
+  });
+
+  describe("localName", () => {
+    it("should strip namespace prefixes", () => {
+      expect(localName("dc:date")).toBe("date");
+      expect(localName("title")).toBe("title");
+    });
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * Minimal, lenient XML parser for feed documents.
+ *
+ * Workers have no DOMParser, and node-html-parser applies HTML rules (for
+ * example it treats <link> as a void element, which breaks RSS). This parser
+ * builds a plain element tree, keeps namespace prefixes in element names
+ * (e.g. "dc:date") and records well-formedness problems instead of failing.
+ */
+
+export interface XmlElement {
+  /** Qualified element name, including any namespace prefix */
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Concatenated, entity-decoded character data (including CDATA) */
+  text: string;
+}
+
+export interface XmlDocument {
+  /** The document element, or null when none was found */
+  root: XmlElement | null;
+  /** Well-formedness problems encountered while parsing */
+  issues: string[];
+}
+
+const PREDEFINED_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Decode predefined and numeric character references.
+ * Unknown entities are left untouched and reported through `issues`.
+ */
+export function decodeXmlEntities(value: string, issues?: string[]): string {
+  if (!value.includes("&")) return value;
+
+  return value.replace(
+    /&(#x[0-9a-f]+|#[0-9]+|[a-z][a-z0-9]*);/gi,
+    (match, ref) => {
+      const entity = ref as string;
+      if (entity.startsWith("#")) {
+        const codePoint =
+          entity[1] === "x" || entity[1] === "X"
+            ? Number.parseInt(entity.slice(2), 16)
+            : Number.parseInt(entity.slice(1), 10);
+        if (codePoint > 0 && codePoint <= 0x10ffff) {
+          return String.fromCodePoint(codePoint);
+        }
+        issues?.push(`Invalid character reference ${match}`);
+        return match;
+      }
+
+      const decoded = PREDEFINED_ENTITIES[entity];
+      if (decoded !== undefined) return decoded;
+
+      issues?.push(`Undefined entity ${match}`);
+      return match;
+    },
+  );
+}
+
+function isXmlWhitespace(character: string | undefined): boolean {
+  return (
+    character === " " ||
+    character === "\t" ||
+    character === "\n" ||
+    character === "\r"
+  );
+}
+
+/**
+ * Parse attributes from the inside of a start tag (after the element name)
+ */
+function parseAttributes(
+  source: string,
+  issues: string[],
+): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  let index = 0;
+
+  while (index < source.length) {
+    while (index < source.length && isXmlWhitespace(source[index])) index++;
+    if (index >= source.length) break;
+
+    const nameStart = index;
+    while (
+      index < source.length &&
+      source[index] !== "=" &&
+      !isXmlWhitespace(source[index])
+    ) {
+      index++;
+    }
+    const name = source.substring(nameStart, index);
+
+    while (index < source.length && isXmlWhitespace(source[index])) index++;
+    if (source[index] !== "=") {
+      issues.push(`Attribute "${name}" has no value`);
+      continue;
+    }
+    index++;
+    while (index < source.length && isXmlWhitespace(source[index])) index++;
+
+    const quote = source[index];
+    if (quote !== '"' && quote !== "'") {
+      issues.push(`Attribute "${name}" value is not quoted`);
+      while (index < source.length && !isXmlWhitespace(source[index])) index++;
+      continue;
+    }
+
+    const valueEnd = source.indexOf(quote, index + 1);
+    if (valueEnd === -1) {
+      issues.push(`Attribute "${name}" value is not terminated`);
+      break;
+    }
+
+    if (name in attributes) {
+      issues.push(`Duplicate attribute "${name}"`);
+    }
+    attributes[name] = decodeXmlEntities(
+      source.substring(index + 1, valueEnd),
+      issues,
+    );
+    index = valueEnd + 1;
+  }
+
+  return attributes;
+}
+
+/**
+ * Parse an XML document into an element tree
+ */
+export function parseXml(xml: string): XmlDocument {
+  const issues: string[] = [];
+  const stack: XmlElement[] = [];
+  const openCounts = new Map<string, number>();
+  let root: XmlElement | null = null;
+  let index = 0;
+
+  const appendText = (text: string) => {
+    const current = stack[stack.length - 1];
+    if (current) {
+      current.text += text;
+    } else if (text.trim() !== "") {
+      issues.push("Text content outside of the document element");
+    }
+  };
+
+  while (index < xml.length) {
+    const tagStart = xml.indexOf("<", index);
+    if (tagStart === -1) {
+      appendText(decodeXmlEntities(xml.substring(index), issues));
+      break;
+    }
+    if (tagStart > index) {
+      appendText(decodeXmlEntities(xml.substring(index, tagStart), issues));
+    }
+
+    if (xml.startsWith("<![CDATA[", tagStart)) {
+      const end = xml.indexOf("]]>", tagStart + 9);
+      if (end === -1) {
+        issues.push("Unterminated CDATA section");
+        break;
+      }
+      appendText(xml.substring(tagStart + 9, end));
+      index = end + 3;
+      continue;
+    }
+
+    if (xml.startsWith("<!--", tagStart)) {
+      const end = xml.indexOf("-->", tagStart + 4);
+      if (end === -1) {
+        issues.push("Unterminated comment");
+        break;
+      }
+      index = end + 3;
+      continue;
+    }
+
+    if (xml.startsWith("<?", tagStart)) {
+      const end = xml.indexOf("?>", tagStart + 2);
+      if (end === -1) {
+        issues.push("Unterminated processing instruction");
+        break;
+      }
+      index = end + 2;
+      continue;
+    }
+
+    if (xml.startsWith("<!", tagStart)) {
+      const end = xml.indexOf(">", tagStart + 2);
+      if (end === -1) {
+        issues.push("Unterminated declaration");
+        break;
+      }
+      index = end + 1;
+      continue;
+    }
+
+    const tagEnd = findTagEnd(xml, tagStart + 1);
+    if (tagEnd === -1) {
+      issues.push("Unterminated tag");
+      break;
+    }
+    index = tagEnd + 1;
+
+    if (xml[tagStart + 1] === "/") {
+      const name = xml.substring(tagStart + 2, tagEnd).trim();
+      closeElement(stack, openCounts, name, issues);
+      continue;
+    }
+
+    const selfClosing = xml[tagEnd - 1] === "/";
+    const inner = xml.substring(
+      tagStart + 1,
+      selfClosing ? tagEnd - 1 : tagEnd,
+    );
+    let nameEnd = 0;
+    while (nameEnd < inner.length && !isXmlWhitespace(inner[nameEnd])) {
+      nameEnd++;
+    }
+    const name = inner.substring(0, nameEnd);
+    if (name === "") {
+      issues.push("Element without a name");
+      continue;
+    }
+
+    const element: XmlElement = {
+      name,
+      attributes: parseAttributes(inner.substring(nameEnd), issues),
+      children: [],
+      text: "",
+    };
+
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.children.push(element);
+    } else if (root) {
+      issues.push(
+        `Multiple document elements (<${name}> after <${root.name}>)`,
+      );
+    } else {
+      root = element;
+    }
+
+    if (!selfClosing) {
+      stack.push(element);
+      openCounts.set(name, (openCounts.get(name) ?? 0) + 1);
+    }
+  }
+
+  for (const element of stack.reverse()) {
+    issues.push(`Unclosed element <${element.name}>`);
+  }
+  if (!root) {
+    issues.push("No document element found");
+  }
+
+  return { root, issues };
+}
+
+/**
+ * Find the closing ">" of a tag, ignoring any inside quoted attribute values
+ */
+function findTagEnd(xml: string, start: number): number {
+  let quote: string | null = null;
+  for (let index = start; index < xml.length; index++) {
+    const character = xml[index];
+    if (quote) {
+      if (character === quote) quote = null;
+    } else if (character === '"' || character === "'") {
+      quote = character;
+    } else if (character === ">") {
+      return index;
+    } else if (character === "<") {
+      return -1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Close the innermost open element called `name`, closing any opened inside
+ * it implicitly. `openCounts` tracks how many elements of each name are on
+ * the stack, so a closing tag with no open match is rejected without
+ * scanning the stack
+ */
+function closeElement(
+  stack: XmlElement[],
+  openCounts: Map<string, number>,
+  name: string,
+  issues: string[],
+) {
+  if (!openCounts.get(name)) {
+    issues.push(`Unexpected closing tag </${name}>`);
+    return;
+  }
+  let element = stack.pop();
+  while (element) {
+    openCounts.set(element.name, (openCounts.get(element.name) ?? 1) - 1);
+    if (element.name === name) return;
+    issues.push(`Element <${element.name}> closed implicitly by </${name}>`);
+    element = stack.pop();
+  }
+}
+
+/**
+ * Return the local part of a qualified name (e.g. "date" for "dc:date")
+ */
+export function localName(name: string): string {
+  return name.slice(name.indexOf(":") + 1);
+}
+
+/**
+ * Find the first direct child with the given qualified name
+ */
+export function findChild(
+  element: XmlElement,
+  name: string,
+): XmlElement | undefined {
+  return element.children.find((child) => child.name === name);
+}
+
+/**
+ * Find all direct children with the given qualified name
+ */
+export function findChildren(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => child.name === name);
+}
+
+/**
+ * Trimmed text of the first direct child with the given name, if non-empty
+ */
+export function childText(
+  element: XmlElement,
+  name: string,
+): string | undefined {
+  const text = findChild(element, name)?.text.trim();
+  return text ? text : undefined;
+}
@@ -0,0 +1,10 @@
+/**
+ * Whether the request's Accept header lists a media type.
+ * Quality values are not weighed; listing the type is enough to opt in.
+ */
+export function acceptsMediaType(request: Request, mediaType: string): boolean {
+  return (request.headers.get("Accept") ?? "")
+    .toLowerCase()
+    .split(",")
+    .some((entry) => entry.split(";")[0].trim() === mediaType);
+}
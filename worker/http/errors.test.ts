@@ -1,6 +1,6 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type { AppError } from "../types";
-import { createErrorResponse, generateErrorId } from "./errors";
+import { createErrorResponse, describeError, generateErrorId } from "./errors";
 
 // Type for error response JSON
 interface ErrorResponseData {
@@ -158,11 +158,65 @@ describe("http/errors", () => {
       );
     });
 
+    it("should handle REDIRECT_NOT_PERMITTED as a bad request", async () => {
+      const response = createErrorResponse({
+        type: "REDIRECT_NOT_PERMITTED",
+        message: "Redirect blocked",
+      });
+
+      expect(response.status).toBe(400);
+      const responseData = (await response.json()) as ErrorResponseData;
+      expect(responseData.error).toBe(
+        "Invalid request. Please check your input and try again.",
+      );
+    });
+
+    it("should handle TOO_MANY_REDIRECTS as a bad gateway", async () => {
+      const response = createErrorResponse({
+        type: "TOO_MANY_REDIRECTS",
+        message: "More than 5 redirects",
+      });
+
+      expect(response.status).toBe(502);
+      const responseData = (await response.json()) as ErrorResponseData;
+      expect(responseData.error).toBe(
+        "Unable to access the requested URL. Please try again later.",
+      );
+    });
+
+    it("should handle RESPONSE_TOO_LARGE as a bad gateway", async () => {
+      const response = createErrorResponse({
+        type: "RESPONSE_TOO_LARGE",
+        message: "Response exceeded 2097152 bytes",
+      });
+
+      expect(response.status).toBe(502);
+      const responseData = (await response.json()) as ErrorResponseData;
+      expect(responseData.error).toBe(
+        "The website returned too much content to analyze. Please try a different URL.",
+      );
+    });
+
+    it("should handle RATE_LIMITED as too many requests with Retry-After", async () => {
+      const response = createErrorResponse({
+        type: "RATE_LIMITED",
+        message: "Rate limit exceeded",
+        retryAfterSeconds: 6,
+      });
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get("Retry-After")).toBe("6");
+      const responseData = (await response.json()) as ErrorResponseData;
+      expect(responseData.error).toBe(
+        "Too many requests. Please try again in 6 seconds.",
+      );
+    });
+
     it("should handle unknown error types", async () => {
       const error = {
-        type: "UNKNOWN_ERROR" as AppError["type"],
+        type: "UNKNOWN_ERROR",
         message: "Something went wrong",
-      };
+      } as unknown as AppError;
 
       const response = createErrorResponse(error);
 
@@ -242,6 +296,62 @@ describe("http/errors", () => {
     });
   });
 
+  describe("describeError", () => {
+    it("should return the status and body used for error responses", () => {
+      const { status, body } = describeError({
+        type: "TIMEOUT_ERROR",
+        message: "Request timeout for https://example.com",
+      });
+
+      expect(status).toBe(408);
+      expect(body).toEqual({
+        success: false,
+        error: "Unable to access the requested URL. Please try again later.",
+        errorId: expect.stringMatching(/^[0-9a-z]{9}$/),
+      });
+    });
+
+    it("should reject oversized batches as bad requests", () => {
+      const { status, body } = describeError({
+        type: "TOO_MANY_URLS",
+        message: "Batch of 11 URLs exceeds the limit of 10",
+      });
+
+      expect(status).toBe(400);
+      expect(body.error).toBe(
+        "Too many URLs. Please submit at most 10 per request.",
+      );
+    });
+
+    it("should reject unusable OPML uploads as bad requests", () => {
+      const invalid = describeError({
+        type: "INVALID_OPML",
+        message: "Document is not OPML",
+      });
+      const tooMany = describeError({
+        type: "TOO_MANY_SUBSCRIPTIONS",
+        message: "OPML document has 501 subscriptions",
+      });
+
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error).toBe(
+        "Invalid OPML file. Please upload an OPML subscription list of at most 1 MB.",
+      );
+      expect(tooMany.status).toBe(400);
+      expect(tooMany.body.error).toBe(
+        "Too many subscriptions. Please upload at most 100 feeds per file.",
+      );
+    });
+
+    it("should give each error its own ID", () => {
+      const error = { type: "PARSING_ERROR" as const, message: "bad" };
+
+      expect(describeError(error).body.errorId).not.toBe(
+        describeError(error).body.errorId,
+      );
+    });
+  });
+
   describe("generateErrorId", () => {
     it("should generate exactly 9 base-36 characters", () => {
       const errorId = generateErrorId();
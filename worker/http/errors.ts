@@ -1,5 +1,10 @@
+import {
+  MAX_BATCH_URLS,
+  MAX_OPML_BYTES,
+  MAX_OPML_SUBSCRIPTIONS,
+} from "../config";
 import { logger } from "../observability/logger";
-import type { AppError } from "../types";
+import type { AppError, SearchError } from "../types";
 
 /**
  * Secure error response helper that prevents information leakage
@@ -31,7 +36,14 @@ export function generateErrorId(): string {
   return errorId;
 }
 
-export function createErrorResponse(error: AppError): Response {
+/**
+ * Log an error under a fresh error ID and map it to the generic body and
+ * HTTP status sent to clients
+ */
+export function describeError(error: AppError): {
+  status: number;
+  body: SearchError;
+} {
   // Log detailed error information for debugging (server-side only)
   const errorId = generateErrorId();
   logger.error(
@@ -50,13 +62,25 @@ export function createErrorResponse(error: AppError): Response {
       case "MISSING_URL":
       case "INVALID_URL_FORMAT":
       case "URL_NOT_PERMITTED":
+      case "REDIRECT_NOT_PERMITTED":
         return "Invalid request. Please check your input and try again.";
+      case "TOO_MANY_URLS":
+        return `Too many URLs. Please submit at most ${MAX_BATCH_URLS} per request.`;
+      case "INVALID_OPML":
+        return `Invalid OPML file. Please upload an OPML subscription list of at most ${MAX_OPML_BYTES / 1024 / 1024} MB.`;
+      case "TOO_MANY_SUBSCRIPTIONS":
+        return `Too many subscriptions. Please upload at most ${MAX_OPML_SUBSCRIPTIONS} feeds per file.`;
+      case "RATE_LIMITED":
+        return `Too many requests. Please try again in ${error.retryAfterSeconds} seconds.`;
       case "FETCH_FAILED":
       case "NETWORK_ERROR":
       case "TIMEOUT_ERROR":
+      case "TOO_MANY_REDIRECTS":
         return "Unable to access the requested URL. Please try again later.";
       case "PARSING_ERROR":
         return "Unable to analyze the website content. Please try a different URL.";
+      case "RESPONSE_TOO_LARGE":
+        return "The website returned too much content to analyze. Please try a different URL.";
       default:
         return "An unexpected error occurred. Please try again later.";
     }
@@ -68,9 +92,18 @@ export function createErrorResponse(error: AppError): Response {
       case "MISSING_URL":
       case "INVALID_URL_FORMAT":
       case "URL_NOT_PERMITTED":
+      case "REDIRECT_NOT_PERMITTED":
+      case "TOO_MANY_URLS":
+      case "INVALID_OPML":
+      case "TOO_MANY_SUBSCRIPTIONS":
         return 400;
+      case "RATE_LIMITED":
+        return 429;
       case "TIMEOUT_ERROR":
         return 408;
+      case "TOO_MANY_REDIRECTS":
+      case "RESPONSE_TOO_LARGE":
+        return 502;
       case "FETCH_FAILED":
         return error.message.includes("404") ? 404 : 502;
       default:
@@ -78,12 +111,21 @@ export function createErrorResponse(error: AppError): Response {
     }
   })();
 
-  return Response.json(
-    {
+  return {
+    status: statusCode,
+    body: {
       success: false,
       error: userMessage,
       errorId, // Include error ID for support purposes
     },
-    { status: statusCode },
-  );
+  };
+}
+
+export function createErrorResponse(error: AppError): Response {
+  const { status, body } = describeError(error);
+  const headers: Record<string, string> =
+    error.type === "RATE_LIMITED"
+      ? { "Retry-After": String(error.retryAfterSeconds) }
+      : {};
+  return Response.json(body, { status, headers });
 }
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import {
+  acceptsEventStream,
+  createEventStreamResponse,
+  formatServerSentEvent,
+} from "./sse";
+
+describe("http/sse", () => {
+  describe("acceptsEventStream", () => {
+    it("should detect text/event-stream in the Accept header", () => {
+      const request = new Request("https://example.com", {
+        headers: { Accept: "Text/Event-Stream, application/json" },
+      });
+
+      expect(acceptsEventStream(request)).toBe(true);
+    });
+
+    it("should reject requests without it", () => {
+      expect(acceptsEventStream(new Request("https://example.com"))).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("formatServerSentEvent", () => {
+    it("should name the event after its type and send JSON data", () => {
+      expect(formatServerSentEvent({ type: "stage", stage: "page" })).toBe(
+        'event: stage\ndata: {"type":"stage","stage":"page"}\n\n',
+      );
+    });
+  });
+
+  describe("createEventStreamResponse", () => {
+    it("should stream every event sent and close once run settles", async () => {
+      const response = createEventStreamResponse(async (send) => {
+        send({ type: "stage", stage: "page" });
+        await Promise.resolve();
+        send({ type: "probe", url: "https://example.com/feed", found: false });
+      });
+
+      expect(response.headers.get("Content-Type")).toBe(
+        "text/event-stream; charset=utf-8",
+      );
+      expect(response.headers.get("Cache-Control")).toBe("no-cache");
+      expect(await response.text()).toBe(
+        'event: stage\ndata: {"type":"stage","stage":"page"}\n\n' +
+          'event: probe\ndata: {"type":"probe","url":"https://example.com/feed","found":false}\n\n',
+      );
+    });
+
+    it("should still close the stream when run rejects", async () => {
+      const response = createEventStreamResponse(async (send) => {
+        send({ type: "stage", stage: "page" });
+        throw new Error("boom");
+      });
+
+      expect(await response.text()).toContain("event: stage");
+    });
+  });
+});
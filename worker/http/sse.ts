@@ -0,0 +1,47 @@
+import type { SearchStreamEvent } from "../types";
+import { acceptsMediaType } from "./accept";
+
+/**
+ * Whether the client asked for a text/event-stream response
+ */
+export function acceptsEventStream(request: Request): boolean {
+  return acceptsMediaType(request, "text/event-stream");
+}
+
+/**
+ * Format an event as a Server-Sent Event named after its type.
+ * JSON never contains raw newlines, so a single data line suffices.
+ */
+export function formatServerSentEvent(event: SearchStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Respond with a text/event-stream fed by `run`. The response is returned
+ * straight away and the stream closes once `run` settles.
+ */
+export function createEventStreamResponse(
+  run: (send: (event: SearchStreamEvent) => void) => Promise<void>,
+): Response {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+
+  // Writes fail only when the client has gone away; nothing is left to tell
+  const send = (event: SearchStreamEvent) => {
+    writer
+      .write(encoder.encode(formatServerSentEvent(event)))
+      .catch(() => undefined);
+  };
+
+  run(send)
+    .catch(() => undefined)
+    .finally(() => writer.close().catch(() => undefined));
+
+  return new Response(readable, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
@@ -0,0 +1,177 @@
+import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { BatchSearchResult, DiscoveryResult, SearchError } from "./types";
+
+vi.mock("./discovery", () => ({
+  discoverFeeds: vi.fn(),
+}));
+
+import { discoverFeeds } from "./discovery";
+import worker from "./index";
+
+const mockDiscoverFeeds = vi.mocked(discoverFeeds);
+
+function batchRequest(body: unknown): Request {
+  return new Request("https://test.com/api/search-feeds/batch", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+describe("worker batch search", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    mockDiscoverFeeds.mockImplementation((targetUrl) =>
+      okAsync({
+        feeds: [
+          {
+            url: `${targetUrl}feed.xml`,
+            type: "RSS",
+            discoveryMethod: "meta-tag",
+          },
+        ],
+        resolvedUrl: targetUrl,
+      }),
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should return a search result for every URL in order", async () => {
+    const response = await worker.fetch(
+      batchRequest({ urls: ["example.com", "https://example.org/"] }),
+    );
+
+    expect(response.status).toBe(200);
+    const data = (await response.json()) as BatchSearchResult;
+    expect(data.success).toBe(true);
+    expect(data.succeeded).toBe(2);
+    expect(data.failed).toBe(0);
+    expect(data.results.map((entry) => [entry.url, entry.status])).toEqual([
+      ["example.com", 200],
+      ["https://example.org/", 200],
+    ]);
+    expect(data.results[0].result).toEqual({
+      success: true,
+      searchedUrl: "https://example.com/",
+      totalFound: 1,
+      fetchedAt: expect.any(String),
+      feeds: [
+        {
+          url: "https://example.com/feed.xml",
+          type: "RSS",
+          discoveryMethod: "meta-tag",
+        },
+      ],
+    });
+  });
+
+  it("should report per-URL errors with an errorId", async () => {
+    mockDiscoverFeeds.mockImplementation((targetUrl) =>
+      targetUrl.includes("timeout")
+        ? errAsync({ type: "TIMEOUT_ERROR", message: "Request timeout" })
+        : okAsync({ feeds: [], resolvedUrl: targetUrl }),
+    );
+
+    const response = await worker.fetch(
+      batchRequest({
+        urls: [
+          "https://timeout.example.com",
+          "http://localhost:8080",
+          "https://example.com",
+        ],
+      }),
+    );
+
+    expect(response.status).toBe(200);
+    const data = (await response.json()) as BatchSearchResult;
+    expect(data.succeeded).toBe(1);
+    expect(data.failed).toBe(2);
+
+    const [timedOut, blocked, found] = data.results;
+    expect(timedOut.status).toBe(408);
+    expect(timedOut.result).toEqual({
+      success: false,
+      error: "Unable to access the requested URL. Please try again later.",
+      errorId: expect.stringMatching(/^[0-9a-z]{9}$/),
+    });
+    expect(blocked.status).toBe(400);
+    expect((blocked.result as SearchError).errorId).toBeTruthy();
+    expect(found.result.success).toBe(true);
+    // Rejected URLs never reach discovery
+    expect(mockDiscoverFeeds).toHaveBeenCalledTimes(2);
+  });
+
+  it("should limit how many URLs are searched at once", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    mockDiscoverFeeds.mockImplementation((targetUrl) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      return ResultAsync.fromSafePromise(
+        new Promise<DiscoveryResult>((resolve) =>
+          setTimeout(() => {
+            inFlight--;
+            resolve({ feeds: [], resolvedUrl: targetUrl });
+          }, 5),
+        ),
+      );
+    });
+
+    await worker.fetch(
+      batchRequest({
+        urls: Array.from(
+          { length: 8 },
+          (_, index) => `https://site${index}.example.com`,
+        ),
+      }),
+    );
+
+    expect(maxInFlight).toBe(3);
+  });
+
+  it("should reject malformed batch bodies", async () => {
+    const response = await worker.fetch(
+      batchRequest({ urls: "https://example.com" }),
+    );
+
+    expect(response.status).toBe(400);
+    const data = (await response.json()) as SearchError;
+    expect(data.success).toBe(false);
+    expect(data.errorId).toBeTruthy();
+  });
+
+  it("should reject invalid JSON", async () => {
+    const response = await worker.fetch(batchRequest("{not json"));
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should reject batches over the limit", async () => {
+    const response = await worker.fetch(
+      batchRequest({
+        urls: Array.from(
+          { length: 51 },
+          (_, index) => `https://example.com/${index}`,
+        ),
+      }),
+    );
+
+    expect(response.status).toBe(400);
+    expect(mockDiscoverFeeds).not.toHaveBeenCalled();
+  });
+
+  it("should only accept POST", async () => {
+    const response = await worker.fetch(
+      new Request("https://test.com/api/search-feeds/batch"),
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,150 @@
+import { okAsync } from "neverthrow";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { SearchResult } from "./types";
+
+vi.mock("./discovery", () => ({
+  discoverFeeds: vi.fn(),
+}));
+
+import { discoverFeeds } from "./discovery";
+import worker from "./index";
+
+const mockDiscoverFeeds = vi.mocked(discoverFeeds);
+
+function searchRequest(body: unknown): Request {
+  return new Request("https://test.com/api/search-feeds", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("worker search caching", () => {
+  const stored = new Map<string, Response>();
+  const cache = {
+    match: vi.fn(async (key: Request) => stored.get(key.url)?.clone()),
+    put: vi.fn(async (key: Request, response: Response) => {
+      stored.set(key.url, response);
+    }),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    stored.clear();
+    vi.stubGlobal("caches", { default: cache });
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    mockDiscoverFeeds.mockReturnValue(
+      okAsync({
+        feeds: [],
+        resolvedUrl: "https://example.com/",
+        cacheControl: "max-age=120",
+      }),
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("should serve repeated searches for the same normalized URL from the cache", async () => {
+    const first = (await (
+      await worker.fetch(searchRequest({ url: "example.com" }))
+    ).json()) as SearchResult;
+    const second = (await (
+      await worker.fetch(searchRequest({ url: "https://example.com/" }))
+    ).json()) as SearchResult;
+
+    expect(mockDiscoverFeeds).toHaveBeenCalledTimes(1);
+    expect(first.cached).toBeUndefined();
+    expect(first.fetchedAt).toEqual(expect.any(String));
+    expect(second).toEqual({ ...first, cached: true });
+    expect(cache.put.mock.calls[0][1].headers.get("Cache-Control")).toBe(
+      "max-age=120",
+    );
+  });
+
+  it("should bypass the cache when a refresh is requested", async () => {
+    await worker.fetch(searchRequest({ url: "https://example.com" }));
+    const refreshed = (await (
+      await worker.fetch(
+        searchRequest({ url: "https://example.com", refresh: true }),
+      )
+    ).json()) as SearchResult;
+
+    expect(mockDiscoverFeeds).toHaveBeenCalledTimes(2);
+    expect(refreshed.cached).toBeUndefined();
+    expect(cache.put).toHaveBeenCalledTimes(2);
+  });
+
+  it("should cache ancestor walks apart from plain searches", async () => {
+    await worker.fetch(searchRequest({ url: "https://example.com/a/b" }));
+    const walked = (await (
+      await worker.fetch(
+        searchRequest({ url: "https://example.com/a/b", walkAncestors: true }),
+      )
+    ).json()) as SearchResult;
+
+    expect(mockDiscoverFeeds).toHaveBeenCalledTimes(2);
+    expect(mockDiscoverFeeds).toHaveBeenLastCalledWith(
+      "https://example.com/a/b",
+      undefined,
+      { walkAncestors: true },
+    );
+    expect(walked.cached).toBeUndefined();
+  });
+
+  it("should not cache results for pages that forbid caching", async () => {
+    mockDiscoverFeeds.mockReturnValue(
+      okAsync({
+        feeds: [],
+        resolvedUrl: "https://example.com/",
+        cacheControl: "no-store",
+      }),
+    );
+
+    await worker.fetch(searchRequest({ url: "https://example.com" }));
+
+    expect(cache.put).not.toHaveBeenCalled();
+  });
+
+  it("should cache results only briefly when the page could not be read", async () => {
+    mockDiscoverFeeds.mockReturnValue(
+      okAsync({
+        feeds: [],
+        resolvedUrl: "https://example.com/",
+        pageUnavailable: true,
+      }),
+    );
+
+    await worker.fetch(searchRequest({ url: "https://example.com" }));
+
+    expect(cache.put.mock.calls[0][1].headers.get("Cache-Control")).toBe(
+      "max-age=60",
+    );
+  });
+
+  it("should cache results with unverified feeds only briefly", async () => {
+    mockDiscoverFeeds.mockReturnValue(
+      okAsync({
+        feeds: [
+          {
+            url: "https://example.com/feed",
+            type: "RSS",
+            discoveryMethod: "meta-tag",
+            verification: "unverified",
+          },
+        ],
+        resolvedUrl: "https://example.com/",
+        cacheControl: "max-age=600",
+      }),
+    );
+
+    await worker.fetch(searchRequest({ url: "https://example.com" }));
+
+    expect(cache.put.mock.calls[0][1].headers.get("Cache-Control")).toBe(
+      "max-age=60",
+    );
+  });
+});
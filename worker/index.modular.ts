@@ -19,16 +19,21 @@ async function handleFeedSearch(request: Request): Promise<Response> {
       }) as ValidationError,
   )
     .andThen(parseRequestBody)
-    .andThen(normalizeUrl)
-    .andThen(validateTargetUrl)
-    .andThen((validatedUrl) =>
-      discoverFeeds(validatedUrl.href).map((feeds) => ({
-        success: true,
-        searchedUrl: validatedUrl.href,
-        totalFound: feeds.length,
-        feeds,
-      })),
-    );
+    .andThen(({ url, walkAncestors }) =>
+      normalizeUrl(url)
+        .andThen(validateTargetUrl)
+        .asyncAndThen((validatedUrl) =>
+          discoverFeeds(validatedUrl.href, undefined, { walkAncestors }),
+        ),
+    )
+    .map(({ feeds, resolvedUrl, platform, robotsTxt }) => ({
+      success: true,
+      searchedUrl: resolvedUrl,
+      totalFound: feeds.length,
+      platform,
+      robotsTxt,
+      feeds,
+    }));
 
   return result.match(
     (successData) => Response.json(successData),
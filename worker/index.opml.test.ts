@@ -0,0 +1,149 @@
+import { errAsync, okAsync } from "neverthrow";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./discovery", () => ({
+  discoverFeeds: vi.fn(),
+}));
+
+vi.mock("./opml/check", () => ({
+  checkSubscriptions: vi.fn(),
+}));
+
+import { discoverFeeds } from "./discovery";
+import worker from "./index";
+import { checkSubscriptions } from "./opml/check";
+
+const mockDiscoverFeeds = vi.mocked(discoverFeeds);
+const mockCheckSubscriptions = vi.mocked(checkSubscriptions);
+
+function searchRequest(accept: string): Request {
+  return new Request("https://test.com/api/search-feeds", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: accept },
+    body: JSON.stringify({ url: "https://example.com" }),
+  });
+}
+
+describe("worker OPML export", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    mockDiscoverFeeds.mockReturnValue(
+      okAsync({
+        feeds: [
+          {
+            url: "https://example.com/feed.xml",
+            title: "Example Blog",
+            type: "RSS",
+            discoveryMethod: "meta-tag",
+          },
+        ],
+        resolvedUrl: "https://example.com/",
+      }),
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should return OPML when the client accepts text/x-opml", async () => {
+    const response = await worker.fetch(searchRequest("text/x-opml"));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe(
+      "text/x-opml; charset=utf-8",
+    );
+    expect(response.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="example.com-feeds.opml"',
+    );
+    const body = await response.text();
+    expect(body).toContain('<opml version="2.0">');
+    expect(body).toContain('xmlUrl="https://example.com/feed.xml"');
+  });
+
+  it("should honour text/x-opml among other media types", async () => {
+    const response = await worker.fetch(
+      searchRequest("application/json;q=0.5, text/x-opml"),
+    );
+
+    expect(response.headers.get("Content-Type")).toContain("text/x-opml");
+  });
+
+  it("should keep returning JSON errors", async () => {
+    mockDiscoverFeeds.mockReturnValue(
+      errAsync({ type: "TIMEOUT_ERROR", message: "Request timeout" }),
+    );
+
+    const response = await worker.fetch(searchRequest("text/x-opml"));
+
+    expect(response.status).toBe(408);
+    expect(response.headers.get("Content-Type")).toContain("application/json");
+  });
+});
+
+describe("worker OPML check", () => {
+  function checkRequest(body: string): Request {
+    return new Request("https://test.com/api/check-opml", {
+      method: "POST",
+      headers: { "Content-Type": "text/x-opml" },
+      body,
+    });
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    mockCheckSubscriptions.mockImplementation(async (subscriptions) => ({
+      success: true,
+      total: subscriptions.length,
+      counts: { alive: subscriptions.length, redirected: 0, moved: 0, dead: 0 },
+      subscriptions: subscriptions.map((subscription) => ({
+        ...subscription,
+        status: "alive",
+        suggestions: [],
+      })),
+    }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should check every subscription in the uploaded document", async () => {
+    const response = await worker.fetch(
+      checkRequest(
+        '<opml version="2.0"><body><outline text="A" xmlUrl="https://a.example/feed"/></body></opml>',
+      ),
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockCheckSubscriptions).toHaveBeenCalledWith([
+      { title: "A", xmlUrl: "https://a.example/feed", htmlUrl: undefined },
+    ]);
+    expect(await response.json()).toMatchObject({ success: true, total: 1 });
+  });
+
+  it("should reject documents that are not OPML", async () => {
+    const response = await worker.fetch(checkRequest("not xml at all"));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      success: false,
+      error: expect.stringContaining("Invalid OPML file"),
+    });
+    expect(mockCheckSubscriptions).not.toHaveBeenCalled();
+  });
+
+  it("should reject documents over the size limit", async () => {
+    const response = await worker.fetch(
+      checkRequest(`<opml>${" ".repeat(1024 * 1024)}</opml>`),
+    );
+
+    expect(response.status).toBe(400);
+    expect(mockCheckSubscriptions).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,63 @@
+import { okAsync } from "neverthrow";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RATE_LIMIT_CAPACITY } from "./config";
+
+vi.mock("./discovery", () => ({
+  discoverFeeds: vi.fn(),
+}));
+
+import { discoverFeeds } from "./discovery";
+import worker from "./index";
+
+const mockDiscoverFeeds = vi.mocked(discoverFeeds);
+
+function searchRequest(clientIp?: string): Request {
+  return new Request("https://test.com/api/search-feeds", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(clientIp ? { "CF-Connecting-IP": clientIp } : {}),
+    },
+    body: JSON.stringify({ url: "https://example.com" }),
+  });
+}
+
+describe("worker rate limiting", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    mockDiscoverFeeds.mockReturnValue(
+      okAsync({ feeds: [], resolvedUrl: "https://example.com/" }),
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should answer 429 with Retry-After once a client exhausts its bucket", async () => {
+    for (let index = 0; index < RATE_LIMIT_CAPACITY; index++) {
+      const response = await worker.fetch(searchRequest("203.0.113.7"));
+      expect(response.status).toBe(200);
+    }
+
+    const limited = await worker.fetch(searchRequest("203.0.113.7"));
+
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("Retry-After"))).toBeGreaterThan(0);
+    expect(limited.headers.get("X-Content-Type-Options")).toBe("nosniff");
+    expect(mockDiscoverFeeds).toHaveBeenCalledTimes(RATE_LIMIT_CAPACITY);
+
+    const otherClient = await worker.fetch(searchRequest("203.0.113.8"));
+    expect(otherClient.status).toBe(200);
+  });
+
+  it("should not limit requests without a client IP", async () => {
+    for (let index = 0; index <= RATE_LIMIT_CAPACITY; index++) {
+      const response = await worker.fetch(searchRequest());
+      expect(response.status).toBe(200);
+    }
+  });
+});
@@ -0,0 +1,122 @@
+import { errAsync, okAsync } from "neverthrow";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { SearchStreamEvent } from "./types";
+
+vi.mock("./discovery", () => ({
+  discoverFeeds: vi.fn(),
+}));
+
+import { discoverFeeds } from "./discovery";
+import worker from "./index";
+
+const mockDiscoverFeeds = vi.mocked(discoverFeeds);
+
+const feed = {
+  url: "https://example.com/feed.xml",
+  type: "RSS" as const,
+  discoveryMethod: "meta-tag" as const,
+  verification: "verified" as const,
+};
+
+function searchRequest(body: unknown, accept = "text/event-stream"): Request {
+  return new Request("https://test.com/api/search-feeds", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: accept },
+    body: JSON.stringify(body),
+  });
+}
+
+async function readEvents(response: Response): Promise<SearchStreamEvent[]> {
+  const text = await response.text();
+  return text
+    .split("\n\n")
+    .filter(Boolean)
+    .map((block) => JSON.parse(block.split("\ndata: ")[1]));
+}
+
+describe("worker streamed search", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    mockDiscoverFeeds.mockImplementation((targetUrl, onProgress) => {
+      onProgress?.({ type: "stage", stage: "page" });
+      onProgress?.({
+        type: "probe",
+        url: `${targetUrl}rss.xml`,
+        found: false,
+      });
+      onProgress?.({ type: "feed", feed });
+      return okAsync({ feeds: [feed], resolvedUrl: targetUrl });
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should stream progress followed by the search result", async () => {
+    const response = await worker.fetch(searchRequest({ url: "example.com" }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toContain("text/event-stream");
+    expect(await readEvents(response)).toEqual([
+      { type: "stage", stage: "page" },
+      { type: "probe", url: "https://example.com/rss.xml", found: false },
+      { type: "feed", feed },
+      {
+        type: "complete",
+        result: {
+          success: true,
+          searchedUrl: "https://example.com/",
+          totalFound: 1,
+          fetchedAt: expect.any(String),
+          feeds: [feed],
+        },
+      },
+    ]);
+  });
+
+  it("should end the stream with an error event when the search fails", async () => {
+    mockDiscoverFeeds.mockReturnValue(
+      errAsync({ type: "TIMEOUT_ERROR", message: "Request timeout" }),
+    );
+
+    const response = await worker.fetch(
+      searchRequest({ url: "https://example.com" }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(await readEvents(response)).toEqual([
+      {
+        type: "error",
+        error: {
+          success: false,
+          error: "Unable to access the requested URL. Please try again later.",
+          errorId: expect.stringMatching(/^[0-9a-z]{9}$/),
+        },
+      },
+    ]);
+  });
+
+  it("should reject invalid request bodies before streaming", async () => {
+    const response = await worker.fetch(searchRequest({ website: "x" }));
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get("Content-Type")).toContain("application/json");
+    expect(mockDiscoverFeeds).not.toHaveBeenCalled();
+  });
+
+  it("should keep answering with JSON when the client does not ask for a stream", async () => {
+    const response = await worker.fetch(
+      searchRequest({ url: "https://example.com" }, "application/json"),
+    );
+
+    expect(response.headers.get("Content-Type")).toContain("application/json");
+    expect(await response.json()).toMatchObject({
+      success: true,
+      totalFound: 1,
+    });
+  });
+});
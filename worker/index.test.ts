@@ -1,9 +1,24 @@
+import { okAsync } from "neverthrow";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
 // Mock fetch for testing
 const mockFetch = vi.fn();
 vi.stubGlobal("fetch", mockFetch);
 
+// robots.txt and sitemap lookups have their own tests; leave them out here
+// so the timing tests only measure the page and common path strategies
+vi.mock("./robots/policy", () => ({
+  robotsPolicy: {
+    mode: "enforce",
+    check: (urls: string[]) =>
+      okAsync({ permittedUrls: urls, disallowedUrls: [] }),
+  },
+}));
+
+vi.mock("./discovery/sitemap", () => ({
+  findSitemapFeeds: () => okAsync({ feeds: [], disallowedUrls: [] }),
+}));
+
 import { extractAttributeValue, findMetaFeeds } from "./discovery/html";
 import { normalizeUrl, parseRequestBody } from "./validation/request";
 // Import the actual implementation functions from their modular locations
@@ -122,7 +137,11 @@ describe("URL Validation Security Tests", () => {
       const result = parseRequestBody(body);
       expect(result.isOk()).toBe(true);
       if (result.isOk()) {
-        expect(result.value).toBe("https://example.com");
+        expect(result.value).toEqual({
+          url: "https://example.com",
+          refresh: false,
+          walkAncestors: false,
+        });
       }
     });
 
@@ -230,7 +249,7 @@ describe("URL Validation Security Tests", () => {
       const body = { url: "example.com" };
 
       const result = parseRequestBody(body)
-        .andThen(normalizeUrl)
+        .andThen(({ url }) => normalizeUrl(url))
         .andThen(validateTargetUrl);
 
       expect(result.isOk()).toBe(true);
@@ -243,7 +262,7 @@ describe("URL Validation Security Tests", () => {
       const body = { url: "localhost" };
 
       const result = parseRequestBody(body)
-        .andThen(normalizeUrl)
+        .andThen(({ url }) => normalizeUrl(url))
         .andThen(validateTargetUrl);
 
       expect(result.isErr()).toBe(true);
@@ -256,7 +275,7 @@ describe("URL Validation Security Tests", () => {
       const body = null;
 
       const result = parseRequestBody(body)
-        .andThen(normalizeUrl)
+        .andThen(({ url }) => normalizeUrl(url))
         .andThen(validateTargetUrl);
 
       expect(result.isErr()).toBe(true);
@@ -500,6 +519,7 @@ describe("Performance Optimization Tests", () => {
       let inFlightHeadRequests = 0;
       let maxConcurrentHeadRequests = 0;
       const resolveHeadRequests: Array<() => void> = [];
+      let headRequestsReleased = false;
 
       mockFetch.mockImplementation((_url: string, options?: RequestInit) => {
         if (!options || options.method !== "HEAD") {
@@ -507,6 +527,11 @@ describe("Performance Optimization Tests", () => {
         }
 
         headRequestCount++;
+        // The per-host throttle holds back probes beyond its in-flight limit,
+        // so those only start after the first ones are released
+        if (headRequestsReleased) {
+          return Promise.resolve(mockResponse.clone());
+        }
         inFlightHeadRequests++;
         maxConcurrentHeadRequests = Math.max(
           maxConcurrentHeadRequests,
@@ -521,11 +546,12 @@ describe("Performance Optimization Tests", () => {
         });
       });
 
-      const startTime = performance.now();
-
       // Import function to test parallel execution
       const { default: worker } = await import("./index");
 
+      // Timed from the request, not from loading the worker's modules
+      const startTime = performance.now();
+
       // Create a mock request
       const request = new Request("https://test.com/api/search-feeds", {
         method: "POST",
@@ -541,6 +567,7 @@ describe("Performance Optimization Tests", () => {
           expect(maxConcurrentHeadRequests).toBeGreaterThan(1);
         });
       } finally {
+        headRequestsReleased = true;
         resolveHeadRequests.forEach((resolve) => resolve());
       }
 
@@ -558,40 +585,53 @@ describe("Performance Optimization Tests", () => {
       expect(totalTime).toBeLessThan(1000); // Should complete within 1 second
     });
 
-    it("should combine HTML fetch and common paths in parallel", async () => {
-      // Red Phase: Test that both HTML parsing and common paths run concurrently
+    it("should probe common paths only once the page has been read", async () => {
+      // Path probing waits for the page so a recognised CMS can narrow it
       const baseUrl = "https://example.com";
       const htmlContent = `<html><head>
         <link rel="alternate" type="application/rss+xml" href="/feed.xml" title="RSS Feed">
       </head></html>`;
 
-      const mockHtmlResponse = new Response(htmlContent, {
-        status: 200,
-        headers: { "content-type": "text/html" },
-      });
-
       const mockFeedResponse = new Response("", {
         status: 200,
         headers: { "content-type": "application/rss+xml" },
       });
 
-      let htmlRequestTime: number | null = null;
-      let commonPathsRequestTime: number | null = null;
+      let servePage: () => void = () => undefined;
+      let pageServed = false;
+      let pageRequested = false;
+      let headRequestCount = 0;
+      let headRequestsBeforePage = 0;
 
       mockFetch.mockImplementation((_url: string, options?: RequestInit) => {
-        const currentTime = performance.now();
-
         if (!options || options.method !== "HEAD") {
-          // This is the HTML fetch request
-          htmlRequestTime = currentTime;
-          return Promise.resolve(mockHtmlResponse);
-        } else {
-          // This is a common path HEAD request
-          if (commonPathsRequestTime === null) {
-            commonPathsRequestTime = currentTime;
+          // The first GET is the HTML fetch, held until the test serves it;
+          // later ones verify feeds
+          if (!pageRequested) {
+            pageRequested = true;
+            return new Promise<Response>((resolve) => {
+              servePage = () => {
+                pageServed = true;
+                resolve(
+                  new Response(htmlContent, {
+                    status: 200,
+                    headers: { "content-type": "text/html" },
+                  }),
+                );
+              };
+            });
           }
-          return Promise.resolve(mockFeedResponse.clone());
+          return Promise.resolve(
+            new Response(htmlContent, {
+              status: 200,
+              headers: { "content-type": "text/html" },
+            }),
+          );
         }
+
+        headRequestCount++;
+        if (!pageServed) headRequestsBeforePage++;
+        return Promise.resolve(mockFeedResponse.clone());
       });
 
       const { default: worker } = await import("./index");
@@ -601,19 +641,17 @@ describe("Performance Optimization Tests", () => {
         body: JSON.stringify({ url: baseUrl }),
       });
 
-      await worker.fetch(request);
+      const responsePromise = worker.fetch(request);
+      await vi.waitFor(() => expect(pageRequested).toBe(true));
+      // Give any probe that did not wait for the page time to start
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(headRequestCount).toBe(0);
 
-      // Verify both types of requests occurred
-      expect(htmlRequestTime).not.toBeNull();
-      expect(commonPathsRequestTime).not.toBeNull();
+      servePage();
+      await responsePromise;
 
-      // They should execute in parallel (within 50ms of each other)
-      if (htmlRequestTime && commonPathsRequestTime) {
-        const timeDifference = Math.abs(
-          htmlRequestTime - commonPathsRequestTime,
-        );
-        expect(timeDifference).toBeLessThan(50);
-      }
+      expect(headRequestCount).toBeGreaterThan(0);
+      expect(headRequestsBeforePage).toBe(0);
     });
   });
 
@@ -1,52 +1,322 @@
-import { ResultAsync } from "neverthrow";
+import { err, ok, okAsync, ResultAsync } from "neverthrow";
+import {
+  getOpmlFilename,
+  OPML_MEDIA_TYPE,
+  serializeOpml,
+} from "../shared/opml";
+import { mapWithConcurrency } from "./concurrency";
+import {
+  BATCH_CONCURRENCY,
+  DEGRADED_SEARCH_CACHE_TTL_SECONDS,
+  MAX_OPML_BYTES,
+  OPML_SUBSCRIPTIONS_PER_TOKEN,
+  SEARCH_CACHE_TTL_SECONDS,
+} from "./config";
 import { discoverFeeds } from "./discovery";
+import { acceptsMediaType } from "./http/accept";
 import { addSecurityHeaders, handleCorsPreflightRequest } from "./http/cors";
-import { createErrorResponse } from "./http/errors";
+import { createErrorResponse, describeError } from "./http/errors";
+import { acceptsEventStream, createEventStreamResponse } from "./http/sse";
+import { readLimitedText } from "./net/body";
 import { logAccess } from "./observability/logger";
-import type { ValidationError } from "./types";
-import { normalizeUrl, parseRequestBody } from "./validation/request";
+import { checkSubscriptions } from "./opml/check";
+import { parseOpmlSubscriptions } from "./opml/parse";
+import { createMemoryRateLimitStore, createRateLimiter } from "./rateLimit";
+import {
+  getCacheTtl,
+  readCachedSearch,
+  writeCachedSearch,
+} from "./searchCache";
+import type {
+  AppError,
+  BatchSearchEntry,
+  BatchSearchResult,
+  DiscoveryOptions,
+  DiscoveryResult,
+  ProgressReporter,
+  RateLimitError,
+  SearchRequest,
+  SearchResult,
+  ValidationError,
+} from "./types";
+import {
+  normalizeUrl,
+  parseBatchRequestBody,
+  parseRequestBody,
+} from "./validation/request";
 import { validateTargetUrl } from "./validation/url";
 
+const rateLimiter = createRateLimiter(createMemoryRateLimitStore());
+
 /**
- * Handle feed search requests
+ * Take `cost` tokens from the calling client's bucket. Cloudflare always
+ * sets CF-Connecting-IP; requests without it (local development) are not
+ * limited.
  */
-async function handleFeedSearch(request: Request): Promise<Response> {
-  const result = await ResultAsync.fromPromise(
+function checkRateLimit(
+  request: Request,
+  cost = 1,
+): ResultAsync<void, RateLimitError> {
+  const clientIp = request.headers.get("CF-Connecting-IP");
+  return clientIp ? rateLimiter.consume(clientIp, cost) : okAsync(undefined);
+}
+
+/**
+ * Charge a bulk request for its size once its body is parsed: dispatch
+ * has already taken one token, so only the rest of `cost` is taken here
+ */
+function chargeBulkRequest(
+  request: Request,
+  cost: number,
+): ResultAsync<void, RateLimitError> {
+  return cost > 1 ? checkRateLimit(request, cost - 1) : okAsync(undefined);
+}
+
+/**
+ * Read a JSON request body
+ */
+function readJsonBody(request: Request): ResultAsync<unknown, ValidationError> {
+  return ResultAsync.fromPromise(
     request.json(),
     () =>
       ({
         type: "INVALID_REQUEST_BODY" as const,
         message: "Invalid JSON in request body",
       }) as ValidationError,
-  )
-    .andThen(parseRequestBody)
-    .andThen(normalizeUrl)
+  );
+}
+
+/**
+ * Read an uploaded OPML document, refusing bodies over MAX_OPML_BYTES
+ */
+function readOpmlBody(request: Request): ResultAsync<string, ValidationError> {
+  return readLimitedText(new Response(request.body), MAX_OPML_BYTES)
+    .mapErr(
+      (): ValidationError => ({
+        type: "INVALID_REQUEST_BODY",
+        message: "Failed to read request body",
+      }),
+    )
+    .andThen(({ text, truncated }) =>
+      truncated
+        ? err<string, ValidationError>({
+            type: "INVALID_OPML",
+            message: `OPML document exceeds ${MAX_OPML_BYTES} bytes`,
+          })
+        : ok(text),
+    );
+}
+
+/**
+ * Whether a discovery may have missed feeds for reasons that can pass: the
+ * page could not be read, or a candidate could not be fetched to verify it
+ */
+function isDegraded({ feeds, pageUnavailable }: DiscoveryResult): boolean {
+  return (
+    pageUnavailable === true ||
+    feeds.some((feed) => feed.verification === "unverified")
+  );
+}
+
+/**
+ * Discover a validated URL's feeds and cache the result for as long as the
+ * page itself may be cached, or only briefly when discovery was degraded
+ */
+function discoverAndCache(
+  targetUrl: string,
+  options: DiscoveryOptions,
+  onProgress?: ProgressReporter,
+): ResultAsync<SearchResult, AppError> {
+  return discoverFeeds(targetUrl, onProgress, options).andThen((discovery) => {
+    const { feeds, resolvedUrl, platform, cacheControl, robotsTxt } = discovery;
+    const result: SearchResult = {
+      success: true,
+      searchedUrl: resolvedUrl,
+      totalFound: feeds.length,
+      platform,
+      robotsTxt,
+      fetchedAt: new Date().toISOString(),
+      feeds,
+    };
+    return writeCachedSearch(
+      targetUrl,
+      result,
+      getCacheTtl(
+        cacheControl,
+        isDegraded(discovery)
+          ? DEGRADED_SEARCH_CACHE_TTL_SECONDS
+          : SEARCH_CACHE_TTL_SECONDS,
+      ),
+      options,
+    ).map(() => result);
+  });
+}
+
+/**
+ * Validate a user-supplied URL and discover its feeds, serving a cached
+ * result unless a refresh was requested
+ */
+function searchFeeds(
+  { url, refresh, ...options }: SearchRequest,
+  onProgress?: ProgressReporter,
+): ResultAsync<SearchResult, AppError> {
+  return normalizeUrl(url)
     .andThen(validateTargetUrl)
-    .andThen((validatedUrl) =>
-      discoverFeeds(validatedUrl.href).map((feeds) => ({
-        success: true,
-        searchedUrl: validatedUrl.href,
-        totalFound: feeds.length,
-        feeds,
-      })),
+    .asyncAndThen((validatedUrl) =>
+      (refresh
+        ? okAsync(null)
+        : readCachedSearch(validatedUrl.href, options)
+      ).andThen((cached) =>
+        cached
+          ? okAsync(cached)
+          : discoverAndCache(validatedUrl.href, options, onProgress),
+      ),
     );
+}
+
+/**
+ * Stream a search as Server-Sent Events: progress while discovery runs,
+ * then a final "complete" or "error" event
+ */
+function streamFeedSearch(searchRequest: SearchRequest): Response {
+  return createEventStreamResponse((send) =>
+    searchFeeds(searchRequest, send).match(
+      (result) => send({ type: "complete", result }),
+      (error) => send({ type: "error", error: describeError(error).body }),
+    ),
+  );
+}
+
+/**
+ * Respond with a search result as an OPML subscription list
+ */
+function createOpmlResponse(result: SearchResult): Response {
+  return new Response(serializeOpml(result), {
+    headers: {
+      "Content-Type": `${OPML_MEDIA_TYPE}; charset=utf-8`,
+      "Content-Disposition": `attachment; filename="${getOpmlFilename(result)}"`,
+    },
+  });
+}
+
+/**
+ * Handle feed search requests.
+ * Clients that accept text/event-stream receive progress as it happens, and
+ * clients that accept text/x-opml receive the feeds as OPML instead of JSON.
+ */
+async function handleFeedSearch(request: Request): Promise<Response> {
+  const searchRequest = await readJsonBody(request).andThen(parseRequestBody);
+  if (searchRequest.isOk() && acceptsEventStream(request)) {
+    return streamFeedSearch(searchRequest.value);
+  }
+
+  const result = await searchRequest.asyncAndThen((parsed) =>
+    searchFeeds(parsed),
+  );
 
   return result.match(
-    (successData) => Response.json(successData),
+    (successData) =>
+      acceptsMediaType(request, OPML_MEDIA_TYPE)
+        ? createOpmlResponse(successData)
+        : Response.json(successData),
     (error) => createErrorResponse(error),
   );
 }
 
+/**
+ * Handle batch feed search requests ({ urls: string[] }), which cost one
+ * rate-limit token per URL.
+ * Each URL gets its own entry, failed URLs carrying the same error body and
+ * status the single-URL endpoint would return.
+ */
+async function handleBatchFeedSearch(request: Request): Promise<Response> {
+  const urls = await readJsonBody(request)
+    .andThen(parseBatchRequestBody)
+    .andThen((parsed) =>
+      chargeBulkRequest(request, parsed.length).map(() => parsed),
+    );
+  if (urls.isErr()) {
+    return createErrorResponse(urls.error);
+  }
+
+  const results = await mapWithConcurrency(
+    urls.value,
+    BATCH_CONCURRENCY,
+    (targetUrl) =>
+      searchFeeds({
+        url: targetUrl,
+        refresh: false,
+        walkAncestors: false,
+      }).match(
+        (result): BatchSearchEntry => ({ url: targetUrl, status: 200, result }),
+        (error): BatchSearchEntry => {
+          const { status, body } = describeError(error);
+          return { url: targetUrl, status, result: body };
+        },
+      ),
+  );
+
+  const succeeded = results.filter((entry) => entry.result.success).length;
+  const batchResult: BatchSearchResult = {
+    success: true,
+    results,
+    succeeded,
+    failed: results.length - succeeded,
+  };
+  return Response.json(batchResult);
+}
+
+/**
+ * Handle OPML check requests: the body is an OPML document whose
+ * subscriptions are each reported alive, redirected, moved or dead.
+ * Larger documents cost more rate-limit tokens.
+ */
+async function handleOpmlCheck(request: Request): Promise<Response> {
+  const subscriptions = await readOpmlBody(request)
+    .andThen(parseOpmlSubscriptions)
+    .andThen((parsed) =>
+      chargeBulkRequest(
+        request,
+        Math.ceil(parsed.length / OPML_SUBSCRIPTIONS_PER_TOKEN),
+      ).map(() => parsed),
+    );
+  if (subscriptions.isErr()) {
+    return createErrorResponse(subscriptions.error);
+  }
+
+  return Response.json(await checkSubscriptions(subscriptions.value));
+}
+
 async function dispatch(request: Request, url: URL): Promise<Response> {
   if (request.method === "OPTIONS") {
     return handleCorsPreflightRequest(request);
   }
 
   if (url.pathname.startsWith("/api/")) {
+    if (request.method === "POST") {
+      const rateLimit = await checkRateLimit(request);
+      if (rateLimit.isErr()) {
+        return addSecurityHeaders(
+          createErrorResponse(rateLimit.error),
+          request,
+        );
+      }
+    }
     if (url.pathname === "/api/search-feeds" && request.method === "POST") {
       const response = await handleFeedSearch(request);
       return addSecurityHeaders(response, request);
     }
+    if (
+      url.pathname === "/api/search-feeds/batch" &&
+      request.method === "POST"
+    ) {
+      const response = await handleBatchFeedSearch(request);
+      return addSecurityHeaders(response, request);
+    }
+    if (url.pathname === "/api/check-opml" && request.method === "POST") {
+      const response = await handleOpmlCheck(request);
+      return addSecurityHeaders(response, request);
+    }
     return addSecurityHeaders(
       new Response("Not Found", { status: 404 }),
       request,
@@ -0,0 +1,225 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { BODY_READ_TIMEOUT_MS } from "../config";
+import { readHtmlPage, readLimitedText } from "./body";
+
+function streamResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+  return new Response(stream);
+}
+
+/**
+ * A body that sends its first chunk and then never another byte
+ */
+function stalledResponse(firstChunk: string): Response {
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(firstChunk));
+    },
+  });
+  return new Response(stream);
+}
+
+describe("net/body", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("readLimitedText", () => {
+    it("should read the full body when it fits within the limit", async () => {
+      const result = await readLimitedText(
+        streamResponse(["<rss>", "</rss>"]),
+        1024,
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toEqual({ text: "<rss></rss>", truncated: false });
+      }
+    });
+
+    it("should stop reading once the byte limit is exceeded", async () => {
+      const result = await readLimitedText(
+        streamResponse(["abcdef", "ghijkl", "mnopqr"]),
+        8,
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toEqual({ text: "abcdefgh", truncated: true });
+      }
+    });
+
+    it("should not report truncation when the body is exactly the limit", async () => {
+      const result = await readLimitedText(streamResponse(["abcd", "efgh"]), 8);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toEqual({ text: "abcdefgh", truncated: false });
+      }
+    });
+
+    it("should return empty text for responses without a body", async () => {
+      const result = await readLimitedText(
+        new Response(null, { status: 204 }),
+        1024,
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toEqual({ text: "", truncated: false });
+      }
+    });
+
+    it("should time out when the body stalls after the first bytes", async () => {
+      vi.useFakeTimers();
+      const pending = readLimitedText(stalledResponse("<rss>"), 1024);
+
+      await vi.advanceTimersByTimeAsync(BODY_READ_TIMEOUT_MS);
+      const result = await pending;
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.type).toBe("TIMEOUT_ERROR");
+      }
+    });
+
+    it("should return PARSING_ERROR when the body has already been consumed", async () => {
+      const response = new Response("already read");
+      await response.text();
+
+      const result = await readLimitedText(response, 1024);
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.type).toBe("PARSING_ERROR");
+      }
+    });
+  });
+
+  describe("readHtmlPage", () => {
+    it("should stop reading once the head has ended", async () => {
+      let pulls = 0;
+      const encoder = new TextEncoder();
+      const chunks = [
+        "<html><head><link rel=alternate>",
+        "</HEAD><body>",
+        "never read",
+      ];
+      const stream = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          const chunk = chunks[pulls++];
+          if (chunk === undefined) {
+            controller.close();
+          } else {
+            controller.enqueue(encoder.encode(chunk));
+          }
+        },
+      });
+
+      const result = await readHtmlPage(new Response(stream), 1024);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toBe(
+          "<html><head><link rel=alternate></HEAD><body>",
+        );
+      }
+      expect(pulls).toBeLessThan(chunks.length);
+    });
+
+    it("should detect a head end marker split across chunks", async () => {
+      const result = await readHtmlPage(
+        streamResponse(["<head></he", "ad>", "x".repeat(100)]),
+        20,
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toBe("<head></head>");
+      }
+    });
+
+    it("should read pages without a head in full when within the limit", async () => {
+      const result = await readHtmlPage(
+        streamResponse(["<p>no head</p>"]),
+        1024,
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toBe("<p>no head</p>");
+      }
+    });
+
+    it("should time out when the page trickles in without ending its head", async () => {
+      vi.useFakeTimers();
+      const pending = readHtmlPage(stalledResponse("<html><head>"), 1024);
+
+      await vi.advanceTimersByTimeAsync(BODY_READ_TIMEOUT_MS);
+      const result = await pending;
+
+      expect(result.isErr() && result.error.type).toBe("TIMEOUT_ERROR");
+    });
+
+    it("should fail with RESPONSE_TOO_LARGE when the limit is hit first", async () => {
+      const result = await readHtmlPage(
+        streamResponse(["<head>", "x".repeat(64), "</head>"]),
+        32,
+      );
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.type).toBe("RESPONSE_TOO_LARGE");
+      }
+    });
+
+    it("should keep reading the body when the head is not accepted", async () => {
+      const result = await readHtmlPage(
+        streamResponse(["<head></head>", "<body>", "<a>RSS</a></body>"]),
+        1024,
+        () => false,
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toBe("<head></head><body><a>RSS</a></body>");
+      }
+    });
+
+    it("should pass the text read so far to the head check", async () => {
+      const heads: string[] = [];
+
+      await readHtmlPage(
+        streamResponse(["<head><title>x</title>", "</head>", "<body></body>"]),
+        1024,
+        (head) => {
+          heads.push(head);
+          return true;
+        },
+      );
+
+      expect(heads).toEqual(["<head><title>x</title></head>"]);
+    });
+
+    it("should return a truncated body once the head has been read", async () => {
+      const result = await readHtmlPage(
+        streamResponse(["<head></head>", "x".repeat(64)]),
+        32,
+        () => false,
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toBe(`<head></head>${"x".repeat(19)}`);
+      }
+    });
+  });
+});
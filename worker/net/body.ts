@@ -0,0 +1,151 @@
+import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import { BODY_READ_TIMEOUT_MS } from "../config";
+import type { FeedDiscoveryError } from "../types";
+
+/**
+ * Text read from a response body, possibly cut short at the byte limit
+ */
+export interface LimitedText {
+  text: string;
+  truncated: boolean;
+}
+
+/**
+ * End of the document head; feed <link> tags never appear after it
+ */
+const HEAD_END_MARKER = "</head";
+
+/**
+ * Rejection of a body read that missed its deadline
+ */
+const BODY_READ_TIMEOUT: FeedDiscoveryError = {
+  type: "TIMEOUT_ERROR",
+  message: `Response body not received within ${BODY_READ_TIMEOUT_MS} ms`,
+};
+
+/**
+ * Report a missed deadline as a timeout and anything else as unreadable
+ */
+function toReadError(error: unknown): FeedDiscoveryError {
+  return error === BODY_READ_TIMEOUT
+    ? BODY_READ_TIMEOUT
+    : { type: "PARSING_ERROR", message: "Failed to read response body" };
+}
+
+/**
+ * Read at most `maxBytes` from a response body and decode it as UTF-8.
+ * The underlying stream is cancelled once the limit is reached so the
+ * remainder of a large body is never downloaded, and once the read
+ * deadline passes.
+ */
+export function readLimitedText(
+  response: Response,
+  maxBytes: number,
+): ResultAsync<LimitedText, FeedDiscoveryError> {
+  return ResultAsync.fromPromise(readStream(response, maxBytes), toReadError);
+}
+
+/**
+ * Read an HTML page, stopping at the end of its <head> when
+ * `stopAfterHead` approves the head read so far; otherwise the body is read
+ * too, up to `maxBytes`. Fails with RESPONSE_TOO_LARGE when the limit is hit
+ * before the head ends, so huge or endless pages cannot exhaust the Worker,
+ * and with TIMEOUT_ERROR when the page is not read by the deadline.
+ */
+export function readHtmlPage(
+  response: Response,
+  maxBytes: number,
+  stopAfterHead: (head: string) => boolean = () => true,
+): ResultAsync<string, FeedDiscoveryError> {
+  return ResultAsync.fromPromise(
+    readStream(response, maxBytes, HEAD_END_MARKER, stopAfterHead),
+    toReadError,
+  ).andThen(({ text, truncated }) =>
+    truncated && !containsMarker(text, HEAD_END_MARKER, 0)
+      ? errAsync({
+          type: "RESPONSE_TOO_LARGE" as const,
+          message: `Response exceeded ${maxBytes} bytes`,
+        })
+      : okAsync(text),
+  );
+}
+
+/**
+ * Read a body (see readChunks), cancelling the stream and failing with
+ * BODY_READ_TIMEOUT when it has not been read within BODY_READ_TIMEOUT_MS
+ */
+async function readStream(
+  response: Response,
+  maxBytes: number,
+  stopMarker?: string,
+  shouldStop: (text: string) => boolean = () => true,
+): Promise<LimitedText> {
+  if (!response.body) {
+    return { text: "", truncated: false };
+  }
+
+  const reader = response.body.getReader();
+  let timedOut = false;
+  // Cancelling ends any pending read, so the loop sees the stream finish
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    reader.cancel().catch(() => undefined);
+  }, BODY_READ_TIMEOUT_MS);
+
+  return readChunks(reader, maxBytes, stopMarker, shouldStop)
+    .then((read) => (timedOut ? Promise.reject(BODY_READ_TIMEOUT) : read))
+    .finally(() => clearTimeout(timeoutId));
+}
+
+async function readChunks(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  maxBytes: number,
+  stopMarker: string | undefined,
+  shouldStop: (text: string) => boolean,
+): Promise<LimitedText> {
+  const decoder = new TextDecoder();
+  let text = "";
+  let receivedBytes = 0;
+  let markerSeen = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      text += decoder.decode();
+      return { text, truncated: false };
+    }
+
+    const remaining = maxBytes - receivedBytes;
+    if (value.byteLength > remaining) {
+      text += decoder.decode(value.subarray(0, remaining));
+      await reader.cancel();
+      return { text, truncated: true };
+    }
+
+    receivedBytes += value.byteLength;
+    const searchFrom = stopMarker
+      ? Math.max(0, text.length - stopMarker.length)
+      : 0;
+    text += decoder.decode(value, { stream: true });
+
+    if (!markerSeen && containsMarker(text, stopMarker, searchFrom)) {
+      markerSeen = true;
+      if (shouldStop(text)) {
+        await reader.cancel();
+        return { text, truncated: false };
+      }
+    }
+  }
+}
+
+/**
+ * Case-insensitive marker search that only rescans the newly read tail
+ */
+function containsMarker(
+  text: string,
+  marker: string | undefined,
+  searchFrom: number,
+): boolean {
+  if (!marker) return false;
+  return text.slice(searchFrom).toLowerCase().includes(marker);
+}
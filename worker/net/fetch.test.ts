@@ -1,5 +1,14 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { safeFetch } from "./fetch";
+import { fetchWithRedirects, safeFetch } from "./fetch";
+
+// Run requests straight away; throttling is covered in hostThrottle.test.ts
+vi.mock("./hostThrottle", () => ({
+  hostThrottle: {
+    schedule: vi.fn((_url: string, task: () => Promise<Response>) => task()),
+  },
+}));
+
+import { hostThrottle } from "./hostThrottle";
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -100,6 +109,46 @@ describe("net/fetch", () => {
       }
     });
 
+    it("should start the timeout once the host throttle admits the request", async () => {
+      // The host is busy for longer than the fetch timeout
+      vi.mocked(hostThrottle.schedule).mockImplementationOnce(
+        async (_url, task) => {
+          await new Promise((resolve) => setTimeout(resolve, 8000));
+          return task();
+        },
+      );
+      mockFetch.mockImplementationOnce((_url, options?: RequestInit) =>
+        options?.signal?.aborted
+          ? Promise.reject(new DOMException("Aborted", "AbortError"))
+          : Promise.resolve(new Response("ok", { status: 200 })),
+      );
+
+      const pending = safeFetch("https://example.com");
+      await vi.advanceTimersByTimeAsync(8000);
+      const result = await pending;
+
+      expect(result.isOk()).toBe(true);
+    });
+
+    it("should stop waiting for the host throttle after the wait limit", async () => {
+      vi.mocked(hostThrottle.schedule).mockImplementationOnce(
+        (_url, _task, signal) =>
+          new Promise((_resolve, reject) =>
+            signal?.addEventListener("abort", () => reject(signal.reason)),
+          ),
+      );
+
+      const pending = safeFetch("https://example.com");
+      await vi.advanceTimersByTimeAsync(10000);
+      const result = await pending;
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.type).toBe("TIMEOUT_ERROR");
+      }
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
     it("should handle network errors", async () => {
       const networkError = new Error("Network connection failed");
       mockFetch.mockRejectedValueOnce(networkError);
@@ -244,6 +293,136 @@ describe("net/fetch", () => {
       expect(clearTimeoutSpy).toHaveBeenCalled();
     });
 
+    it("should follow redirects manually and validate each hop", async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          new Response(null, {
+            status: 301,
+            headers: { location: "https://www.example.com/" },
+          }),
+        )
+        .mockResolvedValueOnce(
+          new Response(null, {
+            status: 302,
+            headers: { location: "/blog/" },
+          }),
+        )
+        .mockResolvedValueOnce(new Response("final", { status: 200 }));
+
+      const result = await fetchWithRedirects("https://example.com/");
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.url).toBe("https://www.example.com/blog/");
+        expect(await result.value.response.text()).toBe("final");
+      }
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        "https://example.com/",
+        expect.objectContaining({ redirect: "manual" }),
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        3,
+        "https://www.example.com/blog/",
+        expect.objectContaining({ redirect: "manual" }),
+      );
+    });
+
+    it("should schedule every hop through the host throttle", async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          new Response(null, {
+            status: 301,
+            headers: { location: "https://www.example.com/" },
+          }),
+        )
+        .mockResolvedValueOnce(new Response("final", { status: 200 }));
+
+      await fetchWithRedirects("https://example.com/");
+
+      expect(
+        vi.mocked(hostThrottle.schedule).mock.calls.map(([url]) => url),
+      ).toEqual(["https://example.com/", "https://www.example.com/"]);
+    });
+
+    it("should report the requested URL when there is no redirect", async () => {
+      mockFetch.mockResolvedValueOnce(new Response("ok", { status: 200 }));
+
+      const result = await fetchWithRedirects("https://example.com/feed");
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.url).toBe("https://example.com/feed");
+      }
+    });
+
+    it("should block redirects into private address ranges", async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response(null, {
+          status: 302,
+          headers: { location: "http://169.254.169.254/latest/meta-data/" },
+        }),
+      );
+
+      const result = await safeFetch("https://example.com");
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.type).toBe("REDIRECT_NOT_PERMITTED");
+      }
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should block requests to private addresses before fetching", async () => {
+      for (const url of [
+        "http://169.254.169.254/latest/meta-data/",
+        "http://10.0.0.5/rss",
+        "http://localhost/feed",
+        "file:///etc/passwd",
+      ]) {
+        const result = await fetchWithRedirects(url);
+
+        expect(result.isErr()).toBe(true);
+        if (result.isErr()) {
+          expect(result.error.type).toBe("URL_NOT_PERMITTED");
+        }
+      }
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(hostThrottle.schedule).not.toHaveBeenCalled();
+    });
+
+    it("should stop after too many redirects", async () => {
+      mockFetch.mockImplementation(() =>
+        Promise.resolve(
+          new Response(null, {
+            status: 302,
+            headers: { location: "https://example.com/loop" },
+          }),
+        ),
+      );
+
+      const result = await safeFetch("https://example.com");
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.type).toBe("TOO_MANY_REDIRECTS");
+      }
+      // The initial request plus MAX_REDIRECTS (5) followed hops
+      expect(mockFetch).toHaveBeenCalledTimes(6);
+    });
+
+    it("should treat redirects without a Location as HTTP errors", async () => {
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 302 }));
+
+      const result = await safeFetch("https://example.com");
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.type).toBe("FETCH_FAILED");
+      }
+    });
+
     it("should cleanup timeout on network error", async () => {
       mockFetch.mockRejectedValueOnce(new Error("Network error"));
 
@@ -1,54 +1,186 @@
-import { err, ok, ResultAsync } from "neverthrow";
-import { FETCH_TIMEOUT_MS, USER_AGENT } from "../config";
+import { err, errAsync, ok, okAsync, Result, ResultAsync } from "neverthrow";
+import {
+  FETCH_TIMEOUT_MS,
+  MAX_REDIRECTS,
+  MAX_THROTTLE_WAIT_MS,
+  USER_AGENT,
+} from "../config";
 import type { FeedDiscoveryError } from "../types";
+import { validateTargetUrl } from "../validation/url";
+import { hostThrottle } from "./hostThrottle";
 
 /**
- * Safe fetch wrapper with timeout and error handling
+ * HTTP statuses that carry a Location to follow
  */
-export function safeFetch(
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+/**
+ * A successful response together with the URL it was finally served from
+ */
+export interface FetchedResponse {
+  response: Response;
+  /** The post-redirect URL (equal to the requested URL without redirects) */
+  url: string;
+}
+
+/**
+ * Validate the first URL of a request against the same SSRF rules as the
+ * redirects it leads to: candidate URLs come from the fetched pages, so a
+ * site could otherwise point us at localhost or the metadata service
+ */
+function validateRequestUrl(url: string): Result<string, FeedDiscoveryError> {
+  return validateTargetUrl(url)
+    .mapErr(
+      (validationError): FeedDiscoveryError => ({
+        type: "URL_NOT_PERMITTED",
+        message: `Request to ${url} blocked: ${validationError.message}`,
+      }),
+    )
+    .map((validatedUrl) => validatedUrl.href);
+}
+
+/**
+ * Resolve and validate a redirect target so that a public host cannot
+ * bounce us into localhost, private ranges or the metadata service
+ */
+function resolveRedirectTarget(
+  location: string,
+  currentUrl: string,
+): Result<string, FeedDiscoveryError> {
+  return Result.fromThrowable(
+    () => new URL(location, currentUrl).href,
+    (): FeedDiscoveryError => ({
+      type: "REDIRECT_NOT_PERMITTED",
+      message: `Invalid redirect location from ${currentUrl}`,
+    }),
+  )()
+    .andThen((target) =>
+      validateTargetUrl(target).mapErr(
+        (validationError): FeedDiscoveryError => ({
+          type: "REDIRECT_NOT_PERMITTED",
+          message: `Redirect from ${currentUrl} blocked: ${validationError.message}`,
+        }),
+      ),
+    )
+    .map((validatedUrl) => validatedUrl.href);
+}
+
+/**
+ * Fetch with timeout, following redirects manually (up to MAX_REDIRECTS)
+ * and validating the URL and every hop against the SSRF rules.
+ * Every hop waits its turn in the per-host throttle, for at most
+ * MAX_THROTTLE_WAIT_MS; the timeout starts once the first hop gets its
+ * slot, so a busy host's queue does not eat into it. The timeout ends once
+ * the headers arrive: reading the body has its own deadline (see
+ * readLimitedText).
+ */
+export function fetchWithRedirects(
   url: string,
   options: RequestInit = {},
-): ResultAsync<Response, FeedDiscoveryError> {
+): ResultAsync<FetchedResponse, FeedDiscoveryError> {
+  const validation = validateRequestUrl(url);
+  if (validation.isErr()) {
+    return errAsync(validation.error);
+  }
+
   const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
-
-  return ResultAsync.fromPromise(
-    fetch(url, {
-      ...options,
-      signal: controller.signal,
-      headers: {
-        "User-Agent": USER_AGENT,
-        ...options.headers,
-      },
-    }),
-    (error): FeedDiscoveryError => {
-      clearTimeout(timeoutId);
-      if (error instanceof Error) {
-        if (error.name === "AbortError") {
+  let timeoutId = setTimeout(() => controller.abort(), MAX_THROTTLE_WAIT_MS);
+  let timeoutStarted = false;
+  const startTimeout = () => {
+    if (timeoutStarted) return;
+    timeoutStarted = true;
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  };
+
+  const fetchHop = (
+    hopUrl: string,
+    redirectCount: number,
+  ): ResultAsync<FetchedResponse, FeedDiscoveryError> =>
+    ResultAsync.fromPromise(
+      hostThrottle.schedule(
+        hopUrl,
+        () => {
+          startTimeout();
+          return fetch(hopUrl, {
+            ...options,
+            redirect: "manual",
+            signal: controller.signal,
+            headers: {
+              "User-Agent": USER_AGENT,
+              ...options.headers,
+            },
+          });
+        },
+        controller.signal,
+      ),
+      (error): FeedDiscoveryError => {
+        if (error instanceof Error) {
+          if (error.name === "AbortError") {
+            return {
+              type: "TIMEOUT_ERROR" as const,
+              message: `Request timeout for ${url}`,
+            };
+          }
           return {
-            type: "TIMEOUT_ERROR" as const,
-            message: `Request timeout for ${url}`,
+            type: "NETWORK_ERROR" as const,
+            message: `Network error: ${error.message}`,
           };
         }
         return {
           type: "NETWORK_ERROR" as const,
-          message: `Network error: ${error.message}`,
+          message: "Unknown network error",
         };
+      },
+    ).andThen((response): ResultAsync<FetchedResponse, FeedDiscoveryError> => {
+      const location = response.headers.get("location");
+      if (!REDIRECT_STATUSES.includes(response.status) || !location) {
+        return okAsync({ response, url: hopUrl });
       }
-      return {
-        type: "NETWORK_ERROR" as const,
-        message: "Unknown network error",
-      };
-    },
-  ).andThen((response) => {
-    clearTimeout(timeoutId);
-    if (!response.ok) {
-      return err({
-        type: "FETCH_FAILED" as const,
-        message: `HTTP ${response.status}`,
-        status: response.status,
-      });
-    }
-    return ok(response);
-  });
+
+      // The redirect body is never read; release it before the next hop
+      response.body?.cancel().catch(() => undefined);
+
+      if (redirectCount >= MAX_REDIRECTS) {
+        return errAsync({
+          type: "TOO_MANY_REDIRECTS" as const,
+          message: `More than ${MAX_REDIRECTS} redirects for ${url}`,
+        });
+      }
+
+      return resolveRedirectTarget(location, hopUrl).asyncAndThen((target) =>
+        fetchHop(target, redirectCount + 1),
+      );
+    });
+
+  return fetchHop(url, 0)
+    .andThen((fetched) => {
+      const { response } = fetched;
+      if (!response.ok) {
+        return err({
+          type: "FETCH_FAILED" as const,
+          message: `HTTP ${response.status}`,
+          status: response.status,
+        });
+      }
+      return ok(fetched);
+    })
+    .map((fetched) => {
+      clearTimeout(timeoutId);
+      return fetched;
+    })
+    .mapErr((error) => {
+      clearTimeout(timeoutId);
+      return error;
+    });
+}
+
+/**
+ * Safe fetch wrapper with timeout, redirect validation and error handling
+ */
+export function safeFetch(
+  url: string,
+  options: RequestInit = {},
+): ResultAsync<Response, FeedDiscoveryError> {
+  return fetchWithRedirects(url, options).map(({ response }) => response);
 }
@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import { createHostThrottle } from "./hostThrottle";
+
+/**
+ * A task that records when it started and stays in flight until released
+ */
+function heldTask(log: string[], name: string) {
+  let release: () => void = () => undefined;
+  const done = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  return {
+    run: () => {
+      log.push(name);
+      return done.then(() => name);
+    },
+    release: () => release(),
+  };
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("net/hostThrottle", () => {
+  it("should cap the requests in flight per host", async () => {
+    const throttle = createHostThrottle({ maxInFlight: 2, minSpacingMs: 0 });
+    const started: string[] = [];
+    const tasks = ["a", "b", "c"].map((name) => heldTask(started, name));
+
+    const results = tasks.map((task) =>
+      throttle.schedule("https://example.com/feed", task.run),
+    );
+    await tick();
+    expect(started).toEqual(["a", "b"]);
+
+    tasks[0].release();
+    await tick();
+    expect(started).toEqual(["a", "b", "c"]);
+
+    tasks[1].release();
+    tasks[2].release();
+    expect(await Promise.all(results)).toEqual(["a", "b", "c"]);
+  });
+
+  it("should not hold back requests to other hosts", async () => {
+    const throttle = createHostThrottle({ maxInFlight: 1, minSpacingMs: 0 });
+    const started: string[] = [];
+    const first = heldTask(started, "example.com");
+    const other = heldTask(started, "example.org");
+
+    const results = [
+      throttle.schedule("https://example.com/a", first.run),
+      throttle.schedule("https://example.org/a", other.run),
+    ];
+    await tick();
+
+    expect(started).toEqual(["example.com", "example.org"]);
+    first.release();
+    other.release();
+    await Promise.all(results);
+  });
+
+  it("should space out request starts to the same host", async () => {
+    const throttle = createHostThrottle({ maxInFlight: 4, minSpacingMs: 30 });
+    const startTimes: number[] = [];
+    const task = async () => {
+      startTimes.push(performance.now());
+    };
+
+    await Promise.all([
+      throttle.schedule("https://example.com/a", task),
+      throttle.schedule("https://example.com/b", task),
+      throttle.schedule("https://example.com/c", task),
+    ]);
+
+    // Timers may fire a millisecond early
+    expect(startTimes[1] - startTimes[0]).toBeGreaterThanOrEqual(28);
+    expect(startTimes[2] - startTimes[1]).toBeGreaterThanOrEqual(28);
+  });
+
+  it("should free the slot when a request fails", async () => {
+    const throttle = createHostThrottle({ maxInFlight: 1, minSpacingMs: 0 });
+
+    await expect(
+      throttle.schedule("https://example.com/", () =>
+        Promise.reject(new Error("network down")),
+      ),
+    ).rejects.toThrow("network down");
+
+    expect(
+      await throttle.schedule("https://example.com/", async () => "next"),
+    ).toBe("next");
+  });
+
+  it("should give up a queued request when its signal aborts", async () => {
+    const throttle = createHostThrottle({ maxInFlight: 1, minSpacingMs: 0 });
+    const started: string[] = [];
+    const first = heldTask(started, "first");
+    const queued = heldTask(started, "queued");
+    const controller = new AbortController();
+
+    const firstResult = throttle.schedule("https://example.com/a", first.run);
+    const queuedResult = throttle.schedule(
+      "https://example.com/b",
+      queued.run,
+      controller.signal,
+    );
+    await tick();
+    controller.abort(new Error("gave up"));
+
+    await expect(queuedResult).rejects.toThrow("gave up");
+    first.release();
+    expect(await firstResult).toBe("first");
+
+    // The abandoned request neither ran nor kept its place in the queue
+    expect(
+      await throttle.schedule("https://example.com/c", async () => "next"),
+    ).toBe("next");
+    expect(started).toEqual(["first"]);
+  });
+
+  it("should pass the slot on when a queued request aborts", async () => {
+    const throttle = createHostThrottle({ maxInFlight: 1, minSpacingMs: 0 });
+    const started: string[] = [];
+    const first = heldTask(started, "first");
+    const abandoned = heldTask(started, "abandoned");
+    const last = heldTask(started, "last");
+    const controller = new AbortController();
+
+    const results = [
+      throttle.schedule("https://example.com/a", first.run),
+      throttle.schedule(
+        "https://example.com/b",
+        abandoned.run,
+        controller.signal,
+      ),
+      throttle.schedule("https://example.com/c", last.run),
+    ];
+    await tick();
+    controller.abort(new Error("gave up"));
+    await expect(results[1]).rejects.toThrow("gave up");
+
+    first.release();
+    await tick();
+    expect(started).toEqual(["first", "last"]);
+
+    last.release();
+    expect(await results[2]).toBe("last");
+  });
+
+  it("should hand back the slot of a request aborted during the spacing", async () => {
+    const throttle = createHostThrottle({ maxInFlight: 1, minSpacingMs: 50 });
+    const started: string[] = [];
+    const controller = new AbortController();
+    await throttle.schedule("https://example.com/a", async () => "first");
+
+    // Admitted to the only slot, but still waiting out the spacing
+    const spaced = throttle.schedule(
+      "https://example.com/b",
+      async () => {
+        started.push("spaced");
+      },
+      controller.signal,
+    );
+    const queued = throttle.schedule("https://example.com/c", async () => {
+      started.push("queued");
+      return "queued";
+    });
+    await tick();
+    controller.abort(new Error("gave up"));
+
+    await expect(spaced).rejects.toThrow("gave up");
+    expect(await queued).toBe("queued");
+    expect(started).toEqual(["queued"]);
+  });
+});
@@ -0,0 +1,161 @@
+import { Result } from "neverthrow";
+import {
+  MAX_CONCURRENT_REQUESTS_PER_HOST,
+  MIN_REQUEST_SPACING_MS,
+} from "../config";
+
+export interface HostThrottleOptions {
+  maxInFlight?: number;
+  minSpacingMs?: number;
+}
+
+export interface HostThrottle {
+  /**
+   * Run `task` once the URL's host has a free slot and enough time has
+   * passed since the previous request to it started.
+   * Aborting `signal` before the task starts (while the request waits for
+   * a slot or for the spacing) rejects with the signal's reason and gives
+   * up its place in the queue.
+   */
+  schedule<T>(
+    url: string,
+    task: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T>;
+}
+
+interface HostState {
+  inFlight: number;
+  /** Earliest time the next request to the host may start */
+  nextStartAt: number;
+  /** Requests waiting for a free slot, in arrival order */
+  waiting: Array<() => void>;
+}
+
+/**
+ * Resolve after `ms`, or reject with the signal's reason once it aborts
+ */
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Limit in-flight requests per host and space out their starts
+ */
+export function createHostThrottle({
+  maxInFlight = MAX_CONCURRENT_REQUESTS_PER_HOST,
+  minSpacingMs = MIN_REQUEST_SPACING_MS,
+}: HostThrottleOptions = {}): HostThrottle {
+  const hosts = new Map<string, HostState>();
+
+  // Idle hosts are forgotten once their spacing has elapsed
+  const forgetIfIdle = (host: string, state: HostState) => {
+    if (state.inFlight > 0 || state.waiting.length > 0) return;
+    const remaining = state.nextStartAt - Date.now();
+    if (remaining > 0) {
+      setTimeout(() => forgetIfIdle(host, state), remaining);
+    } else if (hosts.get(host) === state) {
+      hosts.delete(host);
+    }
+  };
+
+  // Resolves once woken by release, or rejects when the signal aborts
+  const waitForSlot = (state: HostState, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => {
+        state.waiting.splice(state.waiting.indexOf(wake), 1);
+        reject(signal?.reason);
+      };
+      const wake = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      state.waiting.push(wake);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+
+  const release = (host: string, state: HostState) => {
+    state.inFlight--;
+    const next = state.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      forgetIfIdle(host, state);
+    }
+  };
+
+  // An aborted request leaves nothing behind: a waiter drops the host if
+  // it was the last one queued, and a request aborted while it waits out
+  // the spacing hands its slot back
+  const acquire = async (
+    host: string,
+    signal?: AbortSignal,
+  ): Promise<HostState> => {
+    let state = hosts.get(host);
+    if (!state) {
+      state = { inFlight: 0, nextStartAt: 0, waiting: [] };
+      hosts.set(host, state);
+    }
+    try {
+      while (state.inFlight >= maxInFlight) {
+        await waitForSlot(state, signal);
+      }
+    } catch (error) {
+      forgetIfIdle(host, state);
+      throw error;
+    }
+    state.inFlight++;
+
+    const now = Date.now();
+    const startAt = Math.max(now, state.nextStartAt);
+    state.nextStartAt = startAt + minSpacingMs;
+    if (startAt > now) {
+      try {
+        await sleep(startAt - now, signal);
+      } catch (error) {
+        release(host, state);
+        throw error;
+      }
+    }
+    return state;
+  };
+
+  const schedule = async <T>(
+    url: string,
+    task: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> => {
+    const host = Result.fromThrowable(
+      () => new URL(url).host,
+      () => null,
+    )();
+    if (host.isErr()) return task();
+
+    const state = await acquire(host.value, signal);
+    return task().finally(() => release(host.value, state));
+  };
+
+  return { schedule };
+}
+
+/**
+ * Throttle shared by every outbound fetch in the isolate
+ */
+export const hostThrottle = createHostThrottle();
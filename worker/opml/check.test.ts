@@ -0,0 +1,227 @@
+import { errAsync, okAsync } from "neverthrow";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpmlSubscription } from "../types";
+
+vi.mock("../net/fetch", () => ({
+  fetchWithRedirects: vi.fn(),
+}));
+
+import { fetchWithRedirects } from "../net/fetch";
+import { checkSubscription, checkSubscriptions } from "./check";
+
+const mockFetchWithRedirects = vi.mocked(fetchWithRedirects);
+
+const subscription: OpmlSubscription = {
+  title: "Example",
+  xmlUrl: "https://example.com/feed.xml",
+  htmlUrl: "https://example.com/",
+};
+
+function serve(
+  url: string,
+  body = "<rss><channel></channel></rss>",
+  headers?: HeadersInit,
+) {
+  return okAsync({ response: new Response(body, { headers }), url });
+}
+
+/**
+ * The subscription's site page, advertising `feedUrls` in <link> tags
+ */
+function sitePage(feedUrls: string[]) {
+  const links = feedUrls
+    .map(
+      (url) =>
+        `<link rel="alternate" type="application/rss+xml" href="${url}">`,
+    )
+    .join("");
+  return `<html><head>${links}</head><body></body></html>`;
+}
+
+function notFound() {
+  return errAsync({
+    type: "FETCH_FAILED" as const,
+    message: "HTTP 404",
+    status: 404,
+  });
+}
+
+describe("opml/check", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("checkSubscription", () => {
+    it("should report feeds that are still served as alive", async () => {
+      mockFetchWithRedirects.mockReturnValue(serve(subscription.xmlUrl));
+
+      const result = await checkSubscription(subscription);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toEqual({
+          ...subscription,
+          status: "alive",
+          suggestions: [],
+        });
+      }
+      expect(mockFetchWithRedirects).toHaveBeenCalledTimes(1);
+    });
+
+    it("should report the new location of redirected feeds", async () => {
+      mockFetchWithRedirects.mockReturnValue(
+        serve("https://feeds.example.com/main"),
+      );
+
+      const result = await checkSubscription(subscription);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.status).toBe("redirected");
+        expect(result.value.finalUrl).toBe("https://feeds.example.com/main");
+      }
+    });
+
+    it("should suggest working feeds advertised by the site for moved feeds", async () => {
+      mockFetchWithRedirects.mockImplementation((url) => {
+        if (url === "https://example.com/") {
+          return serve(
+            url,
+            sitePage([
+              "https://example.com/rss/",
+              subscription.xmlUrl,
+              "https://example.com/broken",
+            ]),
+            {
+              Link: '<https://example.com/atom/>; rel="alternate"; type="application/atom+xml"',
+            },
+          );
+        }
+        if (url === "https://example.com/rss/") return serve(url);
+        if (url === "https://example.com/atom/") {
+          return serve(
+            url,
+            '<feed xmlns="http://www.w3.org/2005/Atom"></feed>',
+          );
+        }
+        return notFound();
+      });
+
+      const result = await checkSubscription(subscription);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toMatchObject({
+          ...subscription,
+          status: "moved",
+          reason: "HTTP 404",
+        });
+        expect(
+          result.value.suggestions.map(({ url, verification }) => ({
+            url,
+            verification,
+          })),
+        ).toEqual([
+          { url: "https://example.com/rss/", verification: "verified" },
+          { url: "https://example.com/atom/", verification: "verified" },
+        ]);
+      }
+    });
+
+    it("should verify only a few of the feeds a site advertises", async () => {
+      const advertised = ["a", "b", "c", "d", "e"].map(
+        (name) => `https://example.com/${name}.xml`,
+      );
+      mockFetchWithRedirects.mockImplementation((url) => {
+        if (url === "https://example.com/") {
+          return serve(url, sitePage(advertised));
+        }
+        return advertised.includes(url) ? serve(url) : notFound();
+      });
+
+      const result = await checkSubscription(subscription);
+
+      const requested = mockFetchWithRedirects.mock.calls.map(([url]) => url);
+      expect(requested).toEqual([
+        subscription.xmlUrl,
+        "https://example.com/",
+        ...advertised.slice(0, 3),
+      ]);
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.suggestions).toHaveLength(3);
+      }
+    });
+
+    it("should treat HTML served at the feed URL as not a feed", async () => {
+      mockFetchWithRedirects.mockReturnValue(
+        serve(subscription.xmlUrl, "<!DOCTYPE html><html></html>"),
+      );
+
+      const result = await checkSubscription(subscription);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.status).toBe("dead");
+        expect(result.value.reason).toBe("Not a feed");
+      }
+    });
+
+    it("should report dead feeds when the site cannot be read", async () => {
+      mockFetchWithRedirects.mockReturnValue(
+        errAsync({ type: "TIMEOUT_ERROR", message: "Request timeout" }),
+      );
+
+      const result = await checkSubscription(subscription);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toMatchObject({
+          status: "dead",
+          reason: "Request timed out",
+          suggestions: [],
+        });
+      }
+    });
+
+    it("should not fetch feed or site URLs that are not permitted", async () => {
+      const result = await checkSubscription({
+        xmlUrl: "http://localhost/feed",
+        htmlUrl: "http://127.0.0.1/",
+      });
+
+      expect(mockFetchWithRedirects).not.toHaveBeenCalled();
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.status).toBe("dead");
+        expect(result.value.reason).toBe("URL not permitted");
+      }
+    });
+  });
+
+  describe("checkSubscriptions", () => {
+    it("should report every subscription in order with counts per status", async () => {
+      mockFetchWithRedirects.mockImplementation((url) =>
+        url.includes("dead") ? notFound() : serve(url),
+      );
+
+      const result = await checkSubscriptions([
+        subscription,
+        { xmlUrl: "https://dead.example.com/feed" },
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.total).toBe(2);
+      expect(result.counts).toEqual({
+        alive: 1,
+        redirected: 0,
+        moved: 0,
+        dead: 1,
+      });
+      expect(result.subscriptions.map((check) => check.xmlUrl)).toEqual([
+        subscription.xmlUrl,
+        "https://dead.example.com/feed",
+      ]);
+    });
+  });
+});
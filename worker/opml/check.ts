@@ -0,0 +1,171 @@
+import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import { mapWithConcurrency } from "../concurrency";
+import {
+  FEED_ACCEPT_HEADER,
+  MAX_FEED_BODY_BYTES,
+  MAX_HTML_BODY_BYTES,
+  MAX_OPML_REPLACEMENT_CANDIDATES,
+  OPML_CHECK_CONCURRENCY,
+} from "../config";
+import { findMetaFeeds } from "../discovery/html";
+import { findLinkHeaderFeeds } from "../discovery/linkHeader";
+import { detectFeedFormat, verifyFeeds } from "../discovery/verify";
+import { readHtmlPage, readLimitedText } from "../net/body";
+import { fetchWithRedirects } from "../net/fetch";
+import type {
+  AppError,
+  FeedResult,
+  OpmlCheckResult,
+  OpmlSubscription,
+  SubscriptionCheck,
+  SubscriptionStatus,
+} from "../types";
+import { validateTargetUrl } from "../validation/url";
+
+/**
+ * Short, user-facing reason a feed URL failed, without server details
+ */
+function describeFailure(error: AppError): string {
+  switch (error.type) {
+    case "FETCH_FAILED":
+      return error.status ? `HTTP ${error.status}` : "Request failed";
+    case "TIMEOUT_ERROR":
+      return "Request timed out";
+    case "TOO_MANY_REDIRECTS":
+      return "Too many redirects";
+    case "INVALID_URL_FORMAT":
+    case "URL_NOT_PERMITTED":
+    case "REDIRECT_NOT_PERMITTED":
+      return "URL not permitted";
+    default:
+      return "Unreachable";
+  }
+}
+
+/**
+ * Where a subscribed feed is served from
+ */
+interface ServedFeed {
+  url: string;
+  redirected: boolean;
+}
+
+/**
+ * Fetch a subscribed feed URL, failing with a reason when it no longer
+ * serves a feed
+ */
+function fetchSubscribedFeed(xmlUrl: string): ResultAsync<ServedFeed, string> {
+  return validateTargetUrl(xmlUrl)
+    .asyncAndThen((validatedUrl) =>
+      fetchWithRedirects(validatedUrl.href, {
+        headers: { Accept: FEED_ACCEPT_HEADER },
+      }).andThen(({ response, url }) =>
+        readLimitedText(response, MAX_FEED_BODY_BYTES).map(({ text }) => ({
+          text,
+          served: { url, redirected: url !== validatedUrl.href },
+        })),
+      ),
+    )
+    .mapErr(describeFailure)
+    .andThen(({ text, served }) =>
+      detectFeedFormat(text) ? okAsync(served) : errAsync("Not a feed"),
+    );
+}
+
+/**
+ * Find working feeds advertised by the subscription's site, other than the
+ * subscribed URL itself.
+ * Only the page's <link> tags and Link header are read: probing paths and
+ * sitemaps for every broken subscription would take more requests than
+ * one Worker invocation may make.
+ */
+function findReplacementFeeds(
+  subscription: OpmlSubscription,
+): ResultAsync<FeedResult[], never> {
+  const { htmlUrl, xmlUrl } = subscription;
+  if (!htmlUrl) return okAsync([]);
+
+  return validateTargetUrl(htmlUrl)
+    .asyncAndThen((validatedUrl) => fetchWithRedirects(validatedUrl.href))
+    .andThen(({ response, url }) => {
+      const linkHeaderFeeds = findLinkHeaderFeeds(response.headers, url);
+      return readHtmlPage(response, MAX_HTML_BODY_BYTES).map((head) => [
+        ...findMetaFeeds(head, url),
+        ...linkHeaderFeeds,
+      ]);
+    })
+    .andThen((candidates) => {
+      const candidateUrls = new Set<string>();
+      return verifyFeeds(
+        candidates
+          .filter((feed) => {
+            if (feed.url === xmlUrl || candidateUrls.has(feed.url)) {
+              return false;
+            }
+            candidateUrls.add(feed.url);
+            return true;
+          })
+          .slice(0, MAX_OPML_REPLACEMENT_CANDIDATES),
+      );
+    })
+    .map((feeds) => feeds.filter((feed) => feed.verification !== "invalid"))
+    .orElse(() => okAsync([]));
+}
+
+/**
+ * Check whether a subscription still serves a feed; when it does not, look
+ * for replacements on its site. Never fails: problems become its status.
+ */
+export function checkSubscription(
+  subscription: OpmlSubscription,
+): ResultAsync<SubscriptionCheck, never> {
+  return fetchSubscribedFeed(subscription.xmlUrl)
+    .map(
+      ({ url, redirected }): SubscriptionCheck =>
+        redirected
+          ? {
+              ...subscription,
+              status: "redirected",
+              finalUrl: url,
+              suggestions: [],
+            }
+          : { ...subscription, status: "alive", suggestions: [] },
+    )
+    .orElse((reason) =>
+      findReplacementFeeds(subscription).map(
+        (suggestions): SubscriptionCheck => ({
+          ...subscription,
+          status: suggestions.length > 0 ? "moved" : "dead",
+          reason,
+          suggestions,
+        }),
+      ),
+    );
+}
+
+/**
+ * Check every subscription of an OPML document, a few at a time
+ */
+export async function checkSubscriptions(
+  subscriptions: OpmlSubscription[],
+): Promise<OpmlCheckResult> {
+  const checks = await mapWithConcurrency(
+    subscriptions,
+    OPML_CHECK_CONCURRENCY,
+    (subscription) =>
+      checkSubscription(subscription).match(
+        (check) => check,
+        (never) => never,
+      ),
+  );
+
+  const counts: Record<SubscriptionStatus, number> = {
+    alive: 0,
+    redirected: 0,
+    moved: 0,
+    dead: 0,
+  };
+  for (const check of checks) counts[check.status]++;
+
+  return { success: true, total: checks.length, counts, subscriptions: checks };
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { parseOpmlSubscriptions } from "./parse";
+
+function opml(body: string): string {
+  return `<?xml version="1.0"?><opml version="2.0"><head><title>Subs</title></head><body>${body}</body></opml>`;
+}
+
+describe("opml/parse", () => {
+  describe("parseOpmlSubscriptions", () => {
+    it("should extract subscriptions from nested folders in document order", () => {
+      const result = parseOpmlSubscriptions(
+        opml(`
+          <outline text="Tech">
+            <outline type="rss" text="Blog A" xmlUrl="https://a.example/feed" htmlUrl="https://a.example/"/>
+          </outline>
+          <outline type="rss" title="Blog B" text="B" xmlUrl="https://b.example/rss?x=1&amp;y=2"/>
+        `),
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toEqual([
+          {
+            title: "Blog A",
+            xmlUrl: "https://a.example/feed",
+            htmlUrl: "https://a.example/",
+          },
+          {
+            title: "Blog B",
+            xmlUrl: "https://b.example/rss?x=1&y=2",
+            htmlUrl: undefined,
+          },
+        ]);
+      }
+    });
+
+    it("should accept lowercase attribute names and drop duplicate feeds", () => {
+      const result = parseOpmlSubscriptions(
+        opml(`
+          <outline text="A" xmlurl="https://a.example/feed"/>
+          <outline text="A again" xmlUrl="https://a.example/feed"/>
+        `),
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toEqual([
+          { title: "A", xmlUrl: "https://a.example/feed", htmlUrl: undefined },
+        ]);
+      }
+    });
+
+    it("should read subscriptions from deeply nested folders", () => {
+      const depth = 50_000;
+      const result = parseOpmlSubscriptions(
+        opml(
+          `${'<outline text="Folder">'.repeat(depth)}<outline text="Deep" xmlUrl="https://deep.example/feed"/>${"</outline>".repeat(depth)}`,
+        ),
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toEqual([
+          {
+            title: "Deep",
+            xmlUrl: "https://deep.example/feed",
+            htmlUrl: undefined,
+          },
+        ]);
+      }
+    });
+
+    it("should reject documents that are not OPML", () => {
+      const result = parseOpmlSubscriptions("<rss><channel></channel></rss>");
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.type).toBe("INVALID_OPML");
+      }
+    });
+
+    it("should reject OPML without subscriptions", () => {
+      const result = parseOpmlSubscriptions(opml('<outline text="Empty"/>'));
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.type).toBe("INVALID_OPML");
+      }
+    });
+
+    it("should reject lists over the subscription limit", () => {
+      const outlines = Array.from(
+        { length: 501 },
+        (_, index) => `<outline xmlUrl="https://example.com/${index}"/>`,
+      ).join("");
+
+      const result = parseOpmlSubscriptions(opml(outlines));
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.type).toBe("TOO_MANY_SUBSCRIPTIONS");
+      }
+    });
+  });
+});
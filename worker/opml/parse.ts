@@ -0,0 +1,81 @@
+import { err, ok, type Result } from "neverthrow";
+import { MAX_OPML_SUBSCRIPTIONS } from "../config";
+import { findChild, localName, parseXml, type XmlElement } from "../feed/xml";
+import type { OpmlSubscription, ValidationError } from "../types";
+
+/**
+ * Look up an attribute case-insensitively; exporters disagree on
+ * "xmlUrl" versus "xmlurl"
+ */
+function getAttribute(element: XmlElement, name: string): string | undefined {
+  const key = Object.keys(element.attributes).find(
+    (candidate) => candidate.toLowerCase() === name.toLowerCase(),
+  );
+  const value = key ? element.attributes[key].trim() : "";
+  return value ? value : undefined;
+}
+
+/**
+ * Collect subscriptions from nested outlines; folders are outlines too.
+ * Walks depth-first with an explicit stack so deeply nested documents
+ * cannot exhaust the call stack
+ */
+function collectSubscriptions(
+  element: XmlElement,
+  subscriptions: Map<string, OpmlSubscription>,
+): void {
+  const outlines = (parent: XmlElement) =>
+    parent.children
+      .filter((child) => localName(child.name) === "outline")
+      .reverse();
+  const pending = outlines(element);
+
+  let outline = pending.pop();
+  while (outline) {
+    const xmlUrl = getAttribute(outline, "xmlUrl");
+    if (xmlUrl && !subscriptions.has(xmlUrl)) {
+      subscriptions.set(xmlUrl, {
+        title: getAttribute(outline, "title") ?? getAttribute(outline, "text"),
+        xmlUrl,
+        htmlUrl: getAttribute(outline, "htmlUrl"),
+      });
+    }
+    pending.push(...outlines(outline));
+    outline = pending.pop();
+  }
+}
+
+/**
+ * Extract the feed subscriptions of an OPML document, in document order
+ * and without duplicate feed URLs
+ */
+export function parseOpmlSubscriptions(
+  opml: string,
+): Result<OpmlSubscription[], ValidationError> {
+  const { root } = parseXml(opml);
+  const body =
+    root && localName(root.name) === "opml" && findChild(root, "body");
+  if (!body) {
+    return err({
+      type: "INVALID_OPML",
+      message: "Document is not OPML",
+    });
+  }
+
+  const subscriptions = new Map<string, OpmlSubscription>();
+  collectSubscriptions(body, subscriptions);
+
+  if (subscriptions.size === 0) {
+    return err({
+      type: "INVALID_OPML",
+      message: "OPML document has no feed subscriptions",
+    });
+  }
+  if (subscriptions.size > MAX_OPML_SUBSCRIPTIONS) {
+    return err({
+      type: "TOO_MANY_SUBSCRIPTIONS",
+      message: `OPML document has ${subscriptions.size} subscriptions`,
+    });
+  }
+  return ok([...subscriptions.values()]);
+}
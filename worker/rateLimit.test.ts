@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  type RateLimitStore,
+} from "./rateLimit";
+
+function limiterAt(start: number, capacity = 2, refillPerMinute = 6) {
+  let time = start;
+  const limiter = createRateLimiter(createMemoryRateLimitStore(), {
+    capacity,
+    refillPerMinute,
+    now: () => time,
+  });
+  return {
+    limiter,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+describe("rateLimit", () => {
+  describe("createRateLimiter", () => {
+    it("should allow bursts up to the capacity", async () => {
+      const { limiter } = limiterAt(0);
+
+      expect((await limiter.consume("1.2.3.4")).isOk()).toBe(true);
+      expect((await limiter.consume("1.2.3.4")).isOk()).toBe(true);
+
+      const limited = await limiter.consume("1.2.3.4");
+      expect(limited.isErr()).toBe(true);
+      if (limited.isErr()) {
+        expect(limited.error.type).toBe("RATE_LIMITED");
+        // 6 tokens per minute: one every 10 seconds
+        expect(limited.error.retryAfterSeconds).toBe(10);
+      }
+    });
+
+    it("should take as many tokens as a request costs", async () => {
+      const { limiter, advance } = limiterAt(0, 5);
+
+      expect((await limiter.consume("1.2.3.4", 3)).isOk()).toBe(true);
+
+      const limited = await limiter.consume("1.2.3.4", 3);
+      expect(limited.isErr()).toBe(true);
+      if (limited.isErr()) {
+        // One token short, and one comes back every 10 seconds
+        expect(limited.error.retryAfterSeconds).toBe(10);
+      }
+
+      advance(10_000);
+      expect((await limiter.consume("1.2.3.4", 3)).isOk()).toBe(true);
+    });
+
+    it("should let a request costing more than the capacity empty a full bucket", async () => {
+      const { limiter } = limiterAt(0, 5);
+
+      expect((await limiter.consume("1.2.3.4", 50)).isOk()).toBe(true);
+      expect((await limiter.consume("1.2.3.4")).isErr()).toBe(true);
+    });
+
+    it("should refill tokens over time", async () => {
+      const { limiter, advance } = limiterAt(0);
+      await limiter.consume("1.2.3.4");
+      await limiter.consume("1.2.3.4");
+
+      advance(4_000);
+      const early = await limiter.consume("1.2.3.4");
+      advance(6_000);
+      const refilled = await limiter.consume("1.2.3.4");
+
+      expect(early.isErr() && early.error.retryAfterSeconds).toBe(6);
+      expect(refilled.isOk()).toBe(true);
+    });
+
+    it("should keep a separate bucket per client", async () => {
+      const { limiter } = limiterAt(0, 1);
+
+      await limiter.consume("1.2.3.4");
+
+      expect((await limiter.consume("1.2.3.4")).isErr()).toBe(true);
+      expect((await limiter.consume("5.6.7.8")).isOk()).toBe(true);
+    });
+
+    it("should let requests through when the store fails", async () => {
+      const store: RateLimitStore = {
+        get: vi.fn().mockRejectedValue(new Error("store unavailable")),
+        set: vi.fn(),
+      };
+      const limiter = createRateLimiter(store, { capacity: 0 });
+
+      expect((await limiter.consume("1.2.3.4")).isOk()).toBe(true);
+    });
+  });
+
+  describe("createMemoryRateLimitStore", () => {
+    it("should forget the least recently updated client when full", async () => {
+      const store = createMemoryRateLimitStore(2);
+
+      await store.set("a", { tokens: 1, updatedAt: 0 });
+      await store.set("b", { tokens: 1, updatedAt: 0 });
+      await store.set("a", { tokens: 0, updatedAt: 1 });
+      await store.set("c", { tokens: 1, updatedAt: 2 });
+
+      expect(await store.get("a")).toEqual({ tokens: 0, updatedAt: 1 });
+      expect(await store.get("b")).toBeUndefined();
+      expect(await store.get("c")).toEqual({ tokens: 1, updatedAt: 2 });
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import {
+  RATE_LIMIT_CAPACITY,
+  RATE_LIMIT_MAX_TRACKED_CLIENTS,
+  RATE_LIMIT_PER_MINUTE,
+} from "./config";
+import type { RateLimitError } from "./types";
+
+/**
+ * State of one client's token bucket
+ */
+export interface TokenBucket {
+  tokens: number;
+  /** Time of the last refill, in milliseconds since the epoch */
+  updatedAt: number;
+}
+
+/**
+ * Where token buckets live. The in-memory store is per isolate; a store
+ * backed by a Durable Object shares buckets across isolates.
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<TokenBucket | undefined>;
+  set(key: string, bucket: TokenBucket): Promise<void>;
+}
+
+export interface RateLimitOptions {
+  capacity?: number;
+  refillPerMinute?: number;
+  now?: () => number;
+}
+
+export interface RateLimiter {
+  /**
+   * Take `cost` tokens from the client's bucket, or fail with the wait
+   * time. A cost above the capacity takes a full bucket.
+   */
+  consume(key: string, cost?: number): ResultAsync<void, RateLimitError>;
+}
+
+/**
+ * In-memory store that forgets the least recently updated clients once
+ * more than `maxEntries` are tracked
+ */
+export function createMemoryRateLimitStore(
+  maxEntries: number = RATE_LIMIT_MAX_TRACKED_CLIENTS,
+): RateLimitStore {
+  const buckets = new Map<string, TokenBucket>();
+
+  return {
+    get: async (key) => buckets.get(key),
+    set: async (key, bucket) => {
+      // Re-inserting moves the key to the end of the iteration order
+      buckets.delete(key);
+      buckets.set(key, bucket);
+      if (buckets.size > maxEntries) {
+        const oldest = buckets.keys().next().value;
+        if (oldest !== undefined) buckets.delete(oldest);
+      }
+    },
+  };
+}
+
+/**
+ * Token-bucket rate limiter. Store failures let the request through
+ * rather than taking the API down with the store.
+ */
+export function createRateLimiter(
+  store: RateLimitStore,
+  {
+    capacity = RATE_LIMIT_CAPACITY,
+    refillPerMinute = RATE_LIMIT_PER_MINUTE,
+    now = Date.now,
+  }: RateLimitOptions = {},
+): RateLimiter {
+  const refillPerMs = refillPerMinute / 60_000;
+
+  const consume = (
+    key: string,
+    cost = 1,
+  ): ResultAsync<void, RateLimitError> => {
+    const time = now();
+    const required = Math.min(cost, capacity);
+
+    return ResultAsync.fromPromise(store.get(key), () => undefined)
+      .andThen((bucket) => {
+        const tokens = bucket
+          ? Math.min(
+              capacity,
+              bucket.tokens + (time - bucket.updatedAt) * refillPerMs,
+            )
+          : capacity;
+        const allowed = tokens >= required;
+
+        return ResultAsync.fromPromise(
+          store.set(key, {
+            tokens: allowed ? tokens - required : tokens,
+            updatedAt: time,
+          }),
+          () => undefined,
+        ).map(() => ({ allowed, tokens }));
+      })
+      .orElse(() => okAsync({ allowed: true, tokens: capacity }))
+      .andThen(({ allowed, tokens }) => {
+        if (allowed) return okAsync(undefined);
+
+        const retryAfterSeconds = Math.ceil(
+          (required - tokens) / refillPerMs / 1000,
+        );
+        return errAsync({
+          type: "RATE_LIMITED" as const,
+          message: "Rate limit exceeded",
+          retryAfterSeconds,
+        });
+      });
+  };
+
+  return { consume };
+}
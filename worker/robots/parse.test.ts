@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import { isPathAllowed, parseRobotsTxt, parseSitemapDirectives } from "./parse";
+
+describe("robots/parse", () => {
+  describe("parseRobotsTxt", () => {
+    it("should use the group that names the product token", () => {
+      const robotsTxt = `
+        User-agent: *
+        Disallow: /
+
+        User-agent: FeedFinder
+        Disallow: /private/
+      `;
+
+      expect(parseRobotsTxt(robotsTxt, "FeedFinder")).toEqual([
+        { allow: false, pattern: "/private/" },
+      ]);
+    });
+
+    it("should ignore overlong patterns", () => {
+      const rules = parseRobotsTxt(
+        `User-agent: *\nDisallow: /${"*a".repeat(300)}\nDisallow: /private`,
+        "FeedFinder",
+      );
+
+      expect(rules).toEqual([{ allow: false, pattern: "/private" }]);
+    });
+
+    it("should fall back to the * group", () => {
+      const robotsTxt = `
+        User-agent: Googlebot
+        Disallow: /search
+
+        User-agent: *
+        Allow: /feeds/
+        Disallow: /admin # staff only
+      `;
+
+      expect(parseRobotsTxt(robotsTxt, "FeedFinder")).toEqual([
+        { allow: true, pattern: "/feeds/" },
+        { allow: false, pattern: "/admin" },
+      ]);
+    });
+
+    it("should share rules between consecutive user-agent lines", () => {
+      const robotsTxt =
+        "user-agent: SomeBot\r\nuser-agent: feedfinder\r\ndisallow: /tmp\r\n";
+
+      expect(parseRobotsTxt(robotsTxt, "FeedFinder")).toEqual([
+        { allow: false, pattern: "/tmp" },
+      ]);
+    });
+
+    it("should ignore empty Disallow lines and non-rule lines", () => {
+      const robotsTxt = `
+        User-agent: *
+        Crawl-delay: 10
+        Disallow:
+        Sitemap: https://example.com/sitemap.xml
+      `;
+
+      expect(parseRobotsTxt(robotsTxt, "FeedFinder")).toEqual([]);
+    });
+
+    it("should return no rules for documents that are not robots.txt", () => {
+      expect(
+        parseRobotsTxt("<html><body>Home</body></html>", "FeedFinder"),
+      ).toEqual([]);
+    });
+  });
+
+  describe("isPathAllowed", () => {
+    it("should allow everything without rules", () => {
+      expect(isPathAllowed([], "/feed")).toBe(true);
+    });
+
+    it("should match rules as path prefixes", () => {
+      const rules = [{ allow: false, pattern: "/feed" }];
+
+      expect(isPathAllowed(rules, "/feed")).toBe(false);
+      expect(isPathAllowed(rules, "/feed.xml")).toBe(false);
+      expect(isPathAllowed(rules, "/blog/feed")).toBe(true);
+    });
+
+    it("should let the longest matching rule win", () => {
+      const rules = [
+        { allow: false, pattern: "/" },
+        { allow: true, pattern: "/feeds/" },
+      ];
+
+      expect(isPathAllowed(rules, "/feeds/posts/default")).toBe(true);
+      expect(isPathAllowed(rules, "/rss.xml")).toBe(false);
+    });
+
+    it("should prefer Allow when equally long rules conflict", () => {
+      const rules = [
+        { allow: false, pattern: "/rss" },
+        { allow: true, pattern: "/rss" },
+      ];
+
+      expect(isPathAllowed(rules, "/rss")).toBe(true);
+    });
+
+    it("should support * wildcards and $ anchors", () => {
+      const rules = [
+        { allow: false, pattern: "/*.xml$" },
+        { allow: false, pattern: "/*?feed=" },
+      ];
+
+      expect(isPathAllowed(rules, "/atom.xml")).toBe(false);
+      expect(isPathAllowed(rules, "/atom.xml?v=2")).toBe(true);
+      expect(isPathAllowed(rules, "/?feed=rss2")).toBe(false);
+    });
+
+    it("should match several wildcards before an anchored end", () => {
+      const rules = [{ allow: false, pattern: "/*/feed/*.xml$" }];
+
+      expect(isPathAllowed(rules, "/blog/feed/posts.xml")).toBe(false);
+      expect(isPathAllowed(rules, "/a/feed/b/feed/c.xml")).toBe(false);
+      expect(isPathAllowed(rules, "/blog/feed/posts.xml.bak")).toBe(true);
+      expect(isPathAllowed(rules, "/blog/feed.xml")).toBe(true);
+    });
+
+    it("should match hostile wildcard patterns in linear time", () => {
+      const rules = [{ allow: false, pattern: `/${"*a".repeat(10)}*b` }];
+      const started = performance.now();
+
+      expect(isPathAllowed(rules, `/${"a".repeat(40)}`)).toBe(true);
+      expect(performance.now() - started).toBeLessThan(100);
+    });
+
+    it("should treat other regex characters literally", () => {
+      const rules = [{ allow: false, pattern: "/index.json" }];
+
+      expect(isPathAllowed(rules, "/index.json")).toBe(false);
+      expect(isPathAllowed(rules, "/indexXjson")).toBe(true);
+    });
+  });
+
+  describe("parseSitemapDirectives", () => {
+    it("should list sitemaps from anywhere in the file", () => {
+      const robotsTxt = `
+        Sitemap: https://example.com/sitemap_index.xml
+        User-agent: *
+        Disallow: /admin
+        sitemap:https://cdn.example.com/news-sitemap.xml # news only
+      `;
+
+      expect(parseSitemapDirectives(robotsTxt)).toEqual([
+        "https://example.com/sitemap_index.xml",
+        "https://cdn.example.com/news-sitemap.xml",
+      ]);
+    });
+
+    it("should ignore empty sitemap lines", () => {
+      expect(parseSitemapDirectives("Sitemap:\nUser-agent: *")).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { MAX_ROBOTS_PATTERN_LENGTH } from "../config";
+
+/**
+ * An Allow or Disallow line from the robots.txt group that applies to us
+ */
+export interface RobotsRule {
+  allow: boolean;
+  /** Path pattern, where `*` matches any characters and a trailing `$` anchors the end */
+  pattern: string;
+}
+
+interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+}
+
+/**
+ * Split robots.txt into user-agent groups (RFC 9309). Consecutive
+ * user-agent lines share the rules that follow them.
+ */
+function parseGroups(text: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let readingUserAgents = false;
+
+  for (const rawLine of text.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === "user-agent") {
+      if (!current || !readingUserAgents) {
+        current = { userAgents: [], rules: [] };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+      readingUserAgents = true;
+    } else if ((key === "allow" || key === "disallow") && current) {
+      readingUserAgents = false;
+      // An empty Disallow allows everything, so it adds nothing; overlong
+      // patterns are ignored rather than matched against every candidate
+      if (value && value.length <= MAX_ROBOTS_PATTERN_LENGTH) {
+        current.rules.push({ allow: key === "allow", pattern: value });
+      }
+    }
+    // Sitemap, Crawl-delay and unknown lines neither start nor end a group
+  }
+  return groups;
+}
+
+/**
+ * Parse robots.txt into the rules for `productToken` (e.g. "FeedFinder"),
+ * falling back to the `*` group when no group names it
+ */
+export function parseRobotsTxt(
+  text: string,
+  productToken: string,
+): RobotsRule[] {
+  const groups = parseGroups(text);
+  const token = productToken.toLowerCase();
+
+  const ownGroups = groups.filter((group) => group.userAgents.includes(token));
+  const applicable =
+    ownGroups.length > 0
+      ? ownGroups
+      : groups.filter((group) => group.userAgents.includes("*"));
+  return applicable.flatMap((group) => group.rules);
+}
+
+/**
+ * Whether `path` matches a pattern split at its `*` wildcards. Each literal
+ * segment is found at its leftmost position after the previous one, which
+ * finds a match whenever one exists and runs in linear time (a regex with
+ * `.*` per wildcard backtracks exponentially on hostile patterns).
+ */
+function matchesSegments(
+  segments: string[],
+  path: string,
+  anchored: boolean,
+): boolean {
+  const [first, ...rest] = segments;
+  if (!path.startsWith(first)) return false;
+  if (rest.length === 0) return !anchored || path.length === first.length;
+
+  const last = rest.pop() as string;
+  let cursor = first.length;
+  for (const segment of rest) {
+    const index = path.indexOf(segment, cursor);
+    if (index === -1) return false;
+    cursor = index + segment.length;
+  }
+  return anchored
+    ? path.length - last.length >= cursor && path.endsWith(last)
+    : path.indexOf(last, cursor) !== -1;
+}
+
+/**
+ * Length of the path's match against a rule pattern, or -1 when it does
+ * not match. Patterns match path prefixes unless they end in `$`.
+ */
+function matchLength(pattern: string, path: string): number {
+  const anchored = pattern.endsWith("$");
+  const segments = (anchored ? pattern.slice(0, -1) : pattern).split("*");
+  return matchesSegments(segments, path, anchored) ? pattern.length : -1;
+}
+
+/**
+ * Whether robots rules allow a path (including its query string).
+ * The longest matching pattern wins, and Allow wins ties.
+ */
+export function isPathAllowed(rules: RobotsRule[], path: string): boolean {
+  let longest = -1;
+  let allowed = true;
+
+  for (const rule of rules) {
+    const length = matchLength(rule.pattern, path);
+    if (length === -1) continue;
+    if (length > longest || (length === longest && rule.allow)) {
+      longest = length;
+      allowed = rule.allow;
+    }
+  }
+  return allowed;
+}
+
+/**
+ * Sitemap URLs listed in robots.txt. Sitemap lines belong to no group, so
+ * every one counts.
+ */
+export function parseSitemapDirectives(text: string): string[] {
+  return text
+    .split(/\r\n|\r|\n/)
+    .map((line) => line.replace(/#.*$/, "").trim())
+    .filter((line) => /^sitemap\s*:/i.test(line))
+    .map((line) => line.slice(line.indexOf(":") + 1).trim())
+    .filter((url) => url.length > 0);
+}
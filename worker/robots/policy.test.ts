@@ -0,0 +1,222 @@
+import { errAsync, okAsync } from "neverthrow";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createRobotsPolicy } from "./policy";
+
+vi.mock("../net/fetch", () => ({
+  fetchWithRedirects: vi.fn(),
+}));
+
+import { fetchWithRedirects } from "../net/fetch";
+
+const mockFetchWithRedirects = vi.mocked(fetchWithRedirects);
+
+function serveRobotsTxt(body: string) {
+  mockFetchWithRedirects.mockImplementation((url) =>
+    okAsync({ response: new Response(body), url }),
+  );
+}
+
+describe("robots/policy", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should separate disallowed URLs from permitted ones", async () => {
+    serveRobotsTxt("User-agent: *\nDisallow: /private/");
+    const policy = createRobotsPolicy({ mode: "enforce" });
+
+    const result = await policy.check([
+      "https://example.com/feed",
+      "https://example.com/private/feed",
+    ]);
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value).toEqual({
+        permittedUrls: ["https://example.com/feed"],
+        disallowedUrls: ["https://example.com/private/feed"],
+      });
+    }
+    expect(mockFetchWithRedirects).toHaveBeenCalledWith(
+      "https://example.com/robots.txt",
+      { headers: { Accept: "text/plain" } },
+    );
+  });
+
+  it("should permit disallowed URLs when only reporting", async () => {
+    serveRobotsTxt("User-agent: FeedFinder\nDisallow: /");
+    const policy = createRobotsPolicy({ mode: "report" });
+
+    const result = await policy.check(["https://example.com/feed"]);
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value).toEqual({
+        permittedUrls: ["https://example.com/feed"],
+        disallowedUrls: ["https://example.com/feed"],
+      });
+    }
+  });
+
+  it("should match rules against the query string", async () => {
+    serveRobotsTxt("User-agent: *\nDisallow: /?feed=");
+    const policy = createRobotsPolicy({ mode: "enforce" });
+
+    const result = await policy.check(["https://example.com/?feed=rss2"]);
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.disallowedUrls).toEqual([
+        "https://example.com/?feed=rss2",
+      ]);
+    }
+  });
+
+  it("should fetch each origin's robots.txt once while it is cached", async () => {
+    serveRobotsTxt("");
+    const policy = createRobotsPolicy();
+
+    await policy.check([
+      "https://example.com/feed",
+      "https://example.com/rss",
+      "https://example.org/feed",
+    ]);
+    await policy.check(["https://example.com/atom.xml"]);
+
+    expect(mockFetchWithRedirects.mock.calls.map(([url]) => url)).toEqual([
+      "https://example.com/robots.txt",
+      "https://example.org/robots.txt",
+    ]);
+  });
+
+  it("should fetch robots.txt again once the cached rules expire", async () => {
+    serveRobotsTxt("");
+    let now = 0;
+    const policy = createRobotsPolicy({ ttlMs: 1000, now: () => now });
+
+    await policy.check(["https://example.com/feed"]);
+    now = 1000;
+    await policy.check(["https://example.com/feed"]);
+
+    expect(mockFetchWithRedirects).toHaveBeenCalledTimes(2);
+  });
+
+  it("should forget the oldest host when the cache is full", async () => {
+    serveRobotsTxt("");
+    const policy = createRobotsPolicy({ maxHosts: 1 });
+
+    await policy.check(["https://example.com/feed"]);
+    await policy.check(["https://example.org/feed"]);
+    await policy.check(["https://example.com/feed"]);
+
+    expect(mockFetchWithRedirects).toHaveBeenCalledTimes(3);
+  });
+
+  it("should list the sitemaps named in the cached robots.txt", async () => {
+    serveRobotsTxt(
+      "User-agent: *\nDisallow: /admin\nSitemap: https://example.com/sitemap_index.xml",
+    );
+    const policy = createRobotsPolicy();
+
+    await policy.check(["https://example.com/feed"]);
+    const result = await policy.sitemaps("https://example.com/blog/");
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value).toEqual(["https://example.com/sitemap_index.xml"]);
+    }
+    expect(mockFetchWithRedirects).toHaveBeenCalledTimes(1);
+  });
+
+  it("should allow everything when robots.txt is missing", async () => {
+    mockFetchWithRedirects.mockReturnValue(
+      errAsync({ type: "FETCH_FAILED", message: "HTTP 404", status: 404 }),
+    );
+    const policy = createRobotsPolicy({ mode: "enforce" });
+
+    const result = await policy.check(["https://example.com/feed"]);
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value).toEqual({
+        permittedUrls: ["https://example.com/feed"],
+        disallowedUrls: [],
+      });
+    }
+  });
+
+  it.each([
+    [
+      "a server error",
+      { type: "FETCH_FAILED" as const, message: "HTTP 503", status: 503 },
+    ],
+    [
+      "a network error",
+      { type: "NETWORK_ERROR" as const, message: "Network error" },
+    ],
+    [
+      "a timeout",
+      { type: "TIMEOUT_ERROR" as const, message: "Request timeout" },
+    ],
+  ])("should disallow everything when robots.txt fails with %s", async (_, error) => {
+    mockFetchWithRedirects.mockReturnValue(errAsync(error));
+    const policy = createRobotsPolicy({ mode: "enforce" });
+
+    const result = await policy.check([
+      "https://example.com/feed",
+      "https://example.com/?feed=rss2",
+    ]);
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value).toEqual({
+        permittedUrls: [],
+        disallowedUrls: [
+          "https://example.com/feed",
+          "https://example.com/?feed=rss2",
+        ],
+      });
+    }
+  });
+
+  it("should ask again soon after robots.txt could not be read", async () => {
+    mockFetchWithRedirects.mockReturnValueOnce(
+      errAsync({ type: "FETCH_FAILED", message: "HTTP 500", status: 500 }),
+    );
+    serveRobotsTxt("");
+    let now = 0;
+    const policy = createRobotsPolicy({
+      ttlMs: 60_000,
+      failureTtlMs: 1000,
+      now: () => now,
+    });
+
+    await policy.check(["https://example.com/feed"]);
+    now = 999;
+    await policy.check(["https://example.com/feed"]);
+    expect(mockFetchWithRedirects).toHaveBeenCalledTimes(1);
+
+    now = 1000;
+    const result = await policy.check(["https://example.com/feed"]);
+
+    expect(mockFetchWithRedirects).toHaveBeenCalledTimes(2);
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.permittedUrls).toEqual(["https://example.com/feed"]);
+    }
+  });
+
+  it("should list no sitemaps when robots.txt cannot be fetched", async () => {
+    mockFetchWithRedirects.mockReturnValue(
+      errAsync({ type: "NETWORK_ERROR", message: "Network error" }),
+    );
+    const policy = createRobotsPolicy();
+
+    const result = await policy.sitemaps("https://example.com/");
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value).toEqual([]);
+    }
+  });
+});
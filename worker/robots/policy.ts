@@ -0,0 +1,182 @@
+import { okAsync, Result, ResultAsync } from "neverthrow";
+import {
+  MAX_ROBOTS_TXT_BYTES,
+  ROBOTS_TXT_CACHE_TTL_MS,
+  ROBOTS_TXT_FAILURE_CACHE_TTL_MS,
+  ROBOTS_TXT_MAX_CACHED_HOSTS,
+  ROBOTS_TXT_MODE,
+  USER_AGENT,
+} from "../config";
+import { readLimitedText } from "../net/body";
+import { fetchWithRedirects } from "../net/fetch";
+import type { FeedDiscoveryError, RobotsTxtMode } from "../types";
+import {
+  isPathAllowed,
+  parseRobotsTxt,
+  parseSitemapDirectives,
+  type RobotsRule,
+} from "./parse";
+
+/**
+ * The name robots.txt groups address us by ("FeedFinder")
+ */
+const PRODUCT_TOKEN = USER_AGENT.split("/")[0];
+
+/**
+ * Which candidate URLs may be requested
+ */
+export interface RobotsVerdict {
+  /** URLs to request, in the order given */
+  permittedUrls: string[];
+  /** URLs robots.txt disallows; still permitted when only reporting */
+  disallowedUrls: string[];
+}
+
+export interface RobotsPolicyOptions {
+  mode?: RobotsTxtMode;
+  ttlMs?: number;
+  /** How long to keep the verdict for an origin whose robots.txt failed */
+  failureTtlMs?: number;
+  maxHosts?: number;
+  now?: () => number;
+}
+
+export interface RobotsPolicy {
+  readonly mode: RobotsTxtMode;
+  check(urls: string[]): ResultAsync<RobotsVerdict, never>;
+  /** Sitemaps that robots.txt lists for the URL's origin */
+  sitemaps(url: string): ResultAsync<string[], never>;
+}
+
+/**
+ * What FeedFinder uses from an origin's robots.txt
+ */
+interface RobotsTxt {
+  rules: RobotsRule[];
+  sitemapUrls: string[];
+  /** Set when the file could not be read, so the verdict is provisional */
+  unreachable?: boolean;
+}
+
+interface CachedRobotsTxt {
+  expiresAt: number;
+  robotsTxt: ResultAsync<RobotsTxt, never>;
+}
+
+/**
+ * Whether a failed robots.txt fetch means the site has no robots.txt:
+ * RFC 9309 treats 4xx responses as "unavailable", which allows everything
+ */
+function isRobotsTxtUnavailable(error: FeedDiscoveryError): boolean {
+  return (
+    error.type === "FETCH_FAILED" &&
+    error.status !== undefined &&
+    error.status >= 400 &&
+    error.status < 500
+  );
+}
+
+/**
+ * Fetch and parse an origin's robots.txt. A missing file (4xx) allows
+ * everything, as if the site had none; a server error, timeout or network
+ * failure disallows everything, as RFC 9309 asks of an unreachable file.
+ */
+function fetchRobotsTxt(origin: string): ResultAsync<RobotsTxt, never> {
+  return fetchWithRedirects(`${origin}/robots.txt`, {
+    headers: { Accept: "text/plain" },
+  })
+    .andThen(({ response }) => readLimitedText(response, MAX_ROBOTS_TXT_BYTES))
+    .map(({ text }) => ({
+      rules: parseRobotsTxt(text, PRODUCT_TOKEN),
+      sitemapUrls: parseSitemapDirectives(text),
+    }))
+    .orElse((error) =>
+      okAsync(
+        isRobotsTxtUnavailable(error)
+          ? { rules: [], sitemapUrls: [] }
+          : {
+              rules: [{ allow: false, pattern: "/" }],
+              sitemapUrls: [],
+              unreachable: true,
+            },
+      ),
+    );
+}
+
+/**
+ * Check candidate URLs against their hosts' robots.txt, fetching each
+ * origin's file once and caching its rules
+ */
+export function createRobotsPolicy({
+  mode = ROBOTS_TXT_MODE,
+  ttlMs = ROBOTS_TXT_CACHE_TTL_MS,
+  failureTtlMs = ROBOTS_TXT_FAILURE_CACHE_TTL_MS,
+  maxHosts = ROBOTS_TXT_MAX_CACHED_HOSTS,
+  now = Date.now,
+}: RobotsPolicyOptions = {}): RobotsPolicy {
+  const cache = new Map<string, CachedRobotsTxt>();
+
+  // Lookups in flight are cached too, so parallel probes share one fetch.
+  // A failed lookup is only kept briefly, so the site is asked again soon.
+  const getRobotsTxt = (origin: string): ResultAsync<RobotsTxt, never> => {
+    const cached = cache.get(origin);
+    if (cached && cached.expiresAt > now()) return cached.robotsTxt;
+
+    cache.delete(origin);
+    if (cache.size >= maxHosts) {
+      // Maps iterate in insertion order, so this forgets the oldest host
+      const oldest = cache.keys().next();
+      if (!oldest.done) cache.delete(oldest.value);
+    }
+    const entry: CachedRobotsTxt = {
+      expiresAt: now() + ttlMs,
+      robotsTxt: fetchRobotsTxt(origin).map((robotsTxt) => {
+        if (robotsTxt.unreachable) entry.expiresAt = now() + failureTtlMs;
+        return robotsTxt;
+      }),
+    };
+    cache.set(origin, entry);
+    return entry.robotsTxt;
+  };
+
+  const parseUrl = (url: string) =>
+    Result.fromThrowable(
+      () => new URL(url),
+      () => null,
+    )();
+
+  const isAllowed = (url: string): ResultAsync<boolean, never> => {
+    const parsed = parseUrl(url);
+    if (parsed.isErr()) return okAsync(true);
+
+    const { origin, pathname, search } = parsed.value;
+    return getRobotsTxt(origin).map(({ rules }) =>
+      isPathAllowed(rules, pathname + search),
+    );
+  };
+
+  const check = (urls: string[]): ResultAsync<RobotsVerdict, never> =>
+    ResultAsync.combine(urls.map(isAllowed)).map((allowed) => {
+      const disallowedUrls = urls.filter((_, index) => !allowed[index]);
+      return {
+        permittedUrls:
+          mode === "enforce" ? urls.filter((_, index) => allowed[index]) : urls,
+        disallowedUrls,
+      };
+    });
+
+  const sitemaps = (url: string): ResultAsync<string[], never> => {
+    const parsed = parseUrl(url);
+    if (parsed.isErr()) return okAsync([]);
+    return getRobotsTxt(parsed.value.origin).map(
+      ({ sitemapUrls }) => sitemapUrls,
+    );
+  };
+
+  return { mode, check, sitemaps };
+}
+
+/**
+ * Policy shared by every discovery in the isolate
+ */
+export const robotsPolicy = createRobotsPolicy();
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  getCacheTtl,
+  readCachedSearch,
+  writeCachedSearch,
+} from "./searchCache";
+import type { SearchResult } from "./types";
+
+const result: SearchResult = {
+  success: true,
+  searchedUrl: "https://example.com/",
+  totalFound: 0,
+  fetchedAt: "2024-01-01T00:00:00.000Z",
+  feeds: [],
+};
+
+describe("searchCache", () => {
+  describe("getCacheTtl", () => {
+    it("should use the default TTL without upstream directives", () => {
+      expect(getCacheTtl(undefined, 3600)).toBe(3600);
+      expect(getCacheTtl("public", 3600)).toBe(3600);
+    });
+
+    it("should cap the TTL at the page's own lifetime", () => {
+      expect(getCacheTtl("public, max-age=600", 3600)).toBe(600);
+      expect(getCacheTtl("max-age=86400", 3600)).toBe(3600);
+    });
+
+    it("should prefer s-maxage over max-age", () => {
+      expect(getCacheTtl("max-age=60, s-maxage=300", 3600)).toBe(300);
+    });
+
+    it.each([
+      "no-store",
+      "No-Cache",
+      "private, max-age=600",
+    ])("should not cache pages marked %s", (cacheControl) => {
+      expect(getCacheTtl(cacheControl, 3600)).toBe(0);
+    });
+
+    it("should ignore malformed lifetimes", () => {
+      expect(getCacheTtl("max-age=soon", 3600)).toBe(3600);
+    });
+  });
+
+  describe("cache storage", () => {
+    const cache = {
+      match: vi.fn(),
+      put: vi.fn(),
+    };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      cache.put.mockResolvedValue(undefined);
+      vi.stubGlobal("caches", { default: cache });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should mark cached results as cached", async () => {
+      cache.match.mockResolvedValue(Response.json(result));
+
+      const cached = await readCachedSearch("https://example.com/");
+
+      expect(cache.match.mock.calls[0][0].url).toBe(
+        "https://feed-finder.cache/search?url=https%3A%2F%2Fexample.com%2F",
+      );
+      expect(cached.isOk()).toBe(true);
+      if (cached.isOk()) {
+        expect(cached.value).toEqual({ ...result, cached: true });
+      }
+    });
+
+    it("should treat misses and cache failures as misses", async () => {
+      cache.match.mockResolvedValueOnce(undefined);
+      cache.match.mockRejectedValueOnce(new Error("cache unavailable"));
+
+      const miss = await readCachedSearch("https://example.com/");
+      const failure = await readCachedSearch("https://example.com/");
+
+      expect(miss.isOk() && miss.value).toBeNull();
+      expect(failure.isOk() && failure.value).toBeNull();
+    });
+
+    it("should store results with the TTL as their lifetime", async () => {
+      await writeCachedSearch("https://example.com/", result, 600);
+
+      const [key, response] = cache.put.mock.calls[0];
+      expect(key.url).toBe(
+        "https://feed-finder.cache/search?url=https%3A%2F%2Fexample.com%2F",
+      );
+      expect(response.headers.get("Cache-Control")).toBe("max-age=600");
+      expect(await response.json()).toEqual(result);
+    });
+
+    it("should store ancestor walks under their own key", async () => {
+      await writeCachedSearch("https://example.com/", result, 600, {
+        walkAncestors: true,
+      });
+
+      expect(cache.put.mock.calls[0][0].url).toBe(
+        "https://feed-finder.cache/search?url=https%3A%2F%2Fexample.com%2F&ancestors=1",
+      );
+    });
+
+    it("should not store results that must not be cached", async () => {
+      await writeCachedSearch("https://example.com/", result, 0);
+
+      expect(cache.put).not.toHaveBeenCalled();
+    });
+
+    it("should ignore storage failures", async () => {
+      cache.put.mockRejectedValue(new Error("quota exceeded"));
+
+      const stored = await writeCachedSearch(
+        "https://example.com/",
+        result,
+        60,
+      );
+
+      expect(stored.isOk()).toBe(true);
+    });
+  });
+
+  it("should skip caching outside the Workers runtime", async () => {
+    const cached = await readCachedSearch("https://example.com/");
+
+    expect(cached.isOk() && cached.value).toBeNull();
+  });
+});
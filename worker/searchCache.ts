@@ -0,0 +1,103 @@
+import { okAsync, ResultAsync } from "neverthrow";
+import { SEARCH_CACHE_TTL_SECONDS } from "./config";
+import type { DiscoveryOptions, SearchResult } from "./types";
+
+/**
+ * Cache-Control directives that forbid keeping a copy of the page,
+ * and so of the feeds found on it
+ */
+const UNCACHEABLE_DIRECTIVES = ["no-store", "no-cache", "private"];
+
+/**
+ * How long a search result may be cached, in seconds (0 for not at all).
+ * The target page's own lifetime caps the default TTL.
+ */
+export function getCacheTtl(
+  cacheControl: string | undefined,
+  defaultTtl: number = SEARCH_CACHE_TTL_SECONDS,
+): number {
+  if (!cacheControl) return defaultTtl;
+
+  const directives = new Map(
+    cacheControl.split(",").map((directive) => {
+      const [name, value = ""] = directive.split("=");
+      return [name.trim().toLowerCase(), value.trim()] as const;
+    }),
+  );
+  if (UNCACHEABLE_DIRECTIVES.some((name) => directives.has(name))) {
+    return 0;
+  }
+
+  // The shared-cache lifetime applies to us; max-age is the fallback
+  const maxAge = Number.parseInt(
+    directives.get("s-maxage") ?? directives.get("max-age") ?? "",
+    10,
+  );
+  return Number.isNaN(maxAge) ? defaultTtl : Math.min(maxAge, defaultTtl);
+}
+
+/**
+ * The default cache, absent outside the Workers runtime (e.g. in tests)
+ */
+function getCache(): Cache | undefined {
+  return typeof caches === "undefined" ? undefined : caches.default;
+}
+
+/**
+ * Synthetic request under which a target URL's result is stored.
+ * Ancestor walks find more feeds, so they are stored apart.
+ */
+function cacheKey(
+  targetUrl: string,
+  { walkAncestors = false }: DiscoveryOptions,
+): Request {
+  const ancestors = walkAncestors ? "&ancestors=1" : "";
+  return new Request(
+    `https://feed-finder.cache/search?url=${encodeURIComponent(targetUrl)}${ancestors}`,
+  );
+}
+
+/**
+ * Look up a cached search result for a normalized target URL.
+ * Cache failures count as misses.
+ */
+export function readCachedSearch(
+  targetUrl: string,
+  options: DiscoveryOptions = {},
+): ResultAsync<SearchResult | null, never> {
+  const cache = getCache();
+  if (!cache) return okAsync(null);
+
+  return ResultAsync.fromPromise(
+    cache
+      .match(cacheKey(targetUrl, options))
+      .then(async (response) =>
+        response ? ((await response.json()) as SearchResult) : null,
+      ),
+    () => null,
+  )
+    .map((result) => (result ? { ...result, cached: true } : null))
+    .orElse(() => okAsync(null));
+}
+
+/**
+ * Store a search result for `ttl` seconds. Failures are ignored; the next
+ * search simply runs discovery again.
+ */
+export function writeCachedSearch(
+  targetUrl: string,
+  result: SearchResult,
+  ttl: number,
+  options: DiscoveryOptions = {},
+): ResultAsync<void, never> {
+  const cache = getCache();
+  if (!cache || ttl <= 0) return okAsync(undefined);
+
+  const response = Response.json(result, {
+    headers: { "Cache-Control": `max-age=${ttl}` },
+  });
+  return ResultAsync.fromPromise(
+    cache.put(cacheKey(targetUrl, options), response),
+    () => undefined,
+  ).orElse(() => okAsync(undefined));
+}
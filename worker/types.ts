@@ -1,5 +1,87 @@
 // Re-export shared types
-export type { FeedResult, SearchResult } from "../shared/types";
+export type {
+  BatchSearchEntry,
+  BatchSearchResult,
+  CmsPlatform,
+  ConfidenceFactor,
+  ConfidenceReason,
+  DiscoveryMethod,
+  DiscoveryProgressEvent,
+  DiscoveryStage,
+  FeedConfidence,
+  FeedHealth,
+  FeedKind,
+  FeedMetadata,
+  FeedResult,
+  FeedType,
+  FeedVerificationStatus,
+  HttpCachingSupport,
+  OpmlCheckResult,
+  OpmlSubscription,
+  PodcastInfo,
+  RobotsTxtMode,
+  RobotsTxtReport,
+  SearchError,
+  SearchResult,
+  SearchStreamEvent,
+  SubscriptionCheck,
+  SubscriptionStatus,
+} from "../shared/types";
+
+import type {
+  CmsPlatform,
+  DiscoveryProgressEvent,
+  FeedResult,
+  RobotsTxtReport,
+} from "../shared/types";
+
+/**
+ * Callback that receives discovery progress as it happens
+ */
+export type ProgressReporter = (event: DiscoveryProgressEvent) => void;
+
+/**
+ * Feeds found by a strategy that requests guessed URLs, and the URLs the
+ * site's robots.txt disallows
+ */
+export interface CrawlResult {
+  feeds: FeedResult[];
+  disallowedUrls: string[];
+}
+
+/**
+ * Optional discovery strategies
+ */
+export interface DiscoveryOptions {
+  /** Also read the page's parent directories and the homepage */
+  walkAncestors?: boolean;
+}
+
+/**
+ * A validated single-URL search request
+ */
+export interface SearchRequest extends Required<DiscoveryOptions> {
+  url: string;
+  /** Run discovery again even when a cached result exists */
+  refresh: boolean;
+}
+
+/**
+ * Outcome of running the discovery strategies against a target URL
+ */
+export interface DiscoveryResult {
+  feeds: FeedResult[];
+  /** The URL the target page was finally served from, after redirects */
+  resolvedUrl: string;
+  /** CMS identified from the target page, which chose the probed paths */
+  platform?: CmsPlatform;
+  /** The target page's Cache-Control header, which bounds result caching */
+  cacheControl?: string;
+  /** Set when the target page could not be read, so only guesses were tried */
+  pageUnavailable?: boolean;
+  /** Candidates disallowed by the site's robots.txt, if any */
+  robotsTxt?: RobotsTxtReport;
+}
 
 /**
  * Error types for type-safe error handling
@@ -8,12 +90,26 @@ export type ValidationError =
   | { type: "INVALID_REQUEST_BODY"; message: string }
   | { type: "MISSING_URL"; message: string }
   | { type: "INVALID_URL_FORMAT"; message: string }
-  | { type: "URL_NOT_PERMITTED"; message: string };
+  | { type: "URL_NOT_PERMITTED"; message: string }
+  | { type: "TOO_MANY_URLS"; message: string }
+  | { type: "INVALID_OPML"; message: string }
+  | { type: "TOO_MANY_SUBSCRIPTIONS"; message: string };
 
 export type FeedDiscoveryError =
   | { type: "FETCH_FAILED"; message: string; status?: number }
   | { type: "NETWORK_ERROR"; message: string }
   | { type: "TIMEOUT_ERROR"; message: string }
-  | { type: "PARSING_ERROR"; message: string };
+  | { type: "PARSING_ERROR"; message: string }
+  | { type: "RESPONSE_TOO_LARGE"; message: string }
+  | { type: "TOO_MANY_REDIRECTS"; message: string }
+  | { type: "URL_NOT_PERMITTED"; message: string }
+  | { type: "REDIRECT_NOT_PERMITTED"; message: string };
+
+export type RateLimitError = {
+  type: "RATE_LIMITED";
+  message: string;
+  /** Seconds until the client may retry */
+  retryAfterSeconds: number;
+};
 
-export type AppError = ValidationError | FeedDiscoveryError;
+export type AppError = ValidationError | FeedDiscoveryError | RateLimitError;
@@ -1,5 +1,10 @@
 import { describe, expect, it } from "vitest";
-import { normalizeUrl, parseRequestBody } from "./request";
+import { MAX_BATCH_URLS } from "../config";
+import {
+  normalizeUrl,
+  parseBatchRequestBody,
+  parseRequestBody,
+} from "./request";
 
 describe("validation/request", () => {
   describe("parseRequestBody", () => {
@@ -9,7 +14,59 @@ describe("validation/request", () => {
 
       expect(result.isOk()).toBe(true);
       if (result.isOk()) {
-        expect(result.value).toBe("https://example.com");
+        expect(result.value).toEqual({
+          url: "https://example.com",
+          refresh: false,
+          walkAncestors: false,
+        });
+      }
+    });
+
+    it("should accept a refresh flag", () => {
+      const result = parseRequestBody({
+        url: "https://example.com",
+        refresh: true,
+      });
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.refresh).toBe(true);
+      }
+    });
+
+    it("should fail for a refresh flag that is not a boolean", () => {
+      const result = parseRequestBody({
+        url: "https://example.com",
+        refresh: "yes",
+      });
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.type).toBe("INVALID_REQUEST_BODY");
+      }
+    });
+
+    it("should accept a walkAncestors flag", () => {
+      const result = parseRequestBody({
+        url: "https://example.com/2024/05/some-post/",
+        walkAncestors: true,
+      });
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.walkAncestors).toBe(true);
+      }
+    });
+
+    it("should fail for a walkAncestors flag that is not a boolean", () => {
+      const result = parseRequestBody({
+        url: "https://example.com",
+        walkAncestors: 1,
+      });
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.message).toBe("walkAncestors must be a boolean");
       }
     });
 
@@ -81,6 +138,55 @@ describe("validation/request", () => {
     });
   });
 
+  describe("parseBatchRequestBody", () => {
+    it("should return the submitted URLs in order", () => {
+      const result = parseBatchRequestBody({
+        urls: ["https://example.com", "example.org", ""],
+      });
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toEqual([
+          "https://example.com",
+          "example.org",
+          "",
+        ]);
+      }
+    });
+
+    it.each([
+      null,
+      "urls",
+      { urls: "https://example.com" },
+      { urls: [1, 2] },
+    ])("should reject %j as an invalid request body", (body) => {
+      const result = parseBatchRequestBody(body);
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.type).toBe("INVALID_REQUEST_BODY");
+      }
+    });
+
+    it("should fail for an empty list", () => {
+      const result = parseBatchRequestBody({ urls: [] });
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.type).toBe("MISSING_URL");
+      }
+    });
+
+    it("should fail when the batch exceeds the limit", () => {
+      const urls = Array.from(
+        { length: MAX_BATCH_URLS + 1 },
+        (_, index) => `https://example.com/${index}`,
+      );
+      const result = parseBatchRequestBody({ urls });
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.type).toBe("TOO_MANY_URLS");
+      }
+    });
+  });
+
   describe("normalizeUrl", () => {
     it("should keep HTTPS URLs as-is", () => {
       const result = normalizeUrl("https://example.com");
@@ -1,13 +1,15 @@
 import { err, ok, Result } from "neverthrow";
-import type { ValidationError } from "../types";
+import { MAX_BATCH_URLS } from "../config";
+import type { SearchRequest, ValidationError } from "../types";
 import { safeCreateUrl } from "./url";
 
 /**
  * Parses and validates request body
+ * ({ url: string, refresh?: boolean, walkAncestors?: boolean })
  */
 export function parseRequestBody(
   body: unknown,
-): Result<string, ValidationError> {
+): Result<SearchRequest, ValidationError> {
   if (!body || typeof body !== "object") {
     return err({
       type: "INVALID_REQUEST_BODY" as const,
@@ -15,7 +17,15 @@ export function parseRequestBody(
     });
   }
 
-  const { url: targetUrl } = body as { url?: unknown };
+  const {
+    url: targetUrl,
+    refresh = false,
+    walkAncestors = false,
+  } = body as {
+    url?: unknown;
+    refresh?: unknown;
+    walkAncestors?: unknown;
+  };
   if (!targetUrl || typeof targetUrl !== "string" || targetUrl.trim() === "") {
     return err({
       type: "MISSING_URL" as const,
@@ -23,7 +33,63 @@ export function parseRequestBody(
     });
   }
 
-  return ok(targetUrl);
+  if (typeof refresh !== "boolean") {
+    return err({
+      type: "INVALID_REQUEST_BODY" as const,
+      message: "refresh must be a boolean",
+    });
+  }
+
+  if (typeof walkAncestors !== "boolean") {
+    return err({
+      type: "INVALID_REQUEST_BODY" as const,
+      message: "walkAncestors must be a boolean",
+    });
+  }
+
+  return ok({ url: targetUrl, refresh, walkAncestors });
+}
+
+/**
+ * Parses and validates a batch request body ({ urls: string[] }).
+ * Individual URLs are validated later, so one bad URL does not fail the batch.
+ */
+export function parseBatchRequestBody(
+  body: unknown,
+): Result<string[], ValidationError> {
+  if (!body || typeof body !== "object") {
+    return err({
+      type: "INVALID_REQUEST_BODY" as const,
+      message: "Invalid request body",
+    });
+  }
+
+  const { urls } = body as { urls?: unknown };
+  if (
+    !Array.isArray(urls) ||
+    urls.some((targetUrl) => typeof targetUrl !== "string")
+  ) {
+    return err({
+      type: "INVALID_REQUEST_BODY" as const,
+      message: "urls must be an array of strings",
+    });
+  }
+
+  if (urls.length === 0) {
+    return err({
+      type: "MISSING_URL" as const,
+      message: "At least one URL is required",
+    });
+  }
+
+  if (urls.length > MAX_BATCH_URLS) {
+    return err({
+      type: "TOO_MANY_URLS" as const,
+      message: `Batch of ${urls.length} URLs exceeds the limit of ${MAX_BATCH_URLS}`,
+    });
+  }
+
+  return ok(urls as string[]);
 }
 
 /**